@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { ACPConnect } from "@/components/ACPConnect";
-import { ACPMain } from "@chrome-acp/shared/components";
+import { ACPMain, OfflineThreads } from "@chrome-acp/shared/components";
 import { ThemeProvider } from "@chrome-acp/shared/lib";
 import type { ACPClient } from "@chrome-acp/shared/acp";
 import "./index.css";
@@ -24,11 +24,15 @@ export function App() {
           {client ? (
             <ACPMain client={client} />
           ) : (
-            <div className="flex items-center justify-center h-full text-muted-foreground p-4">
-              <div className="text-center">
-                <p className="text-lg mb-2">No agent connected</p>
-                <p className="text-sm">Click the status bar above to configure connection</p>
+            <div className="flex flex-col h-full">
+              <div className="flex flex-1 items-center justify-center text-muted-foreground p-4">
+                <div className="text-center">
+                  <p className="text-lg mb-2">No agent connected</p>
+                  <p className="text-sm">Click the status bar above to configure connection</p>
+                </div>
               </div>
+              {/* Threads cached while connected stay readable offline */}
+              <OfflineThreads className="flex-[2] max-w-2xl mx-auto w-full" />
             </div>
           )}
         </main>
@@ -7,7 +7,49 @@ import type {
   BrowserTabsResult,
   BrowserReadResult,
   BrowserExecuteResult,
+  BrowserScreenshotFormat,
+  BrowserScreenshotResult,
+  BrowserSnapshotResult,
+  BrowserInteractionAction,
+  BrowserInteractionResult,
+  BrowserPageDelta,
+  BrowserTabAction,
+  BrowserTabActionResult,
+  BrowserWaitForResult,
 } from "@chrome-acp/shared/acp";
+import { diffLines } from "@chrome-acp/shared/lib/line-diff";
+
+// Screenshot limits, so one capture can't flood the agent's context
+const MAX_SCREENSHOT_WIDTH = 1568;
+const MAX_SCREENSHOT_HEIGHT = 8000;
+const MAX_SCREENSHOT_BYTES = 1024 * 1024;
+// Full page captures stop after this many CSS pixels
+const MAX_FULL_PAGE_HEIGHT = 8000;
+const DEFAULT_JPEG_QUALITY = 80;
+const MIN_JPEG_QUALITY = 40;
+// Chrome allows two captureVisibleTab calls per second
+const CAPTURE_INTERVAL_MS = 550;
+// Accessibility snapshots stop listing nodes after this many
+const MAX_SNAPSHOT_NODES = 1500;
+// After an interaction, wait for the DOM to stop changing for this long (at most the max)
+const SETTLE_QUIET_MS = 300;
+const SETTLE_MAX_MS = 3000;
+// How long an interaction waits for a page it navigated to
+const NAVIGATION_TIMEOUT_MS = 10000;
+// Changed snapshot lines listed in an interaction's delta
+const MAX_DELTA_LINES = 80;
+// Tab actions wait this long for the page to load by default, and at most the
+// max, to answer before the proxy gives up on the call (30s)
+const DEFAULT_LOAD_TIMEOUT_MS = 15000;
+const MAX_LOAD_TIMEOUT_MS = 25000;
+// browser_wait_for's own timeout; the proxy extends its call timeout to match
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+const MAX_WAIT_TIMEOUT_MS = 120000;
+// No finished requests for this long counts as network idle
+const NETWORK_IDLE_MS = 500;
+// A navigation that hasn't started loading after this long never will
+// (same-document navigations, e.g. to a #hash)
+const LOAD_START_GRACE_MS = 1000;
 
 // Execute browser_tabs: List all open tabs
 async function executeBrowserTabs(): Promise<BrowserTabsResult> {
@@ -91,6 +133,644 @@ async function executeBrowserExecute(
   }
 }
 
+// Execute browser_snapshot: Get the accessibility tree, with refs for interactive elements
+async function executeBrowserSnapshot(tabId: number): Promise<BrowserSnapshotResult> {
+  console.log(`[BrowserTool] Taking accessibility snapshot of tab ${tabId}...`);
+
+  const tab = await chrome.tabs.get(tabId);
+  if (!tab) {
+    throw new Error(`Tab ${tabId} not found`);
+  }
+
+  const results = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: collectAriaSnapshot,
+    args: [MAX_SNAPSHOT_NODES, true],
+  });
+
+  const snapshot = results[0]?.result;
+  if (!snapshot) {
+    throw new Error("Failed to collect accessibility snapshot");
+  }
+
+  console.log(`[BrowserTool] Snapshot complete: ${snapshot.refCount} refs, ${snapshot.snapshot.length} chars`);
+  return {
+    action: "snapshot",
+    tabId,
+    url: tab.url || "",
+    title: tab.title || "",
+    ...snapshot,
+  };
+}
+
+// Execute browser_wait_for: Block until the page meets every given condition
+async function executeBrowserWaitFor(tabId: number, conditions: WaitConditions): Promise<BrowserWaitForResult> {
+  console.log(`[BrowserTool] Waiting in tab ${tabId}...`, conditions);
+
+  const timeoutMs = Math.min(MAX_WAIT_TIMEOUT_MS, Math.max(0, conditions.timeout ?? DEFAULT_WAIT_TIMEOUT_MS));
+  const startTime = Date.now();
+  const deadline = startTime + timeoutMs;
+
+  // The wait runs in the page, so a navigation ends it early; pick it up again
+  // on the new page with whatever time is left
+  for (;;) {
+    try {
+      const results = await chrome.scripting.executeScript({
+        target: { tabId },
+        func: waitForConditions,
+        args: [conditions, Math.max(0, deadline - Date.now()), NETWORK_IDLE_MS],
+      });
+      const outcome = results[0]?.result;
+      if (!outcome) {
+        throw new Error("Failed to wait in tab");
+      }
+      if (outcome.error) {
+        throw new Error(outcome.error);
+      }
+      const tab = await chrome.tabs.get(tabId);
+      console.log(`[BrowserTool] Wait ${outcome.pending.length === 0 ? "satisfied" : "timed out"}`, outcome.pending);
+      return {
+        action: "wait_for",
+        tabId,
+        url: tab.url || "",
+        title: tab.title || "",
+        satisfied: outcome.pending.length === 0,
+        elapsedMs: Date.now() - startTime,
+        pending: outcome.pending,
+      };
+    } catch (error) {
+      const tab = await chrome.tabs.get(tabId);
+      // Only a page that went away mid-wait is worth another try
+      if (tab.status !== "loading" || Date.now() >= deadline) {
+        throw error;
+      }
+      await waitForTabComplete(tabId, Math.max(1, deadline - Date.now())).catch(() => {});
+    }
+  }
+}
+
+// Execute a tab action (navigate, go_back, go_forward, reload, close_tab,
+// activate_tab) and wait for the page to load
+async function executeBrowserTabAction(
+  action: BrowserTabAction,
+  params: { tabId?: number; url?: string; bypassCache?: boolean; timeout?: number },
+): Promise<BrowserTabActionResult> {
+  console.log(`[BrowserTool] ${action}...`, params);
+
+  const timeoutMs = Math.min(MAX_LOAD_TIMEOUT_MS, Math.max(0, params.timeout ?? DEFAULT_LOAD_TIMEOUT_MS));
+  const toResult = ({ tab, timedOut }: { tab: chrome.tabs.Tab; timedOut: boolean }): BrowserTabActionResult => ({
+    action,
+    tabId: tab.id!,
+    url: tab.url || tab.pendingUrl || "",
+    title: tab.title || "",
+    timedOut,
+  });
+
+  if (action === "navigate") {
+    const url = normalizeUrl(params.url ?? "");
+    if (params.tabId === undefined) {
+      const tab = await chrome.tabs.create({ url, active: true });
+      return toResult(await waitForCurrentLoad(tab, timeoutMs));
+    }
+    return toResult(await waitForTabLoad(params.tabId, timeoutMs, () => chrome.tabs.update(params.tabId!, { url })));
+  }
+
+  if (params.tabId === undefined) {
+    throw new Error(`tabId is required for ${action} action`);
+  }
+  const tabId = params.tabId;
+  const tab = await chrome.tabs.get(tabId);
+
+  switch (action) {
+    case "go_back":
+      return toResult(await waitForTabLoad(tabId, timeoutMs, () => chrome.tabs.goBack(tabId)));
+    case "go_forward":
+      return toResult(await waitForTabLoad(tabId, timeoutMs, () => chrome.tabs.goForward(tabId)));
+    case "reload":
+      return toResult(
+        await waitForTabLoad(tabId, timeoutMs, () => chrome.tabs.reload(tabId, { bypassCache: params.bypassCache })),
+      );
+    case "close_tab":
+      await chrome.tabs.remove(tabId);
+      return toResult({ tab, timedOut: false });
+    case "activate_tab": {
+      await chrome.tabs.update(tabId, { active: true });
+      await chrome.windows.update(tab.windowId, { focused: true });
+      return toResult(await waitForCurrentLoad(tab, timeoutMs));
+    }
+  }
+}
+
+// Accept "example.com" the way the address bar does
+function normalizeUrl(url: string): string {
+  const trimmed = url.trim();
+  if (!trimmed) {
+    throw new Error("url is required for navigate action");
+  }
+  return /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+// Wait for whatever load the tab has going (a new tab, or one being switched to)
+async function waitForCurrentLoad(
+  tab: chrome.tabs.Tab,
+  timeoutMs: number,
+): Promise<{ tab: chrome.tabs.Tab; timedOut: boolean }> {
+  try {
+    return { tab: await waitForTabComplete(tab.id!, timeoutMs), timedOut: false };
+  } catch (error) {
+    const current = await chrome.tabs.get(tab.id!);
+    if (current.status !== "complete") {
+      return { tab: current, timedOut: true };
+    }
+    throw error;
+  }
+}
+
+// Start a navigation and wait for the load it causes. Unlike waitForTabComplete,
+// the tab's current "complete" status (from the page being left) doesn't count
+function waitForTabLoad(
+  tabId: number,
+  timeoutMs: number,
+  start: () => Promise<unknown>,
+): Promise<{ tab: chrome.tabs.Tab; timedOut: boolean }> {
+  return new Promise((resolve, reject) => {
+    let done = false;
+    let sawLoading = false;
+
+    const cleanup = () => {
+      done = true;
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+      chrome.tabs.onRemoved.removeListener(onRemoved);
+    };
+    const finish = (tab: chrome.tabs.Tab, timedOut: boolean) => {
+      if (done) return;
+      cleanup();
+      resolve({ tab, timedOut });
+    };
+    const fail = (error: unknown) => {
+      if (done) return;
+      cleanup();
+      reject(error);
+    };
+
+    const onUpdated = (updatedTabId: number, changeInfo: { status?: string }, tab: chrome.tabs.Tab) => {
+      if (updatedTabId !== tabId) return;
+      if (changeInfo.status === "loading") sawLoading = true;
+      if (changeInfo.status === "complete" && sawLoading) finish(tab, false);
+    };
+    const onRemoved = (removedTabId: number) => {
+      if (removedTabId === tabId) fail(new Error(`Tab ${tabId} was closed`));
+    };
+    const timer = setTimeout(() => {
+      chrome.tabs.get(tabId).then((tab) => finish(tab, true), fail);
+    }, timeoutMs);
+
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    chrome.tabs.onRemoved.addListener(onRemoved);
+    start().then(() => {
+      setTimeout(() => {
+        if (sawLoading || done) return;
+        chrome.tabs.get(tabId).then((tab) => {
+          if (!sawLoading && tab.status === "complete") finish(tab, false);
+        }, fail);
+      }, LOAD_START_GRACE_MS);
+    }, fail);
+  });
+}
+
+// Execute an interaction (click, type, select_option, hover, press_key) on an
+// element, then report how the page changed
+async function executeBrowserInteraction(
+  tabId: number,
+  request: InteractionRequest,
+): Promise<BrowserInteractionResult> {
+  console.log(`[BrowserTool] ${request.action} in tab ${tabId}...`, request);
+
+  const tab = await chrome.tabs.get(tabId);
+  if (!tab) {
+    throw new Error(`Tab ${tabId} not found`);
+  }
+
+  const before = await takePageState(tabId);
+  const results = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: performInteraction,
+    args: [request],
+  });
+  const outcome = results[0]?.result;
+  if (!outcome) {
+    throw new Error(`Failed to perform ${request.action}`);
+  }
+  if (outcome.error) {
+    throw new Error(outcome.error);
+  }
+
+  const loading = await waitForPageToSettle(tabId);
+  const after = await takePageState(tabId);
+  const delta = getPageDelta(before, after, loading);
+
+  console.log(`[BrowserTool] ${request.action} complete:`, outcome.target, delta);
+  return {
+    action: request.action,
+    tabId,
+    url: after.url,
+    title: after.title,
+    target: outcome.target,
+    detail: outcome.detail,
+    delta,
+  };
+}
+
+interface PageState {
+  url: string;
+  title: string;
+  // Set on each document by takePageState; tells a navigation from a URL change
+  documentId: string;
+  snapshot: string;
+}
+
+async function takePageState(tabId: number): Promise<PageState> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: () => {
+      // Lives in the isolated world, so it's gone once the document is replaced
+      const scope = window as unknown as { __acpDocumentId?: string };
+      scope.__acpDocumentId ??= `${Date.now()}-${Math.random()}`;
+      return { url: location.href, title: document.title, documentId: scope.__acpDocumentId };
+    },
+  });
+  const page = results[0]?.result;
+  if (!page) {
+    throw new Error("Failed to read page state");
+  }
+
+  // Refs from the agent's last browser_snapshot must keep working, so this
+  // pass only adds refs for new elements
+  const snapshotResults = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: collectAriaSnapshot,
+    args: [MAX_SNAPSHOT_NODES, false],
+  });
+  return { ...page, snapshot: snapshotResults[0]?.result?.snapshot ?? "" };
+}
+
+// Wait for a navigation the interaction started, or for the DOM to go quiet.
+// Returns whether the page was still loading when the wait ran out
+async function waitForPageToSettle(tabId: number): Promise<boolean> {
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      func: waitForDomToSettle,
+      args: [SETTLE_QUIET_MS, SETTLE_MAX_MS],
+    });
+  } catch {
+    // The document went away mid-wait: a navigation, handled below
+  }
+
+  const tab = await chrome.tabs.get(tabId);
+  if (tab.status !== "loading") {
+    return false;
+  }
+  try {
+    await waitForTabComplete(tabId, NAVIGATION_TIMEOUT_MS);
+    return false;
+  } catch (error) {
+    console.warn("[BrowserTool] Page still loading:", error);
+    return true;
+  }
+}
+
+// Resolve once the tab has finished loading
+function waitForTabComplete(tabId: number, timeoutMs: number): Promise<chrome.tabs.Tab> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+      chrome.tabs.onRemoved.removeListener(onRemoved);
+    };
+    const onUpdated = (updatedTabId: number, changeInfo: { status?: string }, tab: chrome.tabs.Tab) => {
+      if (updatedTabId === tabId && changeInfo.status === "complete") {
+        cleanup();
+        resolve(tab);
+      }
+    };
+    const onRemoved = (removedTabId: number) => {
+      if (removedTabId === tabId) {
+        cleanup();
+        reject(new Error(`Tab ${tabId} was closed`));
+      }
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Tab ${tabId} did not finish loading within ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    chrome.tabs.onRemoved.addListener(onRemoved);
+    // It may have finished before the listeners were added
+    chrome.tabs.get(tabId).then(
+      (tab) => {
+        if (tab.status === "complete") {
+          cleanup();
+          resolve(tab);
+        }
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      },
+    );
+  });
+}
+
+function getPageDelta(before: PageState, after: PageState, loading: boolean): BrowserPageDelta {
+  const navigated = before.documentId !== after.documentId;
+  const delta: BrowserPageDelta = {
+    navigated,
+    urlChanged: before.url !== after.url,
+    titleChanged: before.title !== after.title,
+    added: [],
+    removed: [],
+    omitted: 0,
+    loading,
+  };
+
+  // A diff against a different page says nothing; show the new one instead
+  if (navigated) {
+    delta.snapshot = after.snapshot;
+    return delta;
+  }
+
+  const changed = diffLines(before.snapshot, after.snapshot).filter((line) => line.type !== "context");
+  for (const line of changed.slice(0, MAX_DELTA_LINES)) {
+    // Without indentation and list marker; the tree structure doesn't survive a diff anyway
+    (line.type === "added" ? delta.added : delta.removed).push(line.text.trim().replace(/^- /, ""));
+  }
+  delta.omitted = Math.max(0, changed.length - MAX_DELTA_LINES);
+  return delta;
+}
+
+// Execute browser_screenshot: Capture the viewport, the full page or one element
+async function executeBrowserScreenshot(
+  tabId: number,
+  options: {
+    fullPage?: boolean;
+    selector?: string;
+    format?: BrowserScreenshotFormat;
+    quality?: number;
+  },
+): Promise<BrowserScreenshotResult> {
+  console.log(`[BrowserTool] Taking screenshot of tab ${tabId}...`, options);
+
+  const tab = await chrome.tabs.get(tabId);
+  if (!tab) {
+    throw new Error(`Tab ${tabId} not found`);
+  }
+
+  const mode = options.selector ? "element" : options.fullPage ? "full_page" : "viewport";
+  const format = options.format === "png" ? "png" : "jpeg";
+  const quality = Math.min(100, Math.max(1, Math.round(options.quality ?? DEFAULT_JPEG_QUALITY)));
+
+  const capture = await withTabInFront(tab, async () => {
+    const page = await runInTab(tabId, measurePage, [options.selector ?? null]);
+    try {
+      if (mode === "element") {
+        return await captureElement(tab, page);
+      }
+      if (mode === "full_page") {
+        return await captureFullPage(tab, page);
+      }
+      return await captureViewport(tab, page);
+    } finally {
+      // Element and full page captures scroll the page; put it back
+      if (mode !== "viewport") {
+        await runInTab(tabId, scrollPageTo, [page.scrollX, page.scrollY]).catch(() => {});
+      }
+    }
+  });
+
+  const image = await encodeCanvas(capture.canvas, format, quality);
+  console.log(`[BrowserTool] Screenshot complete: ${image.width}x${image.height}, ${image.blob.size} bytes`);
+
+  return {
+    action: "screenshot",
+    tabId,
+    url: tab.url || "",
+    title: tab.title || "",
+    mode,
+    data: await blobToBase64(image.blob),
+    mimeType: format === "png" ? "image/png" : "image/jpeg",
+    width: image.width,
+    height: image.height,
+    scale: (capture.scale * image.width) / capture.canvas.width,
+    truncated: capture.truncated,
+  };
+}
+
+// A capture drawn onto one canvas; scale is canvas pixels per CSS pixel
+interface Capture {
+  canvas: OffscreenCanvas;
+  scale: number;
+  truncated: boolean;
+}
+
+// Part of a captured frame, in the frame's pixels
+interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Run one of the page functions below in a tab and return its result
+async function runInTab<Args extends unknown[], Result>(
+  tabId: number,
+  func: (...args: Args) => Promise<Result>,
+  args: Args,
+): Promise<Result> {
+  const results = await chrome.scripting.executeScript({ target: { tabId }, func, args });
+  const result = results[0]?.result;
+  if (result === undefined) {
+    throw new Error("Failed to run script in tab");
+  }
+  return result as Result;
+}
+
+// captureVisibleTab only sees the active tab of a window, so bring the tab
+// to the front for the capture and then give the user their tab back
+async function withTabInFront<T>(tab: chrome.tabs.Tab, capture: () => Promise<T>): Promise<T> {
+  if (tab.active || tab.id === undefined) {
+    return capture();
+  }
+  const [previous] = await chrome.tabs.query({ active: true, windowId: tab.windowId });
+  await chrome.tabs.update(tab.id, { active: true });
+  try {
+    return await capture();
+  } finally {
+    if (previous?.id !== undefined) {
+      await chrome.tabs.update(previous.id, { active: true }).catch(() => {});
+    }
+  }
+}
+
+let lastCaptureTime = 0;
+
+async function captureTab(tab: chrome.tabs.Tab): Promise<ImageBitmap> {
+  const wait = lastCaptureTime + CAPTURE_INTERVAL_MS - Date.now();
+  if (wait > 0) {
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+  lastCaptureTime = Date.now();
+  const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, { format: "png" });
+  return createImageBitmap(dataUrlToBlob(dataUrl));
+}
+
+async function captureViewport(tab: chrome.tabs.Tab, page: PageMetrics): Promise<Capture> {
+  const bitmap = await captureTab(tab);
+  const ratio = bitmap.width / page.innerWidth;
+  const { canvas, scale } = drawScaled([{ bitmap, y: 0 }], bitmap.width, bitmap.height);
+  return { canvas, scale: scale * ratio, truncated: false };
+}
+
+async function captureElement(tab: chrome.tabs.Tab, page: PageMetrics): Promise<Capture> {
+  const element = page.element;
+  if (!element) {
+    throw new Error(`No element matches selector: ${page.selector}`);
+  }
+  if (element.width === 0 || element.height === 0) {
+    throw new Error(`Element has no visible area: ${page.selector}`);
+  }
+
+  const bitmap = await captureTab(tab);
+  const ratio = bitmap.width / page.innerWidth;
+  // Only the part of the element inside the viewport can be captured
+  const left = Math.max(0, element.x);
+  const top = Math.max(0, element.y);
+  const right = Math.min(page.innerWidth, element.x + element.width);
+  const bottom = Math.min(page.innerHeight, element.y + element.height);
+  if (right <= left || bottom <= top) {
+    throw new Error(`Element is outside the viewport: ${page.selector}`);
+  }
+  const crop: CropRect = {
+    x: Math.round(left * ratio),
+    y: Math.round(top * ratio),
+    width: Math.max(1, Math.round((right - left) * ratio)),
+    height: Math.max(1, Math.round((bottom - top) * ratio)),
+  };
+
+  const { canvas, scale } = drawScaled([{ bitmap, y: 0, crop }], crop.width, crop.height);
+  return {
+    canvas,
+    scale: scale * ratio,
+    truncated: right - left < element.width || bottom - top < element.height,
+  };
+}
+
+// Scroll down a viewport at a time and stitch the captures together
+async function captureFullPage(tab: chrome.tabs.Tab, page: PageMetrics): Promise<Capture> {
+  const height = Math.min(page.scrollHeight, MAX_FULL_PAGE_HEIGHT);
+  const frames: { bitmap: ImageBitmap; y: number }[] = [];
+  let ratio = 1;
+
+  for (let y = 0; y < height; y += page.innerHeight) {
+    // Near the bottom the browser clamps the scroll, so the last frames overlap
+    const scrollY = await runInTab(tab.id!, scrollPageTo, [page.scrollX, y]);
+    const bitmap = await captureTab(tab);
+    ratio = bitmap.width / page.innerWidth;
+    frames.push({ bitmap, y: Math.round(scrollY * ratio) });
+  }
+
+  const { canvas, scale } = drawScaled(frames, frames[0]!.bitmap.width, Math.round(height * ratio));
+  return { canvas, scale: scale * ratio, truncated: page.scrollHeight > MAX_FULL_PAGE_HEIGHT };
+}
+
+// Draw captured frames onto one canvas, scaled down to fit the size limits.
+// Returns the scale as canvas pixels per captured pixel
+function drawScaled(
+  frames: { bitmap: ImageBitmap; y: number; crop?: CropRect }[],
+  width: number,
+  height: number,
+): { canvas: OffscreenCanvas; scale: number } {
+  const scale = Math.min(1, MAX_SCREENSHOT_WIDTH / width, MAX_SCREENSHOT_HEIGHT / height);
+  const canvas = new OffscreenCanvas(
+    Math.max(1, Math.round(width * scale)),
+    Math.max(1, Math.round(height * scale)),
+  );
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to create canvas");
+  }
+
+  for (const { bitmap, y, crop } of frames) {
+    const source = crop ?? { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    context.drawImage(
+      bitmap,
+      source.x,
+      source.y,
+      source.width,
+      source.height,
+      0,
+      y * scale,
+      source.width * scale,
+      source.height * scale,
+    );
+    bitmap.close();
+  }
+  return { canvas, scale };
+}
+
+// Lower the JPEG quality, then the size, until the image fits MAX_SCREENSHOT_BYTES
+async function encodeCanvas(
+  canvas: OffscreenCanvas,
+  format: BrowserScreenshotFormat,
+  quality: number,
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const type = format === "png" ? "image/png" : "image/jpeg";
+  let current = canvas;
+
+  for (;;) {
+    let currentQuality = quality;
+    let blob = await current.convertToBlob({ type, quality: currentQuality / 100 });
+    while (format === "jpeg" && blob.size > MAX_SCREENSHOT_BYTES && currentQuality > MIN_JPEG_QUALITY) {
+      currentQuality = Math.max(MIN_JPEG_QUALITY, currentQuality - 15);
+      blob = await current.convertToBlob({ type, quality: currentQuality / 100 });
+    }
+    if (blob.size <= MAX_SCREENSHOT_BYTES || current.width <= 256) {
+      return { blob, width: current.width, height: current.height };
+    }
+
+    const smaller = new OffscreenCanvas(
+      Math.round(current.width * 0.75),
+      Math.round(current.height * 0.75),
+    );
+    smaller.getContext("2d")?.drawImage(current, 0, 0, smaller.width, smaller.height);
+    current = smaller;
+  }
+}
+
+// Decode a data URL without fetch(), which the extension's CSP blocks for data: URLs
+function dataUrlToBlob(dataUrl: string): Blob {
+  const commaIndex = dataUrl.indexOf(",");
+  const mimeMatch = dataUrl.slice(0, commaIndex).match(/^data:([^;,]+)/);
+  const binary = atob(dataUrl.slice(commaIndex + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeMatch?.[1] ?? "image/png" });
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  // In chunks: spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 // Main entry point - routes to appropriate action
 export async function executeBrowserTool(
   params: BrowserToolParams,
@@ -113,6 +793,80 @@ export async function executeBrowserTool(
         throw new Error("script is required for execute action");
       }
       return executeBrowserExecute(params.tabId, params.script);
+    case "snapshot":
+      if (params.tabId === undefined) {
+        throw new Error("tabId is required for snapshot action");
+      }
+      return executeBrowserSnapshot(params.tabId);
+    case "click":
+    case "type":
+    case "select_option":
+    case "hover":
+    case "press_key":
+      if (params.tabId === undefined) {
+        throw new Error(`tabId is required for ${params.action} action`);
+      }
+      if (params.action === "type" && params.text === undefined) {
+        throw new Error("text is required for type action");
+      }
+      if (params.action === "select_option" && !params.values?.length) {
+        throw new Error("values is required for select_option action");
+      }
+      if (params.action === "press_key" && !params.key) {
+        throw new Error("key is required for press_key action");
+      }
+      if (params.action !== "press_key" && !params.ref && !params.selector) {
+        throw new Error(`ref or selector is required for ${params.action} action`);
+      }
+      return executeBrowserInteraction(params.tabId, {
+        action: params.action,
+        ref: params.ref,
+        selector: params.selector,
+        text: params.text,
+        clear: params.clear,
+        submit: params.submit,
+        values: params.values,
+        key: params.key,
+        button: params.button,
+        doubleClick: params.doubleClick,
+      });
+    case "navigate":
+    case "go_back":
+    case "go_forward":
+    case "reload":
+    case "close_tab":
+    case "activate_tab":
+      return executeBrowserTabAction(params.action, {
+        tabId: params.tabId,
+        url: params.url,
+        bypassCache: params.bypassCache,
+        timeout: params.timeout,
+      });
+    case "wait_for":
+      if (params.tabId === undefined) {
+        throw new Error("tabId is required for wait_for action");
+      }
+      if (!params.selector && params.text === undefined && !params.url && !params.networkIdle) {
+        throw new Error("wait_for needs at least one of selector, text, url or networkIdle");
+      }
+      return executeBrowserWaitFor(params.tabId, {
+        selector: params.selector,
+        text: params.text,
+        url: params.url,
+        gone: params.gone,
+        networkIdle: params.networkIdle,
+        timeout: params.timeout,
+      });
+    case "screenshot":
+      if (params.tabId === undefined) {
+        throw new Error("tabId is required for screenshot action");
+      }
+      return executeBrowserScreenshot(params.tabId, {
+        fullPage: params.fullPage,
+        selector: params.selector,
+        format: params.format,
+        quality: params.quality,
+      });
     default:
       throw new Error(`Unknown action: ${params.action}`);
   }
@@ -205,6 +959,366 @@ function collectPageInfo(): PageInfo {
   };
 }
 
+// Refs handed out by browser_snapshot. They live in the extension's isolated
+// world of the page, so they last until the next snapshot or until the page
+// navigates away, and the page's own scripts can't see or change them
+interface SnapshotRefRegistry {
+  nextId: number;
+  // An element keeps its ref across snapshots
+  ids: WeakMap<Element, string>;
+  // Refs in the latest snapshot
+  elements: Map<string, Element>;
+}
+
+interface AriaSnapshot {
+  snapshot: string;
+  refCount: number;
+  truncated: boolean;
+}
+
+// This function is serialized and executed in the page context (ISOLATED world)
+// Walks the DOM the way the accessibility tree sees it, like Playwright's aria
+// snapshot: roles, names and states, with a ref on each interactive node.
+// With resetRefs, only the refs in this snapshot stay valid; without, refs
+// are added to the ones already handed out
+function collectAriaSnapshot(maxNodes: number, resetRefs: boolean): AriaSnapshot {
+  interface SnapshotNode {
+    role: string;
+    name: string;
+    states: string[];
+    value: string | null;
+    ref: string | null;
+    children: (SnapshotNode | string)[];
+  }
+
+  const INTERACTIVE_ROLES = new Set([
+    "button", "link", "textbox", "searchbox", "checkbox", "radio", "switch",
+    "combobox", "listbox", "option", "slider", "spinbutton", "tab",
+    "menuitem", "menuitemcheckbox", "menuitemradio", "treeitem",
+  ]);
+  // Roles named by their text, whose children are then left out
+  const NAME_FROM_CONTENT_ROLES = new Set([
+    "button", "link", "heading", "tab", "menuitem", "menuitemcheckbox",
+    "menuitemradio", "option", "treeitem", "checkbox", "radio", "switch",
+    "cell", "columnheader", "rowheader", "tooltip", "generic",
+  ]);
+  const VALUE_ROLES = new Set(["textbox", "searchbox", "spinbutton", "slider", "combobox"]);
+  const SKIPPED_TAGS = new Set(["script", "style", "noscript", "template", "head", "meta", "link"]);
+
+  const scope = window as unknown as { __acpSnapshotRefs?: SnapshotRefRegistry };
+  const registry = (scope.__acpSnapshotRefs ??= { nextId: 1, ids: new WeakMap(), elements: new Map() });
+  if (resetRefs) registry.elements = new Map();
+
+  let nodeCount = 0;
+  let truncated = false;
+
+  const normalize = (text: string | null | undefined) => (text ?? "").replace(/\s+/g, " ").trim();
+  const clip = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+  function getRole(el: Element): string | null {
+    const explicit = el.getAttribute("role")?.trim().split(/\s+/)[0];
+    if (explicit) {
+      return explicit === "none" || explicit === "presentation" ? null : explicit;
+    }
+
+    const tag = el.tagName.toLowerCase();
+    switch (tag) {
+      case "a":
+      case "area":
+        return el.hasAttribute("href") ? "link" : null;
+      case "button":
+      case "summary":
+        return "button";
+      case "input": {
+        const type = (el as HTMLInputElement).type;
+        if (["button", "submit", "reset", "image", "file"].includes(type)) return "button";
+        if (type === "checkbox" || type === "radio") return type;
+        if (type === "range") return "slider";
+        if (type === "number") return "spinbutton";
+        if (type === "search") return "searchbox";
+        return type === "hidden" ? null : "textbox";
+      }
+      case "textarea":
+        return "textbox";
+      case "select": {
+        const select = el as HTMLSelectElement;
+        return select.multiple || select.size > 1 ? "listbox" : "combobox";
+      }
+      case "option":
+        return "option";
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6":
+        return "heading";
+      case "img":
+        return el.getAttribute("alt") === "" ? null : "img";
+      case "svg":
+        return el.hasAttribute("aria-label") ? "img" : null;
+      case "nav":
+        return "navigation";
+      case "main":
+        return "main";
+      case "header":
+        return "banner";
+      case "footer":
+        return "contentinfo";
+      case "aside":
+        return "complementary";
+      case "section":
+        return el.hasAttribute("aria-label") || el.hasAttribute("aria-labelledby") ? "region" : null;
+      case "ul":
+      case "ol":
+      case "menu":
+        return "list";
+      case "li":
+        return "listitem";
+      case "tr":
+        return "row";
+      case "td":
+        return "cell";
+      case "th":
+        return el.getAttribute("scope") === "row" ? "rowheader" : "columnheader";
+      case "p":
+        return "paragraph";
+      case "hr":
+        return "separator";
+      case "progress":
+        return "progressbar";
+      case "fieldset":
+      case "details":
+        return "group";
+      // Elements whose role has the same name
+      case "form":
+      case "article":
+      case "dialog":
+      case "table":
+      case "blockquote":
+      case "figure":
+      case "meter":
+      case "iframe":
+        return tag;
+      default:
+        return null;
+    }
+  }
+
+  function getName(el: Element, role: string): string {
+    const labelledBy = el.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      const text = normalize(
+        labelledBy
+          .split(/\s+/)
+          .map((id) => document.getElementById(id)?.textContent ?? "")
+          .join(" "),
+      );
+      if (text) return text;
+    }
+    const ariaLabel = normalize(el.getAttribute("aria-label"));
+    if (ariaLabel) return ariaLabel;
+
+    if (el instanceof HTMLInputElement && ["button", "submit", "reset"].includes(el.type)) {
+      return normalize(el.value) || (el.type === "submit" ? "Submit" : el.type === "reset" ? "Reset" : "");
+    }
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement) {
+      const labels = normalize(Array.from(el.labels ?? []).map((label) => label.textContent).join(" "));
+      if (labels) return labels;
+      const placeholder = normalize(el.getAttribute("placeholder"));
+      if (placeholder) return placeholder;
+    }
+    if (el instanceof HTMLImageElement || (el instanceof HTMLInputElement && el.type === "image")) {
+      const alt = normalize(el.getAttribute("alt"));
+      if (alt) return alt;
+    }
+    if (el instanceof HTMLFieldSetElement) {
+      const legend = normalize(el.querySelector("legend")?.textContent);
+      if (legend) return legend;
+    }
+    if (el instanceof HTMLTableElement) {
+      const caption = normalize(el.caption?.textContent);
+      if (caption) return caption;
+    }
+    if (NAME_FROM_CONTENT_ROLES.has(role)) {
+      const text = normalize((el as HTMLElement).innerText ?? el.textContent);
+      if (text) return text;
+    }
+    return normalize(el.getAttribute("title"));
+  }
+
+  function getStates(el: Element, role: string): string[] {
+    const states: string[] = [];
+    if (role === "heading") {
+      // role="heading" without aria-level defaults to level 2
+      const tagLevel = /^H[1-6]$/.test(el.tagName) ? el.tagName.slice(1) : "2";
+      states.push(`level=${el.getAttribute("aria-level") ?? tagLevel}`);
+    }
+
+    const ariaChecked = el.getAttribute("aria-checked");
+    if (el instanceof HTMLInputElement && (el.type === "checkbox" || el.type === "radio")) {
+      if (el.indeterminate) states.push("checked=mixed");
+      else if (el.checked) states.push("checked");
+    } else if (ariaChecked === "true") {
+      states.push("checked");
+    } else if (ariaChecked === "mixed") {
+      states.push("checked=mixed");
+    }
+
+    if ((el as HTMLButtonElement).disabled === true || el.getAttribute("aria-disabled") === "true") {
+      states.push("disabled");
+    }
+
+    const expanded =
+      el.getAttribute("aria-expanded") ??
+      (el.tagName === "SUMMARY" && el.parentElement instanceof HTMLDetailsElement
+        ? String(el.parentElement.open)
+        : null);
+    if (expanded === "true") states.push("expanded");
+    else if (expanded === "false") states.push("expanded=false");
+
+    if ((el instanceof HTMLOptionElement && el.selected) || el.getAttribute("aria-selected") === "true") {
+      states.push("selected");
+    }
+
+    const pressed = el.getAttribute("aria-pressed");
+    if (pressed === "true") states.push("pressed");
+    else if (pressed === "mixed") states.push("pressed=mixed");
+
+    if (el === document.activeElement && el !== document.body) {
+      states.push("focused");
+    }
+
+    return states;
+  }
+
+  function getValue(el: Element, role: string): string | null {
+    // A select's choice shows on its options, as [selected]
+    if (!VALUE_ROLES.has(role)) return null;
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+      if (!el.value) return null;
+      // Don't hand passwords to the agent
+      return el instanceof HTMLInputElement && el.type === "password" ? "••••••" : el.value;
+    }
+    return null;
+  }
+
+  function isInteractive(el: Element, role: string | null): boolean {
+    if (role && INTERACTIVE_ROLES.has(role)) return true;
+    if (el instanceof HTMLElement && el.isContentEditable && !el.parentElement?.isContentEditable) return true;
+    return el.hasAttribute("onclick") || (el.hasAttribute("tabindex") && (el as HTMLElement).tabIndex >= 0);
+  }
+
+  function getRef(el: Element): string {
+    let ref = registry.ids.get(el);
+    if (!ref) {
+      ref = `e${registry.nextId++}`;
+      registry.ids.set(el, ref);
+    }
+    registry.elements.set(ref, el);
+    return ref;
+  }
+
+  function visitChildren(el: Element, out: (SnapshotNode | string)[]): void {
+    // Follow shadow roots and slots the way the page renders them
+    const children =
+      el instanceof HTMLSlotElement && el.assignedNodes({ flatten: true }).length > 0
+        ? el.assignedNodes({ flatten: true })
+        : Array.from((el.shadowRoot ?? el).childNodes);
+    for (const child of children) {
+      visit(child, out);
+    }
+  }
+
+  function visit(node: Node, out: (SnapshotNode | string)[]): void {
+    if (nodeCount >= maxNodes) {
+      truncated = true;
+      return;
+    }
+
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = normalize(node.textContent);
+      if (!text) return;
+      // Neighboring text (split by inline elements) reads as one line
+      const last = out[out.length - 1];
+      if (typeof last === "string") out[out.length - 1] = `${last} ${text}`;
+      else out.push(text);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = node as Element;
+    if (SKIPPED_TAGS.has(el.tagName.toLowerCase())) return;
+    if (el.hasAttribute("hidden") || el.getAttribute("aria-hidden") === "true") return;
+    const style = window.getComputedStyle(el);
+    if (style.display === "none" || style.visibility === "hidden") return;
+
+    const role = getRole(el);
+    const interactive = isInteractive(el, role);
+    if (!role && !interactive) {
+      // Plain containers don't show up in the tree, only their contents
+      if (el.tagName.toLowerCase() !== "svg") visitChildren(el, out);
+      return;
+    }
+
+    nodeCount++;
+    const snapshotRole = role ?? "generic";
+    const snapshotNode: SnapshotNode = {
+      role: snapshotRole,
+      name: getName(el, snapshotRole),
+      states: getStates(el, snapshotRole),
+      value: getValue(el, snapshotRole),
+      ref: interactive ? getRef(el) : null,
+      children: [],
+    };
+
+    const namedByContent = NAME_FROM_CONTENT_ROLES.has(snapshotRole) && snapshotNode.name !== "";
+    const isLeaf = ["img", "textbox", "searchbox", "iframe"].includes(snapshotRole) || el.tagName.toLowerCase() === "svg";
+    if (!namedByContent && !isLeaf) {
+      visitChildren(el, snapshotNode.children);
+    }
+    out.push(snapshotNode);
+  }
+
+  function render(nodes: (SnapshotNode | string)[], depth: number, lines: string[]): void {
+    const indent = "  ".repeat(depth);
+    for (const node of nodes) {
+      if (typeof node === "string") {
+        lines.push(`${indent}- text: ${JSON.stringify(clip(node, 200))}`);
+        continue;
+      }
+
+      let line = `${indent}- ${node.role}`;
+      if (node.name) line += ` ${JSON.stringify(clip(node.name, 100))}`;
+      for (const state of node.states) line += ` [${state}]`;
+      if (node.ref) line += ` [ref=${node.ref}]`;
+
+      const [onlyChild] = node.children;
+      if (node.value !== null) {
+        lines.push(`${line}: ${JSON.stringify(clip(node.value, 200))}`);
+      } else if (node.children.length === 1 && typeof onlyChild === "string") {
+        lines.push(`${line}: ${JSON.stringify(clip(onlyChild, 200))}`);
+      } else if (node.children.length > 0) {
+        lines.push(`${line}:`);
+        render(node.children, depth + 1, lines);
+      } else {
+        lines.push(line);
+      }
+    }
+  }
+
+  const root: (SnapshotNode | string)[] = [];
+  if (document.body) visit(document.body, root);
+  const lines: string[] = [];
+  render(root, 0, lines);
+
+  return {
+    snapshot: lines.join("\n"),
+    refCount: registry.elements.size,
+    truncated,
+  };
+}
+
 // This function executes user script in the MAIN world (page context)
 // When called with world: "MAIN", it runs directly in the page's JavaScript context
 // which means it uses the PAGE's CSP, not the extension's CSP
@@ -220,3 +1334,534 @@ function executeScriptInMainWorld(script: string): { result?: unknown; error?: s
     return { error: (error as Error).message };
   }
 }
+
+// Page metrics for screenshots, in CSS pixels
+interface PageMetrics {
+  innerWidth: number;
+  innerHeight: number;
+  scrollHeight: number;
+  // Scroll position before any scrolling for the capture
+  scrollX: number;
+  scrollY: number;
+  selector: string | null;
+  // Element's viewport rect after scrolling it into view (null when nothing matches)
+  element: { x: number; y: number; width: number; height: number } | null;
+}
+
+// This function is serialized and executed in the page context (ISOLATED world)
+// With a selector, the element is scrolled into view first
+async function measurePage(selector: string | null): Promise<PageMetrics> {
+  const scrollX = window.scrollX;
+  const scrollY = window.scrollY;
+  let element: PageMetrics["element"] = null;
+
+  if (selector) {
+    const el = document.querySelector(selector);
+    if (el) {
+      const before = el.getBoundingClientRect();
+      const inView =
+        before.top >= 0 &&
+        before.left >= 0 &&
+        before.bottom <= window.innerHeight &&
+        before.right <= window.innerWidth;
+      if (!inView) {
+        // Elements taller than the viewport are captured from their top
+        el.scrollIntoView({ block: before.height > window.innerHeight ? "start" : "center", inline: "nearest" });
+        await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+      }
+      const rect = el.getBoundingClientRect();
+      element = { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+    }
+  }
+
+  return {
+    innerWidth: window.innerWidth,
+    innerHeight: window.innerHeight,
+    scrollHeight: Math.max(document.documentElement.scrollHeight, document.body?.scrollHeight ?? 0),
+    scrollX,
+    scrollY,
+    selector,
+    element,
+  };
+}
+
+// This function is serialized and executed in the page context (ISOLATED world)
+// Waits for the page to repaint and returns the scroll position it settled on
+async function scrollPageTo(x: number, y: number): Promise<number> {
+  window.scrollTo({ left: x, top: y, behavior: "instant" });
+  await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+  return window.scrollY;
+}
+
+// Interaction request as passed into the page
+type InteractionRequest = Pick<
+  BrowserToolParams,
+  "ref" | "selector" | "text" | "clear" | "submit" | "values" | "key" | "button" | "doubleClick"
+> & { action: BrowserInteractionAction };
+
+interface InteractionOutcome {
+  target: string;
+  detail?: string;
+  error?: string;
+}
+
+// This function is serialized and executed in the page context (ISOLATED world),
+// where the snapshot refs live. Events are dispatched with the same sequence and
+// coordinates as real input, and text goes through execCommand("insertText") so
+// framework-controlled inputs (React, Vue) see ordinary input events.
+function performInteraction(request: InteractionRequest): InteractionOutcome {
+  const scope = window as unknown as { __acpSnapshotRefs?: SnapshotRefRegistry };
+  const registry = scope.__acpSnapshotRefs;
+
+  const normalize = (text: string | null | undefined) => (text ?? "").replace(/\s+/g, " ").trim();
+
+  function describe(el: Element): string {
+    const text = normalize(
+      el.getAttribute("aria-label") ||
+        (el as HTMLInputElement).placeholder ||
+        (el as HTMLElement).innerText ||
+        el.getAttribute("title") ||
+        el.getAttribute("name"),
+    );
+    const name = text ? ` ${JSON.stringify(text.length > 60 ? `${text.slice(0, 59)}…` : text)}` : "";
+    const ref = registry?.ids.get(el);
+    return `<${el.tagName.toLowerCase()}>${name}${ref ? ` [ref=${ref}]` : ""}`;
+  }
+
+  function resolveTarget(): Element | string {
+    if (request.ref) {
+      const el = registry?.elements.get(request.ref);
+      if (!el) {
+        return `Unknown ref ${request.ref}. Refs last until the next browser_snapshot or navigation, take a new snapshot.`;
+      }
+      if (!el.isConnected) {
+        return `Element ${request.ref} is no longer on the page, take a new snapshot.`;
+      }
+      return el;
+    }
+    if (request.selector) {
+      try {
+        return document.querySelector(request.selector) ?? `No element matches selector: ${request.selector}`;
+      } catch {
+        return `Invalid selector: ${request.selector}`;
+      }
+    }
+    // Keys go to whatever has focus
+    return document.activeElement ?? document.body;
+  }
+
+  const target = resolveTarget();
+  if (typeof target === "string") {
+    return { target: "", error: target };
+  }
+  const el = target as HTMLElement;
+  const description = describe(el);
+  const fail = (error: string): InteractionOutcome => ({ target: description, error });
+
+  if ((el as HTMLButtonElement).disabled === true || el.getAttribute("aria-disabled") === "true") {
+    return fail(`Element is disabled: ${description}`);
+  }
+
+  // Bring the element into view, the way a user would before acting on it
+  if (request.action !== "press_key" || request.ref || request.selector) {
+    const rect = el.getBoundingClientRect();
+    if (rect.top < 0 || rect.left < 0 || rect.bottom > window.innerHeight || rect.right > window.innerWidth) {
+      el.scrollIntoView({ block: "center", inline: "center", behavior: "instant" });
+    }
+  }
+
+  const rect = el.getBoundingClientRect();
+  const x = rect.left + rect.width / 2;
+  const y = rect.top + rect.height / 2;
+  const buttonIndex = request.button === "middle" ? 1 : request.button === "right" ? 2 : 0;
+  const buttonsMask = [1, 4, 2][buttonIndex]!;
+
+  const mouseInit = (pressed: boolean, detail = 0): MouseEventInit => ({
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    view: window,
+    clientX: x,
+    clientY: y,
+    screenX: window.screenX + x,
+    screenY: window.screenY + y,
+    button: buttonIndex,
+    buttons: pressed ? buttonsMask : 0,
+    detail,
+  });
+  const pointer = (type: string, pressed: boolean, bubbles = true) =>
+    el.dispatchEvent(
+      new PointerEvent(type, {
+        ...mouseInit(pressed),
+        bubbles,
+        pointerId: 1,
+        pointerType: "mouse",
+        isPrimary: true,
+      }),
+    );
+  const mouse = (type: string, pressed: boolean, detail = 0, bubbles = true) =>
+    el.dispatchEvent(new MouseEvent(type, { ...mouseInit(pressed, detail), bubbles }));
+
+  function hover(): void {
+    pointer("pointerover", false);
+    pointer("pointerenter", false, false);
+    mouse("mouseover", false);
+    mouse("mouseenter", false, 0, false);
+    pointer("pointermove", false);
+    mouse("mousemove", false);
+  }
+
+  function focusTarget(): void {
+    // Clicking focuses the nearest focusable ancestor
+    const focusable = el.closest<HTMLElement>(
+      "a[href], button, input, select, textarea, summary, [tabindex], [contenteditable=''], [contenteditable='true']",
+    );
+    focusable?.focus({ preventScroll: true });
+  }
+
+  function click(detail: number): void {
+    pointer("pointerdown", true);
+    if (mouse("mousedown", true, detail)) {
+      focusTarget();
+    }
+    pointer("pointerup", false);
+    mouse("mouseup", false, detail);
+    if (buttonIndex === 0) {
+      mouse("click", false, detail);
+    } else if (buttonIndex === 1) {
+      mouse("auxclick", false, detail);
+    }
+  }
+
+  const isTextField = (node: Element) =>
+    node instanceof HTMLTextAreaElement ||
+    (node instanceof HTMLInputElement &&
+      !["button", "submit", "reset", "image", "checkbox", "radio", "file", "range", "color", "hidden"].includes(
+        node.type,
+      )) ||
+    (node instanceof HTMLElement && node.isContentEditable);
+
+  function insertText(text: string): void {
+    // execCommand keeps the page's undo stack and fires beforeinput/input like typing does
+    if (document.execCommand("insertText", false, text)) return;
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+      try {
+        el.setRangeText(text, el.selectionStart ?? el.value.length, el.selectionEnd ?? el.value.length, "end");
+      } catch {
+        // Some input types (email, number) have no selection
+        el.value += text;
+      }
+      el.dispatchEvent(new InputEvent("input", { bubbles: true, composed: true, inputType: "insertText", data: text }));
+    }
+  }
+
+  function selectAll(): void {
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+      el.select();
+    } else {
+      const range = document.createRange();
+      range.selectNodeContents(el);
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+    }
+  }
+
+  function parseKey(combo: string) {
+    // "Control+Shift+A"; a literal "+" is the last part ("Shift++")
+    const parts = combo.endsWith("++") ? [...combo.slice(0, -2).split("+"), "+"] : combo.split("+");
+    const rawKey = parts.pop() ?? "";
+    const modifiers = new Set(parts.map((part) => part.toLowerCase()));
+    const key = rawKey === "Space" ? " " : rawKey;
+    let code = key;
+    if (key === " ") code = "Space";
+    else if (/^[a-z]$/i.test(key)) code = `Key${key.toUpperCase()}`;
+    else if (/^[0-9]$/.test(key)) code = `Digit${key}`;
+    return {
+      key,
+      code,
+      ctrlKey: modifiers.has("control") || modifiers.has("ctrl"),
+      shiftKey: modifiers.has("shift"),
+      altKey: modifiers.has("alt") || modifiers.has("option"),
+      metaKey: modifiers.has("meta") || modifiers.has("cmd") || modifiers.has("command"),
+    };
+  }
+
+  function moveFocus(backwards: boolean): void {
+    const focusables = Array.from(
+      document.querySelectorAll<HTMLElement>(
+        "a[href], button, input, select, textarea, summary, [tabindex], [contenteditable=''], [contenteditable='true']",
+      ),
+    ).filter(
+      (node) => node.tabIndex >= 0 && !(node as HTMLButtonElement).disabled && node.getClientRects().length > 0,
+    );
+    if (focusables.length === 0) return;
+    const current = focusables.indexOf(document.activeElement as HTMLElement);
+    const next = backwards
+      ? current <= 0 ? focusables.length - 1 : current - 1
+      : (current + 1) % focusables.length;
+    focusables[next]!.focus();
+  }
+
+  // Dispatch keydown/keypress/keyup on the focused element, and do what the
+  // browser would have done for untrusted events it ignores
+  function pressKey(combo: string): void {
+    const { key, code, ...modifiers } = parseKey(combo);
+    const keyTarget = (document.activeElement as HTMLElement | null) ?? document.body;
+    const init: KeyboardEventInit = { key, code, bubbles: true, cancelable: true, composed: true, ...modifiers };
+    const notPrevented = keyTarget.dispatchEvent(new KeyboardEvent("keydown", init));
+    const printable = key.length === 1 && !modifiers.ctrlKey && !modifiers.metaKey;
+    if (notPrevented && (printable || key === "Enter")) {
+      keyTarget.dispatchEvent(new KeyboardEvent("keypress", init));
+    }
+
+    if (notPrevented) {
+      const editable = isTextField(keyTarget);
+      if (printable && editable) {
+        insertText(key);
+      } else if ((modifiers.ctrlKey || modifiers.metaKey) && key.toLowerCase() === "a" && editable) {
+        selectAll();
+      } else if (key === "Backspace" && editable) {
+        document.execCommand("delete");
+      } else if (key === "Delete" && editable) {
+        document.execCommand("forwardDelete");
+      } else if (key === "Tab") {
+        moveFocus(modifiers.shiftKey);
+      } else if (key === "Enter") {
+        if (keyTarget instanceof HTMLTextAreaElement || (editable && !(keyTarget instanceof HTMLInputElement))) {
+          insertText("\n");
+        } else if (keyTarget instanceof HTMLInputElement && keyTarget.form) {
+          keyTarget.form.requestSubmit();
+        } else if (keyTarget.matches("a[href], button, summary, [role='button'], [role='link']")) {
+          keyTarget.click();
+        }
+      } else if (key === " " && keyTarget.matches("button, summary, input[type='checkbox'], input[type='radio'], [role='button']")) {
+        keyTarget.click();
+      }
+    }
+
+    keyTarget.dispatchEvent(new KeyboardEvent("keyup", init));
+  }
+
+  switch (request.action) {
+    case "hover":
+      hover();
+      return { target: description };
+
+    case "click":
+      hover();
+      click(1);
+      if (request.doubleClick) {
+        click(2);
+        mouse("dblclick", false, 2);
+      }
+      if (buttonIndex === 2) {
+        mouse("contextmenu", false);
+      }
+      return { target: description };
+
+    case "type": {
+      if (!isTextField(el)) {
+        return fail(`Element is not a text field: ${description}`);
+      }
+      hover();
+      click(1);
+      el.focus({ preventScroll: true });
+      if (request.clear !== false) {
+        selectAll();
+        if (request.text === "") document.execCommand("delete");
+      } else if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+        // Append at the end, not wherever the click left the caret
+        try {
+          el.setSelectionRange(el.value.length, el.value.length);
+        } catch {
+          // Some input types (email, number) have no selection
+        }
+      }
+      for (const char of request.text ?? "") {
+        const init: KeyboardEventInit = { key: char, bubbles: true, cancelable: true, composed: true };
+        if (!el.dispatchEvent(new KeyboardEvent("keydown", init))) continue;
+        el.dispatchEvent(new KeyboardEvent("keypress", init));
+        insertText(char);
+        el.dispatchEvent(new KeyboardEvent("keyup", init));
+      }
+      // Real typing fires change once the field loses focus; fire it now so forms see the value
+      if (!el.isContentEditable) {
+        el.dispatchEvent(new Event("change", { bubbles: true }));
+      }
+      if (request.submit) {
+        pressKey("Enter");
+      }
+      return { target: description };
+    }
+
+    case "select_option": {
+      if (!(el instanceof HTMLSelectElement)) {
+        return fail(`Element is not a <select>, click its options instead: ${description}`);
+      }
+      const options = Array.from(el.options);
+      const wanted = request.values ?? [];
+      const matches = wanted.map((value) =>
+        options.find((option) => option.value === value) ??
+        options.find((option) => normalize(option.label) === normalize(value)),
+      );
+      const missing = wanted.filter((_, index) => !matches[index]);
+      if (missing.length > 0) {
+        const available = options.slice(0, 20).map((option) => JSON.stringify(normalize(option.label))).join(", ");
+        return fail(`No option matches ${missing.map((value) => JSON.stringify(value)).join(", ")}. Options: ${available}`);
+      }
+      if (!el.multiple && matches.length > 1) {
+        return fail(`Only one option can be selected: ${description}`);
+      }
+      hover();
+      el.focus({ preventScroll: true });
+      for (const option of options) {
+        option.selected = matches.includes(option);
+      }
+      el.dispatchEvent(new Event("input", { bubbles: true, composed: true }));
+      el.dispatchEvent(new Event("change", { bubbles: true }));
+      return {
+        target: description,
+        detail: `Selected ${matches.map((option) => JSON.stringify(normalize(option!.label))).join(", ")}`,
+      };
+    }
+
+    case "press_key":
+      if (request.ref || request.selector) {
+        el.focus({ preventScroll: true });
+      }
+      pressKey(request.key ?? "");
+      return { target: describe(document.activeElement ?? document.body) };
+  }
+}
+
+// This function is serialized and executed in the page context (ISOLATED world)
+// Resolves once the DOM has had no mutations for quietMs, or after maxMs
+function waitForDomToSettle(quietMs: number, maxMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    let quietTimer = setTimeout(finish, quietMs);
+    const maxTimer = setTimeout(finish, maxMs);
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(finish, quietMs);
+    });
+    observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+
+    function finish() {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(maxTimer);
+      resolve();
+    }
+  });
+}
+
+type WaitConditions = Pick<BrowserToolParams, "selector" | "text" | "url" | "gone" | "networkIdle" | "timeout">;
+
+// This function is serialized and executed in the page context (ISOLATED world)
+// Re-checks the conditions whenever the DOM changes (MutationObserver), and on
+// a short interval for the URL and network, until all hold or time runs out.
+// Resolves with the conditions still pending, empty when satisfied
+function waitForConditions(
+  conditions: WaitConditions,
+  timeoutMs: number,
+  networkIdleMs: number,
+): Promise<{ pending: string[]; error?: string }> {
+  const POLL_INTERVAL_MS = 100;
+  const CHECK_THROTTLE_MS = 50;
+
+  let urlPattern: RegExp | null = null;
+  if (conditions.url) {
+    const pattern = conditions.url;
+    try {
+      // "/regex/" or a glob where * matches anything
+      urlPattern =
+        pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")
+          ? new RegExp(pattern.slice(1, -1))
+          : new RegExp(`^${pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+    } catch (error) {
+      return Promise.resolve({ pending: [], error: `Invalid URL pattern: ${(error as Error).message}` });
+    }
+  }
+
+  // Network activity seen from inside the page: when the last request finished
+  const lastEntry = performance.getEntriesByType("resource").at(-1) as PerformanceResourceTiming | undefined;
+  let lastNetworkActivity = Math.max(lastEntry?.responseEnd ?? 0, performance.now());
+  const resourceObserver = new PerformanceObserver(() => {
+    lastNetworkActivity = performance.now();
+  });
+  resourceObserver.observe({ type: "resource" });
+
+  function isVisible(el: Element): boolean {
+    if (el.getClientRects().length === 0) return false;
+    return window.getComputedStyle(el).visibility !== "hidden";
+  }
+
+  function getPending(): string[] {
+    const pending: string[] = [];
+    if (conditions.selector) {
+      const el = document.querySelector(conditions.selector);
+      const present = el !== null && isVisible(el);
+      if (present === !!conditions.gone) {
+        pending.push(`selector ${conditions.selector} to ${conditions.gone ? "disappear" : "appear"}`);
+      }
+    }
+    if (conditions.text !== undefined) {
+      const present = (document.body?.innerText ?? "").includes(conditions.text);
+      if (present === !!conditions.gone) {
+        pending.push(`text ${JSON.stringify(conditions.text)} to ${conditions.gone ? "disappear" : "appear"}`);
+      }
+    }
+    if (urlPattern && !urlPattern.test(location.href)) {
+      pending.push(`URL to match ${conditions.url} (now ${location.href})`);
+    }
+    if (conditions.networkIdle) {
+      const idle = document.readyState === "complete" && performance.now() - lastNetworkActivity >= networkIdleMs;
+      if (!idle) pending.push("network to be idle");
+    }
+    return pending;
+  }
+
+  // Selectors can be invalid; report that rather than time out on it
+  if (conditions.selector) {
+    try {
+      document.querySelector(conditions.selector);
+    } catch {
+      resourceObserver.disconnect();
+      return Promise.resolve({ pending: [], error: `Invalid selector: ${conditions.selector}` });
+    }
+  }
+
+  return new Promise((resolve) => {
+    let lastCheck = 0;
+    let throttleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (pending: string[]) => {
+      observer.disconnect();
+      resourceObserver.disconnect();
+      clearInterval(pollTimer);
+      clearTimeout(throttleTimer);
+      clearTimeout(deadlineTimer);
+      resolve({ pending });
+    };
+    const check = () => {
+      lastCheck = performance.now();
+      if (getPending().length === 0) finish([]);
+    };
+    // innerText is costly on big pages, so bursts of mutations share one check
+    const scheduleCheck = () => {
+      if (throttleTimer !== undefined) return;
+      const wait = Math.max(0, lastCheck + CHECK_THROTTLE_MS - performance.now());
+      throttleTimer = setTimeout(() => {
+        throttleTimer = undefined;
+        check();
+      }, wait);
+    };
+
+    const observer = new MutationObserver(scheduleCheck);
+    observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+    const pollTimer = setInterval(check, POLL_INTERVAL_MS);
+    const deadlineTimer = setTimeout(() => finish(getPending()), timeoutMs);
+    check();
+  });
+}
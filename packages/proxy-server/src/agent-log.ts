@@ -0,0 +1,99 @@
+/**
+ * Agent console: the agent's stderr and proxy log lines for one client
+ *
+ * Agent stderr used to go only to the proxy's terminal, which is out of
+ * reach when the UI runs on a phone. Lines are kept in a ring buffer so a
+ * client that reattaches (or opens the console late) still sees what
+ * happened, e.g. the stack trace of an agent that just crashed.
+ */
+
+import { StringDecoder } from "node:string_decoder";
+
+// Lines retained per client
+const AGENT_LOG_BUFFER_SIZE = 1000;
+
+// Longer lines are cut so one runaway line can't flood the client
+const MAX_LINE_LENGTH = 4000;
+
+export type AgentLogSource = "stderr" | "proxy";
+export type AgentLogLevel = "info" | "warn" | "error";
+
+export interface AgentLogEntry {
+  // Increasing per client, so a reattaching client can skip lines it already has
+  id: number;
+  time: string;
+  source: AgentLogSource;
+  level: AgentLogLevel;
+  text: string;
+}
+
+/**
+ * Ring buffer of console lines for one client state.
+ * `onEntries` is called with each batch of new lines as they arrive.
+ */
+export class AgentLogBuffer {
+  private entries: AgentLogEntry[] = [];
+  private nextId = 1;
+  private decoder = new StringDecoder("utf8");
+  // Trailing stderr text without a newline yet
+  private partialLine = "";
+
+  constructor(private onEntries: (entries: AgentLogEntry[]) => void) {}
+
+  /**
+   * Add a chunk of agent stderr. Complete lines become entries;
+   * the remainder waits for the next chunk or flushStderr().
+   */
+  appendStderr(chunk: Buffer): void {
+    const text = this.partialLine + this.decoder.write(chunk);
+    const lines = text.split(/\r?\n/);
+    this.partialLine = lines.pop() ?? "";
+    // Don't hold on to an endless line (e.g. a progress bar without newlines)
+    if (this.partialLine.length > MAX_LINE_LENGTH) {
+      lines.push(this.partialLine);
+      this.partialLine = "";
+    }
+    this.add(lines.map((line) => this.createEntry("stderr", "info", line)));
+  }
+
+  /**
+   * Emit any unterminated stderr line (the agent exited) and start fresh
+   * for the next agent process.
+   */
+  flushStderr(): void {
+    const rest = this.partialLine + this.decoder.end();
+    this.partialLine = "";
+    this.decoder = new StringDecoder("utf8");
+    if (rest) {
+      this.add([this.createEntry("stderr", "info", rest)]);
+    }
+  }
+
+  // Add a proxy message about this client's agent (or a forwarded log line)
+  appendProxyLog(level: AgentLogLevel, text: string): void {
+    this.add([this.createEntry("proxy", level, text)]);
+  }
+
+  getEntries(): AgentLogEntry[] {
+    return this.entries;
+  }
+
+  private createEntry(source: AgentLogSource, level: AgentLogLevel, text: string): AgentLogEntry {
+    return {
+      id: this.nextId++,
+      time: new Date().toISOString(),
+      source,
+      level,
+      text: text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}…` : text,
+    };
+  }
+
+  private add(entries: AgentLogEntry[]): void {
+    if (entries.length === 0) return;
+    this.entries.push(...entries);
+    if (this.entries.length > AGENT_LOG_BUFFER_SIZE) {
+      this.entries.splice(0, this.entries.length - AGENT_LOG_BUFFER_SIZE);
+    }
+    this.onEntries(entries);
+  }
+}
@@ -1,5 +1,98 @@
 import { buildCommand, numberParser } from "@stricli/core";
 import type { LocalContext } from "./context.js";
+import type { AgentProfile, ProxyConfigFile } from "../config.js";
+
+// Defaults for options not set on the CLI, in the environment or in a config file
+const DEFAULT_PORT = 9315;
+const DEFAULT_HOST = "localhost";
+const DEFAULT_RECONNECT_GRACE_SECONDS = 60;
+
+interface CliFlags {
+  port?: number;
+  host?: string;
+  debug?: boolean;
+  "no-auth"?: boolean;
+  termux?: boolean;
+  https?: boolean;
+  "public-url"?: string;
+  config?: string;
+  agent?: string;
+  "reconnect-grace"?: number;
+  "auto-restart"?: boolean;
+  "no-history-index"?: boolean;
+}
+
+// Options after applying precedence: CLI > env > config file > defaults
+interface ResolvedOptions {
+  port: number;
+  host: string;
+  debug: boolean;
+  auth: boolean;
+  token?: string;
+  termux: boolean;
+  https: boolean;
+  publicUrl?: string;
+  reconnectGrace: number;
+  autoRestart: boolean;
+  historyIndex: boolean;
+  agents: AgentProfile[];
+  defaultAgent: string;
+}
+
+function envPort(): number | undefined {
+  const value = process.env.ACP_PROXY_PORT;
+  if (!value) return undefined;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port <= 0 || port >= 65536) {
+    throw new Error(`ACP_PROXY_PORT must be a port number (1-65535), got "${value}"`);
+  }
+  return port;
+}
+
+function resolveOptions(
+  flags: CliFlags,
+  args: readonly string[],
+  file: ProxyConfigFile,
+  agentsFromFile: AgentProfile[],
+): ResolvedOptions {
+  const [command, ...agentArgs] = args;
+
+  // A command on the CLI adds (or overrides) the "default" profile and becomes the default agent
+  const agents = [...agentsFromFile];
+  if (command) {
+    const cliProfile = { name: "default", command, args: [...agentArgs], env: {} };
+    const existing = agents.findIndex((profile) => profile.name === "default");
+    if (existing >= 0) {
+      agents[existing] = cliProfile;
+    } else {
+      agents.unshift(cliProfile);
+    }
+  }
+  if (agents.length === 0) {
+    throw new Error("No agent to run: pass an agent command or define agents in acp-proxy.config.json");
+  }
+
+  const defaultAgent = flags.agent ?? (command ? "default" : file.defaultAgent) ?? agents[0]!.name;
+  if (!agents.some((profile) => profile.name === defaultAgent)) {
+    throw new Error(`Unknown agent profile: ${defaultAgent}`);
+  }
+
+  return {
+    port: flags.port ?? envPort() ?? file.port ?? DEFAULT_PORT,
+    host: flags.host ?? process.env.ACP_PROXY_HOST ?? file.host ?? DEFAULT_HOST,
+    debug: flags.debug ?? file.debug ?? false,
+    auth: !(flags["no-auth"] ?? file.auth === false),
+    token: process.env.ACP_AUTH_TOKEN || file.token,
+    termux: flags.termux ?? file.termux ?? false,
+    https: flags.https ?? file.https ?? false,
+    publicUrl: flags["public-url"] ?? process.env.ACP_PROXY_PUBLIC_URL ?? file.publicUrl,
+    reconnectGrace: flags["reconnect-grace"] ?? file.reconnectGrace ?? DEFAULT_RECONNECT_GRACE_SECONDS,
+    autoRestart: flags["auto-restart"] ?? file.autoRestart ?? false,
+    historyIndex: !(flags["no-history-index"] ?? file.historyIndex === false),
+    agents,
+    defaultAgent,
+  };
+}
 
 export const command = buildCommand({
   docs: {
@@ -9,41 +102,46 @@ export const command = buildCommand({
       "The agent command is spawned as a subprocess and communicates via stdin/stdout.\n\n" +
       "Use -- to pass arguments to the agent:\n" +
       "  acp-proxy /path/to/agent -- --verbose --model gpt-4\n\n" +
-      "For remote access, set ACP_AUTH_TOKEN environment variable or let it auto-generate.",
+      "To switch between several agents, define named profiles in acp-proxy.config.json " +
+      "and omit the command; the client picks a profile when it connects.\n\n" +
+      "Options can also be set in acp-proxy.config.json or ~/.config/acp-proxy/config.json " +
+      "(CLI flags override environment variables, which override config files).\n\n" +
+      "For remote access, set ACP_AUTH_TOKEN environment variable or let it auto-generate " +
+      "(the generated token is saved to the user config so links keep working).",
   },
   parameters: {
     flags: {
       port: {
         kind: "parsed",
         parse: numberParser,
-        brief: "Port to listen on",
-        default: "9315",
+        brief: "Port to listen on (default: 9315)",
+        optional: true,
       },
       host: {
         kind: "parsed",
         parse: String,
-        brief: "Host to bind to (use 0.0.0.0 for remote access)",
-        default: "localhost",
+        brief: "Host to bind to (use 0.0.0.0 for remote access, default: localhost)",
+        optional: true,
       },
       debug: {
         kind: "boolean",
         brief: "Enable debug logging to file",
-        default: false,
+        optional: true,
       },
       "no-auth": {
         kind: "boolean",
         brief: "DANGEROUS: Disable authentication (not recommended)",
-        default: false,
+        optional: true,
       },
       termux: {
         kind: "boolean",
         brief: "Auto-launch PWA via Termux (finds and opens the ACP WebAPK)",
-        default: false,
+        optional: true,
       },
       https: {
         kind: "boolean",
         brief: "Enable HTTPS with auto-generated self-signed certificate (required for camera on mobile)",
-        default: false,
+        optional: true,
       },
       "public-url": {
         kind: "parsed",
@@ -51,6 +149,34 @@ export const command = buildCommand({
         brief: "Public WebSocket URL for QR code (e.g., wss://example.com/ws)",
         optional: true,
       },
+      config: {
+        kind: "parsed",
+        parse: String,
+        brief: "Path to the project config file (default: ./acp-proxy.config.json)",
+        optional: true,
+      },
+      agent: {
+        kind: "parsed",
+        parse: String,
+        brief: "Agent profile used when the client doesn't pick one",
+        optional: true,
+      },
+      "reconnect-grace": {
+        kind: "parsed",
+        parse: numberParser,
+        brief: "Seconds to keep the agent running after the client drops, so it can reattach (0 to disable, default: 60)",
+        optional: true,
+      },
+      "auto-restart": {
+        kind: "boolean",
+        brief: "Restart the agent with backoff if it crashes, and re-open its session",
+        optional: true,
+      },
+      "no-history-index": {
+        kind: "boolean",
+        brief: "Don't save relayed transcripts to ~/.local/share/acp-proxy for thread history search",
+        optional: true,
+      },
     },
     positional: {
       kind: "array",
@@ -59,45 +185,85 @@ export const command = buildCommand({
         parse: String,
         placeholder: "command",
       },
-      minimum: 1,
+      minimum: 0,
     },
   },
   func: async function (
     this: LocalContext,
-    flags: { port: number; host: string; debug: boolean; "no-auth": boolean; termux: boolean; https: boolean; "public-url"?: string },
+    flags: CliFlags,
     ...args: readonly string[]
   ) {
-    const port = flags.port;
-    const host = flags.host;
-    const debug = flags.debug;
-    const noAuth = flags["no-auth"];
-    const termux = flags.termux;
-    const https = flags.https;
-    const publicUrl = flags["public-url"];
-    const [command, ...agentArgs] = args;
     const cwd = process.cwd();
 
+    const { loadConfig, getAgentProfiles, saveUserToken, watchConfig, LIVE_RELOAD_FIELDS } = await import("../config.js");
+    const loaded = loadConfig(flags.config);
+    const options = resolveOptions(flags, args, loaded.config, getAgentProfiles(loaded.config));
+    const { port, host, debug, termux, https, publicUrl, reconnectGrace, autoRestart, historyIndex, agents, defaultAgent } = options;
+
     // Determine auth token
-    // Priority: ACP_AUTH_TOKEN env var > auto-generate (unless --no-auth)
+    // Priority: ACP_AUTH_TOKEN env var > config file > auto-generate and save (unless auth is off)
     let token: string | undefined;
-    if (noAuth) {
+    if (!options.auth) {
       console.warn("⚠️  WARNING: Authentication disabled. This is dangerous for remote access!");
       token = undefined;
     } else {
-      token = process.env.ACP_AUTH_TOKEN;
+      token = options.token;
       if (!token) {
-        // Auto-generate random token
+        // Auto-generate random token and persist it so saved links and QR codes keep working
         const { randomBytes } = await import("node:crypto");
         token = randomBytes(32).toString("hex");
+        try {
+          const path = saveUserToken(token);
+          console.log(`🔑 Saved new auth token to ${path}`);
+        } catch (error) {
+          console.warn(`⚠️  Could not save auth token: ${(error as Error).message}`);
+        }
       }
     }
 
     // Initialize logger
-    const { initLogger } = await import("../logger.js");
+    const { initLogger, log } = await import("../logger.js");
     initLogger({ debug });
 
     // Import and run the server
-    const { startServer } = await import("../server.js");
-    await startServer({ port, host, command: command!, args: [...agentArgs], cwd, debug, token, termux, https, publicUrl });
+    const { startServer, updateServerConfig } = await import("../server.js");
+
+    // Live reload: apply safe fields right away, report the rest as needing a restart
+    if (loaded.paths.length > 0) {
+      let current = options;
+      watchConfig(
+        loaded,
+        flags.config,
+        (reloaded) => {
+          let next: ResolvedOptions;
+          try {
+            next = resolveOptions(flags, args, reloaded.config, getAgentProfiles(reloaded.config));
+          } catch (error) {
+            log.error("Config reload rejected", { error: (error as Error).message });
+            return;
+          }
+
+          const restartFields = (["port", "host", "https", "publicUrl", "auth", "token", "termux", "debug", "historyIndex"] as const)
+            .filter((field) => JSON.stringify(next[field]) !== JSON.stringify(current[field]));
+          if (restartFields.length > 0) {
+            log.warn("Config changes need a restart to take effect", { fields: restartFields });
+          }
+
+          updateServerConfig({
+            agents: next.agents,
+            defaultAgent: next.defaultAgent,
+            reconnectGrace: next.reconnectGrace,
+            autoRestart: next.autoRestart,
+          });
+          log.info("Config reloaded", { paths: reloaded.paths, applied: LIVE_RELOAD_FIELDS });
+          current = next;
+        },
+        (error) => {
+          log.error("Config reload failed, keeping previous config", { error: error.message });
+        },
+      );
+    }
+
+    await startServer({ port, host, agents, defaultAgent, cwd, debug, token, termux, https, publicUrl, reconnectGrace, autoRestart, historyIndex });
   },
 });
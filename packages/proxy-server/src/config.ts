@@ -0,0 +1,330 @@
+/**
+ * Proxy config file
+ *
+ * Options are read from two layers, the later overriding the earlier:
+ *   1. User config: $XDG_CONFIG_HOME/acp-proxy/config.json (~/.config/acp-proxy/config.json)
+ *   2. Project config: ./acp-proxy.config.json, or the file passed with --config
+ * CLI flags and environment variables override both (CLI > env > file).
+ *
+ *   {
+ *     "port": 9315,
+ *     "host": "0.0.0.0",
+ *     "https": true,
+ *     "defaultAgent": "claude",
+ *     "agents": {
+ *       "claude": { "command": "claude-code-acp" },
+ *       "gemini": { "command": "gemini", "args": ["--experimental-acp"] },
+ *       "opencode": { "command": "opencode", "args": ["acp"], "cwd": "~/work", "env": { "DEBUG": "1" } }
+ *     }
+ *   }
+ */
+
+import { existsSync, mkdirSync, readFileSync, unwatchFile, watchFile, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+
+export const CONFIG_FILE_NAME = "acp-proxy.config.json";
+
+// A named agent the proxy can spawn
+export interface AgentProfile {
+  name: string;
+  command: string;
+  args: string[];
+  // Extra environment variables, merged over the proxy's own environment
+  env: Record<string, string>;
+  // Working directory for the agent (defaults to the proxy's cwd)
+  cwd?: string;
+}
+
+// Raw agent entry as written in the config file
+interface AgentProfileEntry {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export interface ProxyConfigFile {
+  port?: number;
+  host?: string;
+  https?: boolean;
+  publicUrl?: string;
+  // false is the same as --no-auth
+  auth?: boolean;
+  // Stable auth token, so saved QR codes and links keep working across restarts
+  token?: string;
+  termux?: boolean;
+  debug?: boolean;
+  // Seconds to keep a dropped client's agent alive
+  reconnectGrace?: number;
+  // Restart the agent when it crashes and re-open its session
+  autoRestart?: boolean;
+  // false is the same as --no-history-index
+  historyIndex?: boolean;
+  defaultAgent?: string;
+  agents?: Record<string, AgentProfileEntry>;
+}
+
+export interface LoadedConfig {
+  // Files that were read, lowest precedence first
+  paths: string[];
+  // Merged options; agent cwds are already resolved against their own file
+  config: ProxyConfigFile;
+}
+
+// Options applied to a running server when the config file changes.
+// Everything else (port, host, https, token, ...) needs a restart.
+export const LIVE_RELOAD_FIELDS = ["agents", "defaultAgent", "reconnectGrace", "autoRestart"] as const;
+
+/**
+ * Error for an unreadable or invalid config file.
+ * The message names the file and the offending field.
+ */
+export class ConfigError extends Error {
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "ConfigError";
+  }
+}
+
+// ============ Schema ============
+
+// Returns an error message, or null when the value is valid
+type FieldCheck = (value: unknown, field: string) => string | null;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const checkString: FieldCheck = (value, field) =>
+  typeof value === "string" ? null : `"${field}" must be a string`;
+
+const checkNonEmptyString: FieldCheck = (value, field) =>
+  typeof value === "string" && value !== "" ? null : `"${field}" must be a non-empty string`;
+
+const checkBoolean: FieldCheck = (value, field) =>
+  typeof value === "boolean" ? null : `"${field}" must be true or false`;
+
+const checkPort: FieldCheck = (value, field) =>
+  Number.isInteger(value) && (value as number) > 0 && (value as number) < 65536
+    ? null
+    : `"${field}" must be a port number (1-65535)`;
+
+const checkSeconds: FieldCheck = (value, field) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? null
+    : `"${field}" must be a number of seconds (0 or more)`;
+
+const checkStringArray: FieldCheck = (value, field) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+    ? null
+    : `"${field}" must be an array of strings`;
+
+const checkStringRecord: FieldCheck = (value, field) =>
+  isObject(value) && Object.values(value).every((item) => typeof item === "string")
+    ? null
+    : `"${field}" must be an object of strings`;
+
+// Check an object against a field table, rejecting unknown keys (usually typos)
+function checkObject(
+  value: unknown,
+  field: string,
+  fields: Record<string, FieldCheck>,
+  required: string[] = [],
+): string | null {
+  if (!isObject(value)) {
+    return `"${field}" must be an object`;
+  }
+  const prefix = field ? `${field}.` : "";
+  for (const key of required) {
+    if (value[key] === undefined) {
+      return `"${prefix}${key}" is required`;
+    }
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const check = fields[key];
+    if (!check) {
+      return `unknown option "${prefix}${key}"`;
+    }
+    const error = check(item, `${prefix}${key}`);
+    if (error) return error;
+  }
+  return null;
+}
+
+const AGENT_PROFILE_SCHEMA: Record<keyof AgentProfileEntry, FieldCheck> = {
+  command: checkNonEmptyString,
+  args: checkStringArray,
+  env: checkStringRecord,
+  cwd: checkString,
+};
+
+const checkAgents: FieldCheck = (value, field) => {
+  if (!isObject(value)) {
+    return `"${field}" must be an object of named profiles`;
+  }
+  for (const [name, entry] of Object.entries(value)) {
+    const error = checkObject(entry, `${field}.${name}`, AGENT_PROFILE_SCHEMA, ["command"]);
+    if (error) return error;
+  }
+  return null;
+};
+
+const CONFIG_SCHEMA: Record<keyof ProxyConfigFile, FieldCheck> = {
+  port: checkPort,
+  host: checkNonEmptyString,
+  https: checkBoolean,
+  publicUrl: checkNonEmptyString,
+  auth: checkBoolean,
+  token: checkNonEmptyString,
+  termux: checkBoolean,
+  debug: checkBoolean,
+  reconnectGrace: checkSeconds,
+  autoRestart: checkBoolean,
+  historyIndex: checkBoolean,
+  defaultAgent: checkNonEmptyString,
+  agents: checkAgents,
+};
+
+// Validate a parsed config file; "$schema" is allowed for editor support
+function validateConfig(path: string, raw: unknown): ProxyConfigFile {
+  if (!isObject(raw)) {
+    throw new ConfigError(path, "expected a JSON object");
+  }
+  const config = { ...raw };
+  delete config.$schema;
+  const error = checkObject(config, "", CONFIG_SCHEMA);
+  if (error) {
+    throw new ConfigError(path, error);
+  }
+  return config as ProxyConfigFile;
+}
+
+// ============ Loading ============
+
+/**
+ * Path of the user-level config file (XDG base directory spec).
+ */
+export function getUserConfigPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(base, "acp-proxy", "config.json");
+}
+
+// Expand a leading ~ and resolve relative paths against the config file's directory
+function resolveProfileCwd(cwd: string, baseDir: string): string {
+  if (cwd === "~" || cwd.startsWith("~/")) {
+    return join(homedir(), cwd.slice(1));
+  }
+  return resolve(baseDir, cwd);
+}
+
+function readConfigFile(path: string): ProxyConfigFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new ConfigError(path, `invalid JSON (${(error as Error).message})`);
+  }
+
+  const config = validateConfig(path, raw);
+
+  // Resolve agent cwds now, while we still know which file they came from
+  if (config.agents) {
+    const baseDir = dirname(path);
+    for (const entry of Object.values(config.agents)) {
+      if (entry.cwd) entry.cwd = resolveProfileCwd(entry.cwd, baseDir);
+    }
+  }
+  return config;
+}
+
+/**
+ * Load and merge the user and project config files.
+ * `explicitPath` (from --config) replaces the ./acp-proxy.config.json lookup and must exist.
+ */
+export function loadConfig(explicitPath?: string): LoadedConfig {
+  const userPath = getUserConfigPath();
+  const projectPath = explicitPath ? resolve(explicitPath) : join(process.cwd(), CONFIG_FILE_NAME);
+
+  if (explicitPath && !existsSync(projectPath)) {
+    throw new ConfigError(projectPath, "config file not found");
+  }
+
+  const paths: string[] = [];
+  let config: ProxyConfigFile = {};
+  for (const path of [userPath, projectPath]) {
+    if (!existsSync(path) || paths.includes(path)) continue;
+    const layer = readConfigFile(path);
+    config = {
+      ...config,
+      ...layer,
+      // Profiles merge by name, so a project can add agents to the user's set
+      agents: layer.agents || config.agents ? { ...config.agents, ...layer.agents } : undefined,
+    };
+    paths.push(path);
+  }
+
+  return { paths, config };
+}
+
+/**
+ * Build agent profiles from the merged config.
+ */
+export function getAgentProfiles(config: ProxyConfigFile): AgentProfile[] {
+  return Object.entries(config.agents ?? {}).map(([name, entry]) => ({
+    name,
+    command: entry.command,
+    args: entry.args ?? [],
+    env: entry.env ?? {},
+    cwd: entry.cwd,
+  }));
+}
+
+/**
+ * Save the auth token to the user config so it survives restarts.
+ * Other options in the file are kept as they are.
+ */
+export function saveUserToken(token: string): string {
+  const path = getUserConfigPath();
+  let existing: Record<string, unknown> = {};
+  if (existsSync(path)) {
+    const raw = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+    if (isObject(raw)) existing = raw;
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  // The token grants full agent access, so keep the file private
+  writeFileSync(path, `${JSON.stringify({ ...existing, token }, null, 2)}\n`, { mode: 0o600 });
+  return path;
+}
+
+/**
+ * Reload the config whenever one of its files changes.
+ * Invalid edits are reported through `onError` and the previous config stays in effect.
+ * Returns a function that stops watching.
+ */
+export function watchConfig(
+  loaded: LoadedConfig,
+  explicitPath: string | undefined,
+  onChange: (loaded: LoadedConfig) => void,
+  onError: (error: Error) => void,
+): () => void {
+  // Polling survives editors that save by replacing the file
+  const listener = (current: { mtimeMs: number }, previous: { mtimeMs: number }) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    try {
+      onChange(loadConfig(explicitPath));
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  for (const path of loaded.paths) {
+    watchFile(path, { interval: 1000 }, listener);
+  }
+  return () => {
+    for (const path of loaded.paths) {
+      unwatchFile(path, listener);
+    }
+  };
+}
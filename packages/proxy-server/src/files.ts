@@ -11,8 +11,17 @@
  * - Handles tens of thousands of files without exhausting inotify limits
  */
 
-import { readdirSync, readFileSync, statSync } from "node:fs";
-import { resolve, relative, sep, basename, extname } from "node:path";
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { resolve, relative, sep, basename, dirname, extname, join } from "node:path";
+import { pathToFileURL } from "node:url";
 import * as watcher from "@parcel/watcher";
 import { log } from "./logger.js";
 
@@ -93,6 +102,13 @@ export interface FileContent {
   mimeType?: string;
 }
 
+// A file matching an @-mention search
+export interface FileSearchResult {
+  name: string;
+  path: string; // relative path
+  uri: string; // file:// URI of the absolute path, as ACP resource links expect
+}
+
 /**
  * File change event from @parcel/watcher
  * Event types:
@@ -235,6 +251,183 @@ export function readFile(root: string, filePath: string): FileContent | null {
   }
 }
 
+// ============ File Search (@-mentions) ============
+
+// Stop walking huge trees; mentions are for files the user can name
+const MAX_SEARCH_FILES = 20_000;
+const DEFAULT_SEARCH_LIMIT = 50;
+// Reuse a walk while the user keeps typing
+const FILE_LIST_TTL_MS = 5_000;
+
+const fileListCache = new Map<string, { files: string[]; time: number }>();
+
+// All file paths under root (relative), skipping the same names as listDir()
+function listAllFiles(root: string): string[] {
+  const cached = fileListCache.get(root);
+  if (cached && Date.now() - cached.time < FILE_LIST_TTL_MS) {
+    return cached.files;
+  }
+
+  const files: string[] = [];
+  const pending = [root];
+  while (pending.length > 0 && files.length < MAX_SEARCH_FILES) {
+    const dir = pending.pop()!;
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      if (IGNORED_NAMES.has(entry.name)) continue;
+      if (IGNORED_EXTENSIONS.has(extname(entry.name).toLowerCase())) continue;
+
+      const entryPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+      } else if (entry.isFile()) {
+        files.push(relative(root, entryPath));
+      }
+    }
+  }
+
+  fileListCache.set(root, { files, time: Date.now() });
+  return files;
+}
+
+/**
+ * Score a path against a fuzzy query (query characters in order, not necessarily adjacent).
+ * Returns null when the path doesn't match. Higher is better: the query appearing as-is
+ * (best in the file name), consecutive characters, matches at word starts and matches
+ * in the file name count extra; shorter paths win ties.
+ */
+function fuzzyScore(path: string, query: string): number | null {
+  const lowerPath = path.toLowerCase();
+  const nameStart = lowerPath.lastIndexOf(sep) + 1;
+  let score = 0;
+  let pathIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of query) {
+    const index = lowerPath.indexOf(char, pathIndex);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previousMatch + 1) score += 3;
+    const before = lowerPath[index - 1];
+    if (index === 0 || before === sep || before === "-" || before === "_" || before === ".") score += 2;
+    if (index >= nameStart) score += 1;
+
+    previousMatch = index;
+    pathIndex = index + 1;
+  }
+
+  const name = lowerPath.slice(nameStart);
+  if (name.startsWith(query)) score += 20;
+  else if (name.includes(query)) score += 12;
+  else if (lowerPath.includes(query)) score += 6;
+
+  return score - path.length * 0.01;
+}
+
+/**
+ * Fuzzy-search file paths under root for @-mentions.
+ * An empty query returns the first files found.
+ */
+export function searchFiles(root: string, query: string, limit = DEFAULT_SEARCH_LIMIT): FileSearchResult[] {
+  const normalized = query.trim().toLowerCase().replace(/[\\/]/g, sep);
+  const matches: Array<{ path: string; score: number }> = [];
+
+  for (const path of listAllFiles(root)) {
+    const score = normalized ? fuzzyScore(path, normalized) : 0;
+    if (score !== null) matches.push({ path, score });
+  }
+
+  matches.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  return matches.slice(0, limit).map(({ path }) => ({
+    name: basename(path),
+    path,
+    uri: pathToFileURL(resolve(root, path)).href,
+  }));
+}
+
+// ============ Agent File System (ACP fs/*) ============
+
+/**
+ * Read a text file on behalf of the agent (ACP fs/read_text_file).
+ * `line` is 1-based; `limit` caps the number of lines returned.
+ * Unlike readFile(), content is never truncated - the agent asked for it.
+ * Returns null if the path is outside root or is not a readable file.
+ */
+export function readTextFileRange(
+  root: string,
+  filePath: string,
+  line?: number | null,
+  limit?: number | null,
+): string | null {
+  const fullPath = safePath(root, filePath);
+  if (!fullPath) return null;
+
+  try {
+    if (!statSync(fullPath).isFile()) return null;
+    const content = readFileSync(fullPath, "utf-8");
+    if (line == null && limit == null) return content;
+
+    const lines = content.split("\n");
+    const start = Math.max((line ?? 1) - 1, 0);
+    const end = limit != null ? start + Math.max(limit, 0) : undefined;
+    return lines.slice(start, end).join("\n");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a text file on behalf of the agent (ACP fs/write_text_file).
+ *
+ * The content is written to a hidden temp file next to the target and then
+ * renamed over it, so readers (and the file watcher) never see a partial file.
+ * Missing parent directories are created and an existing file's mode is kept.
+ *
+ * Returns the resulting change (relative to root), or null if the path is
+ * outside root. I/O errors are thrown to the caller.
+ */
+export function writeTextFileAtomic(root: string, filePath: string, content: string): FileChange | null {
+  const fullPath = safePath(root, filePath);
+  if (!fullPath || fullPath === resolve(root)) return null;
+
+  let mode: number | undefined;
+  try {
+    const stats = statSync(fullPath);
+    if (!stats.isFile()) {
+      throw new Error(`Not a file: ${filePath}`);
+    }
+    mode = stats.mode;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  mkdirSync(dirname(fullPath), { recursive: true });
+  const tempPath = join(
+    dirname(fullPath),
+    `.${basename(fullPath)}.${process.pid}-${Date.now().toString(36)}.tmp`,
+  );
+
+  try {
+    writeFileSync(tempPath, content, { encoding: "utf-8", mode });
+    renameSync(tempPath, fullPath);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+
+  return {
+    event: mode === undefined ? "create" : "update",
+    path: relative(root, fullPath),
+  };
+}
+
 function formatSize(bytes: number): string {
   if (bytes < 1024) return `${bytes}B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
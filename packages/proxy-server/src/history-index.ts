@@ -0,0 +1,491 @@
+/**
+ * Thread history search: an on-disk index of the transcripts the proxy relays
+ *
+ * session/list only gives titles, so finding "the conversation where we
+ * fixed the auth bug" meant opening threads one by one. The proxy already
+ * sees every prompt and session_update, so it appends user prompts, agent
+ * messages and tool call titles to one JSONL file per session and ranks
+ * messages across all of them for search_sessions.
+ */
+
+import type * as acp from "@agentclientprotocol/sdk";
+import { appendFile, mkdir, readdir, readFile, unlink, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { log } from "./logger.js";
+
+// Very long messages (pasted logs, big answers) are cut before indexing
+const MAX_MESSAGE_CHARS = 20_000;
+const SNIPPET_CONTEXT_CHARS = 80;
+const DEFAULT_SEARCH_LIMIT = 30;
+// Several hits in one thread shouldn't push every other thread out of the results
+const MAX_RESULTS_PER_SESSION = 3;
+const TITLE_MAX_CHARS = 80;
+// Transcripts are all kept in memory for search; past either limit the least
+// recently updated ones are dropped, from memory and disk
+const MAX_INDEXED_SESSIONS = 1000;
+const MAX_INDEXED_CHARS = 64 * 1024 * 1024;
+
+export type TranscriptMessageKind = "user" | "agent" | "tool";
+
+export interface TranscriptMessage {
+  kind: TranscriptMessageKind;
+  // Index of the user prompt this message belongs to (-1 before the first prompt)
+  turn: number;
+  text: string;
+  toolCallId?: string;
+  time: string;
+}
+
+// One line of a session file: a header written when the file is (re)started, then messages
+type TranscriptRecord = { kind: "session"; agent: string; cwd: string; time: string } | TranscriptMessage;
+
+interface SessionTranscript {
+  // Agent profile that owns the session; other agents can't load it
+  agent: string;
+  cwd: string;
+  messages: TranscriptMessage[];
+  updatedAt: string;
+}
+
+// Recording state for a session the proxy is relaying right now
+interface LiveSession {
+  turn: number;
+  // Chunks are streamed, so consecutive ones are joined into one message
+  pending: { kind: "user" | "agent"; text: string } | null;
+  // The prompt text is recorded from the prompt request, so agent echoes are skipped
+  promptActive: boolean;
+  toolCallIds: Set<string>;
+  // Set while loadSession replays the history. Messages collect here and
+  // replace the transcript only once the load succeeded.
+  replay?: {
+    agent: string;
+    cwd: string;
+    messages: TranscriptMessage[];
+    // Recording state to go back to if the load fails
+    previous?: LiveSession;
+  };
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  agent: string;
+  cwd: string;
+  // First prompt of the thread; clients may prefer the agent's own title
+  title: string;
+  updatedAt: string;
+  kind: TranscriptMessageKind;
+  turn: number;
+  toolCallId?: string;
+  snippet: string;
+  score: number;
+}
+
+/**
+ * Default index location, next to the user config (XDG base directory spec).
+ */
+export function getHistoryIndexDir(): string {
+  const base = process.env.XDG_DATA_HOME || join(homedir(), ".local", "share");
+  return join(base, "acp-proxy", "transcripts");
+}
+
+function fileName(sessionId: string): string {
+  return `${encodeURIComponent(sessionId)}.jsonl`;
+}
+
+function contentText(content: acp.ContentBlock): string {
+  if (content.type === "text") return content.text;
+  if (content.type === "resource_link") return content.name;
+  return "";
+}
+
+function tokenize(query: string): string[] {
+  return query.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+function makeSnippet(text: string, matchIndex: number, matchLength: number): string {
+  const start = Math.max(0, matchIndex - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(text.length, matchIndex + matchLength + SNIPPET_CONTEXT_CHARS);
+  const body = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${body}${end < text.length ? "…" : ""}`;
+}
+
+function messagesChars(messages: TranscriptMessage[]): number {
+  return messages.reduce((sum, message) => sum + message.text.length, 0);
+}
+
+function makeTitle(messages: TranscriptMessage[]): string {
+  const firstPrompt = messages.find((message) => message.kind === "user")?.text.trim();
+  if (!firstPrompt) return "New Thread";
+  const firstLine = firstPrompt.split("\n")[0] ?? firstPrompt;
+  return firstLine.length > TITLE_MAX_CHARS ? `${firstLine.slice(0, TITLE_MAX_CHARS - 1)}…` : firstLine;
+}
+
+/**
+ * Transcript store shared by all clients. Files are read in the background on
+ * first use, and calls made meanwhile wait for that; after that the in-memory
+ * copy is kept in step with every append, and the files are written in the
+ * background, in order per session.
+ * Disk errors are logged and never reach the relayed traffic.
+ */
+export class HistoryIndex {
+  private sessions: Map<string, SessionTranscript> = new Map();
+  private loading: Promise<void> | null = null;
+  private loaded = false;
+  // Sessions recorded right now, until their client leaves them
+  private live: Map<string, LiveSession> = new Map();
+  // Total message text held in memory
+  private indexedChars = 0;
+  // Last queued write per session file
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(private dir: string) {}
+
+  /**
+   * Start recording a new, resumed or forked session. Keeps what is already indexed.
+   * A fork gets a copy of its parent's transcript, since the agent doesn't replay it.
+   */
+  startSession(sessionId: string, agent: string, cwd: string, parentSessionId?: string): void {
+    this.whenLoaded(() => {
+      let transcript = this.sessions.get(sessionId);
+      if (!transcript) {
+        const parent = parentSessionId ? this.sessions.get(parentSessionId) : undefined;
+        transcript = this.createTranscript(sessionId, agent, cwd, parent?.messages ?? []);
+      }
+      const lastTurn = transcript.messages.at(-1)?.turn ?? -1;
+      this.live.set(sessionId, { turn: lastTurn, pending: null, promptActive: false, toolCallIds: new Set() });
+    });
+  }
+
+  /**
+   * Record the history the agent replays while a session loads. It replaces
+   * the indexed transcript on finishReplay(); cancelReplay() keeps the old one.
+   */
+  startReplay(sessionId: string, agent: string, cwd: string): void {
+    this.whenLoaded(() => {
+      this.live.set(sessionId, {
+        turn: -1,
+        pending: null,
+        promptActive: false,
+        toolCallIds: new Set(),
+        replay: { agent, cwd, messages: [], previous: this.live.get(sessionId) },
+      });
+    });
+  }
+
+  // The session loaded: its replay becomes the transcript
+  finishReplay(sessionId: string): void {
+    this.whenLoaded(() => {
+      this.flush(sessionId);
+      const session = this.live.get(sessionId);
+      if (!session?.replay) return;
+      const { agent, cwd, messages } = session.replay;
+      session.replay = undefined;
+      this.createTranscript(sessionId, agent, cwd, messages);
+    });
+  }
+
+  // The load failed: drop what was replayed and record as before
+  cancelReplay(sessionId: string): void {
+    this.whenLoaded(() => {
+      const session = this.live.get(sessionId);
+      if (!session?.replay) return;
+      if (session.replay.previous) {
+        this.live.set(sessionId, session.replay.previous);
+      } else {
+        this.live.delete(sessionId);
+      }
+    });
+  }
+
+  // A prompt sent through the proxy; its text starts a new turn
+  recordPrompt(sessionId: string, content: acp.ContentBlock[]): void {
+    this.whenLoaded(() => {
+      const session = this.live.get(sessionId);
+      if (!session) return;
+      this.flush(sessionId);
+      session.turn++;
+      session.promptActive = true;
+      const text = content.map(contentText).filter(Boolean).join("\n");
+      if (text) this.append(sessionId, { kind: "user", turn: session.turn, text });
+    });
+  }
+
+  endPrompt(sessionId: string): void {
+    this.whenLoaded(() => {
+      const session = this.live.get(sessionId);
+      if (!session) return;
+      this.flush(sessionId);
+      session.promptActive = false;
+    });
+  }
+
+  recordUpdate(sessionId: string, update: acp.SessionUpdate): void {
+    this.whenLoaded(() => {
+      const session = this.live.get(sessionId);
+      if (!session) return;
+
+      switch (update.sessionUpdate) {
+        case "user_message_chunk":
+          // Replayed history; during a live prompt the text came with the request
+          if (!session.promptActive) this.appendChunk(session, sessionId, "user", contentText(update.content));
+          break;
+        case "agent_message_chunk":
+        case "agent_thought_chunk":
+          this.appendChunk(session, sessionId, "agent", contentText(update.content));
+          break;
+        case "tool_call":
+        case "tool_call_update":
+          if (update.title && !session.toolCallIds.has(update.toolCallId)) {
+            session.toolCallIds.add(update.toolCallId);
+            this.flush(sessionId);
+            this.append(sessionId, { kind: "tool", turn: session.turn, text: update.title, toolCallId: update.toolCallId });
+          }
+          break;
+      }
+    });
+  }
+
+  // The session's client left it (switched sessions, disconnected, or its agent exited)
+  endSession(sessionId: string): void {
+    this.whenLoaded(() => {
+      this.flush(sessionId);
+      this.live.delete(sessionId);
+    });
+  }
+
+  // Write out the message being streamed (end of a prompt or of a replay)
+  flush(sessionId: string): void {
+    this.whenLoaded(() => {
+      const session = this.live.get(sessionId);
+      if (!session?.pending) return;
+      const { kind, text } = session.pending;
+      session.pending = null;
+      if (text.trim()) this.append(sessionId, { kind, turn: session.turn, text });
+    });
+  }
+
+  /**
+   * Rank messages containing every query term. Term counts decide the score,
+   * with a bonus for the exact phrase and for the user's own prompts.
+   * Only sessions of the given agent profile are searched.
+   */
+  async search(query: string, agent: string, limit = DEFAULT_SEARCH_LIMIT): Promise<SessionSearchResult[]> {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+    const phrase = query.trim().toLowerCase();
+
+    await this.load();
+    const results: SessionSearchResult[] = [];
+    for (const [sessionId, transcript] of this.sessions) {
+      if (transcript.agent !== agent) continue;
+      const hits: SessionSearchResult[] = [];
+      for (const message of transcript.messages) {
+        const lower = message.text.toLowerCase();
+        if (!terms.every((term) => lower.includes(term))) continue;
+
+        let score = terms.reduce((sum, term) => sum + Math.min(countOccurrences(lower, term), 5), 0);
+        const phraseIndex = lower.indexOf(phrase);
+        if (terms.length > 1 && phraseIndex !== -1) score += 5;
+        if (message.kind === "user") score += 2;
+
+        const matchIndex = phraseIndex !== -1 ? phraseIndex : lower.indexOf(terms[0]!);
+        const matchLength = phraseIndex !== -1 ? phrase.length : terms[0]!.length;
+        hits.push({
+          sessionId,
+          agent: transcript.agent,
+          cwd: transcript.cwd,
+          title: makeTitle(transcript.messages),
+          updatedAt: transcript.updatedAt,
+          kind: message.kind,
+          turn: message.turn,
+          toolCallId: message.toolCallId,
+          snippet: makeSnippet(message.text, matchIndex, matchLength),
+          score,
+        });
+      }
+      hits.sort((a, b) => b.score - a.score);
+      results.push(...hits.slice(0, MAX_RESULTS_PER_SESSION));
+    }
+
+    // Newer threads win ties
+    results.sort((a, b) => b.score - a.score || b.updatedAt.localeCompare(a.updatedAt));
+    return results.slice(0, limit);
+  }
+
+  private appendChunk(session: LiveSession, sessionId: string, kind: "user" | "agent", text: string): void {
+    if (!text) return;
+    if (session.pending?.kind !== kind) {
+      this.flush(sessionId);
+      if (kind === "user") session.turn++;
+      session.pending = { kind, text: "" };
+    }
+    session.pending.text += text;
+  }
+
+  private append(sessionId: string, message: Omit<TranscriptMessage, "time">): void {
+    const record: TranscriptMessage = {
+      ...message,
+      text: message.text.slice(0, MAX_MESSAGE_CHARS),
+      time: new Date().toISOString(),
+    };
+    const replay = this.live.get(sessionId)?.replay;
+    if (replay) {
+      replay.messages.push(record);
+      return;
+    }
+
+    const transcript = this.sessions.get(sessionId);
+    if (!transcript) return;
+    transcript.messages.push(record);
+    transcript.updatedAt = record.time;
+    this.indexedChars += record.text.length;
+    const file = join(this.dir, fileName(sessionId));
+    this.queueWrite(sessionId, () => appendFile(file, `${JSON.stringify(record)}\n`, { mode: 0o600 }));
+    this.prune();
+  }
+
+  private createTranscript(
+    sessionId: string,
+    agent: string,
+    cwd: string,
+    messages: TranscriptMessage[],
+  ): SessionTranscript {
+    const time = new Date().toISOString();
+    const transcript: SessionTranscript = { agent, cwd, messages: [...messages], updatedAt: time };
+    const previous = this.sessions.get(sessionId);
+    if (previous) this.indexedChars -= messagesChars(previous.messages);
+    this.sessions.set(sessionId, transcript);
+    this.indexedChars += messagesChars(messages);
+
+    const records: TranscriptRecord[] = [{ kind: "session", agent, cwd, time }, ...messages];
+    const contents = records.map((record) => `${JSON.stringify(record)}\n`).join("");
+    this.queueWrite(sessionId, async () => {
+      await mkdir(this.dir, { recursive: true, mode: 0o700 });
+      await writeFile(join(this.dir, fileName(sessionId)), contents, { mode: 0o600 });
+    });
+    this.prune();
+    return transcript;
+  }
+
+  /**
+   * Drop the least recently updated transcripts while the index is over its
+   * limits. Sessions in the middle of a prompt or a replay are kept.
+   */
+  private prune(): void {
+    const sessions = this.sessions;
+    if (sessions.size <= MAX_INDEXED_SESSIONS && this.indexedChars <= MAX_INDEXED_CHARS) return;
+
+    const isBusy = (sessionId: string) => {
+      const session = this.live.get(sessionId);
+      return !!session && (session.promptActive || !!session.replay);
+    };
+    const oldestFirst = Array.from(sessions.entries())
+      .filter(([sessionId]) => !isBusy(sessionId))
+      .sort(([, a], [, b]) => a.updatedAt.localeCompare(b.updatedAt));
+    for (const [sessionId, transcript] of oldestFirst) {
+      if (sessions.size <= MAX_INDEXED_SESSIONS && this.indexedChars <= MAX_INDEXED_CHARS) break;
+      sessions.delete(sessionId);
+      this.indexedChars -= messagesChars(transcript.messages);
+      const file = join(this.dir, fileName(sessionId));
+      this.queueWrite(sessionId, () => unlink(file));
+      log.debug("Dropped old thread from history index", { sessionId, updatedAt: transcript.updatedAt });
+    }
+  }
+
+  // Run a write to a session's file after the ones queued before it
+  private queueWrite(sessionId: string, write: () => Promise<void>): void {
+    const next = (this.writes.get(sessionId) ?? Promise.resolve())
+      .then(write)
+      .catch((error: Error) => {
+        log.warn("Failed to write history index", { sessionId, error: error.message });
+      });
+    this.writes.set(sessionId, next);
+    void next.then(() => {
+      if (this.writes.get(sessionId) === next) this.writes.delete(sessionId);
+    });
+  }
+
+  // Run a task once the files are read, right away if they are
+  private whenLoaded(task: () => void): void {
+    if (this.loaded) {
+      task();
+      return;
+    }
+    void this.load().then(task);
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.readFiles().then(() => {
+      this.loaded = true;
+      log.info("History index loaded", { sessions: this.sessions.size });
+      this.prune();
+    });
+    return this.loading;
+  }
+
+  private async readFiles(): Promise<void> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log.warn("Failed to read history index", { dir: this.dir, error: (error as Error).message });
+      }
+      return;
+    }
+
+    for (const name of names) {
+      if (!name.endsWith(".jsonl")) continue;
+      const sessionId = decodeURIComponent(name.slice(0, -".jsonl".length));
+      let contents: string;
+      try {
+        contents = await readFile(join(this.dir, name), "utf-8");
+      } catch (error) {
+        log.warn("Skipping unreadable history index file", { file: name, error: (error as Error).message });
+        continue;
+      }
+
+      const transcript: SessionTranscript = { agent: "", cwd: "", messages: [], updatedAt: "" };
+      const goodLines: string[] = [];
+      let skippedLines = 0;
+      for (const line of contents.split("\n")) {
+        if (!line) continue;
+        let record: TranscriptRecord;
+        try {
+          record = JSON.parse(line) as TranscriptRecord;
+        } catch {
+          // A half-written last line shouldn't hide the rest of the history
+          skippedLines++;
+          continue;
+        }
+        goodLines.push(line);
+        if (record.kind === "session") {
+          transcript.agent = record.agent;
+          transcript.cwd = record.cwd;
+        } else {
+          transcript.messages.push(record);
+          this.indexedChars += record.text.length;
+        }
+        transcript.updatedAt = record.time;
+      }
+      if (skippedLines > 0) {
+        log.warn("Skipped unreadable lines in history index file", { file: name, lines: skippedLines });
+        // Rewrite the file without them, so new lines aren't appended to a half-written one
+        const file = join(this.dir, name);
+        const cleaned = goodLines.map((line) => `${line}\n`).join("");
+        this.queueWrite(sessionId, () => writeFile(file, cleaned, { mode: 0o600 }));
+      }
+      this.sessions.set(sessionId, transcript);
+    }
+  }
+
+}
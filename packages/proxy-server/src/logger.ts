@@ -64,12 +64,43 @@ export function getLogger(): pino.Logger {
   return logger;
 }
 
+// Receives warnings and errors, e.g. to show them in the UI's agent console
+export type LogListener = (level: "warn" | "error", msg: string, obj?: object) => void;
+
+const listeners = new Set<LogListener>();
+
+/**
+ * Subscribe to warn/error/fatal log lines.
+ * @returns Unsubscribe function
+ */
+export function addLogListener(listener: LogListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(level: "warn" | "error", msg: string, obj?: object): void {
+  for (const listener of listeners) {
+    listener(level, msg, obj);
+  }
+}
+
 export const log = {
   trace: (msg: string, obj?: object) => getLogger().trace(obj, msg),
   debug: (msg: string, obj?: object) => getLogger().debug(obj, msg),
   info: (msg: string, obj?: object) => getLogger().info(obj, msg),
-  warn: (msg: string, obj?: object) => getLogger().warn(obj, msg),
-  error: (msg: string, obj?: object) => getLogger().error(obj, msg),
-  fatal: (msg: string, obj?: object) => getLogger().fatal(obj, msg),
+  warn: (msg: string, obj?: object) => {
+    getLogger().warn(obj, msg);
+    notify("warn", msg, obj);
+  },
+  error: (msg: string, obj?: object) => {
+    getLogger().error(obj, msg);
+    notify("error", msg, obj);
+  },
+  fatal: (msg: string, obj?: object) => {
+    getLogger().fatal(obj, msg);
+    notify("error", msg, obj);
+  },
 };
 
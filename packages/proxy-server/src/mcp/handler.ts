@@ -1,3 +1,4 @@
+import { timingSafeEqual } from "node:crypto";
 import type { Context } from "hono";
 import type { WSContext } from "hono/ws";
 import {
@@ -12,30 +13,67 @@ import {
   type BrowserTabsResult,
   type BrowserReadResult,
   type BrowserExecuteResult,
+  type BrowserScreenshotResult,
+  type BrowserSnapshotResult,
+  type BrowserInteractionResult,
+  type BrowserTabActionResult,
+  type BrowserWaitForResult,
   MCP_METHODS,
   BROWSER_TOOLS,
+  DEFAULT_WAIT_FOR_TIMEOUT_MS,
+  MAX_WAIT_FOR_TIMEOUT_MS,
 } from "./types.js";
 import { log } from "../logger.js";
 
 const MCP_PROTOCOL_VERSION = "2024-11-05";
 
+// How long a browser tool call may take before the extension is given up on
+const BROWSER_CALL_TIMEOUT_MS = 30000;
+
 // Pending browser tool calls waiting for extension response
 const pendingBrowserCalls = new Map<
   string,
   {
+    sessionId: string;
     resolve: (result: BrowserToolResult) => void;
     reject: (error: Error) => void;
   }
 >();
 
-// Reference to connected WebSocket clients (set by server.ts)
-let extensionWs: WSContext | null = null;
+/**
+ * The browser client behind one MCP session.
+ * Each agent gets its own endpoint (/mcp/:sessionId), so its browser tool
+ * calls reach the client that owns it rather than whichever socket connected last.
+ */
+export interface BrowserRoute {
+  // Bearer token the agent must send; handed to it in the mcpServers headers
+  token: string;
+  // Current socket of the owning client (null while it is reconnecting)
+  getSocket: () => WSContext | null;
+  // Whether the owning client declared it can run browser tools
+  hasBrowserTools: () => boolean;
+}
+
+// MCP sessions registered by server.ts, keyed by MCP session ID
+const browserRoutes = new Map<string, BrowserRoute>();
+
+export function registerBrowserRoute(sessionId: string, route: BrowserRoute): void {
+  browserRoutes.set(sessionId, route);
+}
 
-export function setExtensionWebSocket(ws: WSContext | null): void {
-  extensionWs = ws;
+// Remove an MCP session and fail any browser calls still waiting on it
+export function unregisterBrowserRoute(sessionId: string): void {
+  browserRoutes.delete(sessionId);
+  for (const [callId, pending] of pendingBrowserCalls) {
+    if (pending.sessionId === sessionId) {
+      pendingBrowserCalls.delete(callId);
+      pending.reject(new Error("Browser client disconnected"));
+    }
+  }
 }
 
 export function handleBrowserToolResponse(
+  sessionId: string,
   callId: string,
   result: BrowserToolResult | { error: string },
 ): void {
@@ -47,6 +85,12 @@ export function handleBrowserToolResponse(
     return;
   }
 
+  // Only the client the call was sent to may answer it
+  if (pending.sessionId !== sessionId) {
+    log.warn("Browser tool response from a different client ignored", { callId });
+    return;
+  }
+
   pendingBrowserCalls.delete(callId);
 
   if ("error" in result && !("action" in result)) {
@@ -62,20 +106,28 @@ export function handleBrowserToolResponse(
 }
 
 async function executeBrowserTool(
+  sessionId: string,
   params: BrowserToolParams,
 ): Promise<BrowserToolResult> {
-  log.debug("Browser tool called", { params });
+  log.debug("Browser tool called", { sessionId, params });
+
+  const route = browserRoutes.get(sessionId);
+  if (!route?.hasBrowserTools()) {
+    log.error("Client has no browser tools", { sessionId });
+    throw new Error("No browser extension connected for this session");
+  }
 
-  if (!extensionWs) {
-    log.error("No browser extension connected");
-    throw new Error("No browser extension connected");
+  const ws = route.getSocket();
+  if (!ws) {
+    log.error("Browser client is reconnecting", { sessionId });
+    throw new Error("Browser extension is disconnected, try again shortly");
   }
 
   const callId = crypto.randomUUID();
   log.debug("Browser tool call", { callId });
 
   // Send request to extension
-  extensionWs.send(
+  ws.send(
     JSON.stringify({
       type: "browser_tool_call",
       callId,
@@ -83,18 +135,24 @@ async function executeBrowserTool(
     }),
   );
 
+  // browser_wait_for has its own timeout, which may be longer than ours
+  const waitTimeoutMs =
+    params.action === "wait_for"
+      ? Math.min(MAX_WAIT_FOR_TIMEOUT_MS, Math.max(0, params.timeout ?? DEFAULT_WAIT_FOR_TIMEOUT_MS))
+      : 0;
+  const timeoutMs = BROWSER_CALL_TIMEOUT_MS + waitTimeoutMs;
+
   // Wait for response
   return new Promise((resolve, reject) => {
-    pendingBrowserCalls.set(callId, { resolve, reject });
+    pendingBrowserCalls.set(callId, { sessionId, resolve, reject });
 
-    // Timeout after 30 seconds
     setTimeout(() => {
       if (pendingBrowserCalls.has(callId)) {
         pendingBrowserCalls.delete(callId);
         log.error("Browser tool call timed out", { callId });
         reject(new Error("Browser tool call timed out"));
       }
-    }, 30000);
+    }, timeoutMs);
   });
 }
 
@@ -205,12 +263,209 @@ function formatExecuteResult(result: BrowserExecuteResult): McpToolCallResult {
   };
 }
 
+function formatScreenshotResult(result: BrowserScreenshotResult): McpToolCallResult {
+  const captured =
+    result.mode === "full_page" ? "Full page" : result.mode === "element" ? "Element" : "Viewport";
+  const textContent = [
+    `# Browser Screenshot`,
+    ``,
+    `- Tab ID: ${result.tabId}`,
+    `- URL: ${result.url}`,
+    `- Title: ${result.title}`,
+    `- Captured: ${captured}`,
+    `- Image: ${result.width}x${result.height} ${result.mimeType}, ${result.scale.toFixed(2)} image pixels per CSS pixel`,
+    result.truncated
+      ? result.mode === "element"
+        ? `- Note: only the part of the element that fits in the viewport was captured`
+        : `- Note: the page is taller than the capture limit, only its top part was captured`
+      : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  log.debug("Screenshot result", {
+    tabId: result.tabId,
+    url: result.url,
+    mode: result.mode,
+    width: result.width,
+    height: result.height,
+    truncated: result.truncated,
+    dataChars: result.data.length,
+  });
+
+  return {
+    content: [
+      { type: "text", text: textContent },
+      { type: "image", data: result.data, mimeType: result.mimeType },
+    ],
+  };
+}
+
+function formatSnapshotResult(result: BrowserSnapshotResult): McpToolCallResult {
+  const textContent = [
+    `# Browser Snapshot`,
+    ``,
+    `- Tab ID: ${result.tabId}`,
+    `- URL: ${result.url}`,
+    `- Title: ${result.title}`,
+    `- Refs: ${result.refCount} (valid until the next snapshot or navigation)`,
+    result.truncated ? `- Note: the page has more nodes than the snapshot limit, the rest were left out` : null,
+    ``,
+    `## Accessibility Tree`,
+    ``,
+    "```yaml",
+    result.snapshot,
+    "```",
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+  log.debug("Snapshot result", {
+    tabId: result.tabId,
+    url: result.url,
+    refCount: result.refCount,
+    truncated: result.truncated,
+    totalChars: textContent.length,
+  });
+
+  return {
+    content: [{ type: "text", text: textContent }],
+  };
+}
+
+const INTERACTION_TITLES: Record<BrowserInteractionResult["action"], string> = {
+  click: "Click",
+  type: "Type",
+  select_option: "Select Option",
+  hover: "Hover",
+  press_key: "Press Key",
+};
+
+function formatInteractionResult(result: BrowserInteractionResult): McpToolCallResult {
+  const { delta } = result;
+  const changes: string[] = [];
+  if (delta.navigated) {
+    changes.push(`Navigated to ${result.url}`);
+  } else if (delta.urlChanged) {
+    changes.push(`URL changed to ${result.url}`);
+  }
+  if (delta.titleChanged) {
+    changes.push(`Title changed to "${result.title}"`);
+  }
+  if (delta.loading) {
+    changes.push(`The page is still loading`);
+  }
+
+  const lines = [
+    `# Browser ${INTERACTION_TITLES[result.action]} Result`,
+    ``,
+    `- Tab ID: ${result.tabId}`,
+    `- URL: ${result.url}`,
+    `- Target: ${result.target}`,
+    result.detail ? `- ${result.detail}` : null,
+    ...changes.map((change) => `- ${change}`),
+  ];
+
+  if (delta.snapshot !== undefined) {
+    lines.push(``, `## New Page Snapshot`, ``, "```yaml", delta.snapshot, "```");
+  } else if (delta.added.length > 0 || delta.removed.length > 0) {
+    lines.push(
+      ``,
+      `## Page Changes`,
+      ``,
+      "```diff",
+      ...delta.removed.map((line) => `- ${line}`),
+      ...delta.added.map((line) => `+ ${line}`),
+      "```",
+    );
+    if (delta.omitted > 0) {
+      lines.push(`${delta.omitted} more changed line(s) not shown; call browser_snapshot for the full page.`);
+    }
+  } else {
+    lines.push(``, `No visible changes to the page.`);
+  }
+
+  const textContent = lines.filter((line) => line !== null).join("\n");
+
+  log.debug("Interaction result", {
+    action: result.action,
+    tabId: result.tabId,
+    target: result.target,
+    navigated: delta.navigated,
+    added: delta.added.length,
+    removed: delta.removed.length,
+    totalChars: textContent.length,
+  });
+
+  return {
+    content: [{ type: "text", text: textContent }],
+  };
+}
+
+const TAB_ACTION_SUMMARIES: Record<BrowserTabActionResult["action"], string> = {
+  navigate: "Navigated",
+  go_back: "Went back",
+  go_forward: "Went forward",
+  reload: "Reloaded",
+  close_tab: "Closed tab",
+  activate_tab: "Activated tab",
+};
+
+function formatTabActionResult(result: BrowserTabActionResult): McpToolCallResult {
+  const textContent = [
+    `# ${TAB_ACTION_SUMMARIES[result.action]}`,
+    ``,
+    `- Tab ID: ${result.tabId}`,
+    `- URL: ${result.url}`,
+    `- Title: ${result.title}`,
+    result.timedOut ? `- Note: the page was still loading when the wait timed out` : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+  log.debug("Tab action result", {
+    action: result.action,
+    tabId: result.tabId,
+    url: result.url,
+    timedOut: result.timedOut,
+  });
+
+  return {
+    content: [{ type: "text", text: textContent }],
+  };
+}
+
+function formatWaitForResult(result: BrowserWaitForResult): McpToolCallResult {
+  const textContent = [
+    result.satisfied ? `# Wait satisfied` : `# Wait timed out`,
+    ``,
+    `- Tab ID: ${result.tabId}`,
+    `- URL: ${result.url}`,
+    `- Title: ${result.title}`,
+    `- Waited: ${result.elapsedMs}ms`,
+    ...result.pending.map((condition) => `- Still waiting for ${condition}`),
+  ].join("\n");
+
+  log.debug("Wait for result", {
+    tabId: result.tabId,
+    satisfied: result.satisfied,
+    elapsedMs: result.elapsedMs,
+  });
+
+  return {
+    content: [{ type: "text", text: textContent }],
+    isError: !result.satisfied,
+  };
+}
+
 async function handleToolCall(
+  sessionId: string,
   id: string | number,
   params: McpToolCallParams,
 ): Promise<McpResponse> {
   log.info("Tool call started", {
     id,
+    sessionId,
     tool: params.name,
     arguments: params.arguments,
   });
@@ -220,6 +475,20 @@ async function handleToolCall(
     browser_tabs: "tabs",
     browser_read: "read",
     browser_execute: "execute",
+    browser_screenshot: "screenshot",
+    browser_snapshot: "snapshot",
+    browser_click: "click",
+    browser_type: "type",
+    browser_select_option: "select_option",
+    browser_hover: "hover",
+    browser_press_key: "press_key",
+    browser_navigate: "navigate",
+    browser_go_back: "go_back",
+    browser_go_forward: "go_forward",
+    browser_reload: "reload",
+    browser_close_tab: "close_tab",
+    browser_activate_tab: "activate_tab",
+    browser_wait_for: "wait_for",
   };
 
   const action = toolToAction[params.name];
@@ -235,16 +504,46 @@ async function handleToolCall(
     };
   }
 
+  const args = params.arguments as Omit<BrowserToolParams, "action"> | undefined;
+  // Timeouts bound how long calls stay pending, so they must be real numbers
+  if (args?.timeout !== undefined && (typeof args.timeout !== "number" || !Number.isFinite(args.timeout))) {
+    log.warn("Invalid timeout in tool call", { tool: params.name, timeout: args.timeout });
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: -32602,
+        message: "Invalid timeout: expected a number of milliseconds",
+      },
+    };
+  }
+
   try {
-    const args = params.arguments as { tabId?: number; script?: string };
     const browserParams: BrowserToolParams = {
       action,
       tabId: args?.tabId,
       script: args?.script,
+      fullPage: args?.fullPage,
+      selector: args?.selector,
+      format: args?.format,
+      quality: args?.quality,
+      ref: args?.ref,
+      text: args?.text,
+      clear: args?.clear,
+      submit: args?.submit,
+      values: args?.values,
+      key: args?.key,
+      button: args?.button,
+      doubleClick: args?.doubleClick,
+      url: args?.url,
+      bypassCache: args?.bypassCache,
+      gone: args?.gone,
+      networkIdle: args?.networkIdle,
+      timeout: args?.timeout,
     };
 
     const startTime = Date.now();
-    const browserResult = await executeBrowserTool(browserParams);
+    const browserResult = await executeBrowserTool(sessionId, browserParams);
     const duration = Date.now() - startTime;
 
     log.info("Tool call completed", {
@@ -266,6 +565,30 @@ async function handleToolCall(
       case "execute":
         result = formatExecuteResult(browserResult);
         break;
+      case "screenshot":
+        result = formatScreenshotResult(browserResult);
+        break;
+      case "snapshot":
+        result = formatSnapshotResult(browserResult);
+        break;
+      case "click":
+      case "type":
+      case "select_option":
+      case "hover":
+      case "press_key":
+        result = formatInteractionResult(browserResult);
+        break;
+      case "navigate":
+      case "go_back":
+      case "go_forward":
+      case "reload":
+      case "close_tab":
+      case "activate_tab":
+        result = formatTabActionResult(browserResult);
+        break;
+      case "wait_for":
+        result = formatWaitForResult(browserResult);
+        break;
       default:
         throw new Error(`Unknown action: ${(browserResult as BrowserToolResult).action}`);
     }
@@ -290,9 +613,37 @@ async function handleToolCall(
   }
 }
 
+// Check the request's bearer token against the one issued for this MCP session.
+// Only per-session tokens are accepted, never the user-facing auth token,
+// so a leaked web client token cannot drive the browser.
+function isAuthorized(route: BrowserRoute | undefined, authorization: string | undefined): boolean {
+  if (!route || !authorization?.startsWith("Bearer ")) {
+    return false;
+  }
+  const provided = Buffer.from(authorization.slice("Bearer ".length));
+  const expected = Buffer.from(route.token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
 export async function handleMcpRequest(c: Context): Promise<Response> {
+  const sessionId = c.req.param("sessionId") ?? "";
+
+  // Unknown sessions and bad tokens get the same answer so IDs can't be probed
+  if (!isAuthorized(browserRoutes.get(sessionId), c.req.header("Authorization"))) {
+    log.warn("MCP request rejected: invalid session or token", { sessionId });
+    c.header("WWW-Authenticate", "Bearer");
+    return c.json(
+      {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32001, message: "Unauthorized" },
+      },
+      401,
+    );
+  }
+
   const request = (await c.req.json()) as McpRequest;
-  log.debug("MCP request received", { method: request.method });
+  log.debug("MCP request received", { method: request.method, sessionId });
 
   let response: McpResponse;
 
@@ -307,6 +658,7 @@ export async function handleMcpRequest(c: Context): Promise<Response> {
 
     case MCP_METHODS.TOOLS_CALL:
       response = await handleToolCall(
+        sessionId,
         request.id,
         request.params as unknown as McpToolCallParams,
       );
@@ -12,11 +12,46 @@
 // ============================================================================
 
 export interface BrowserToolParams {
-  action: "tabs" | "read" | "execute";
-  tabId?: number;   // Required for read/execute
+  action:
+    | "tabs"
+    | "read"
+    | "execute"
+    | "screenshot"
+    | "snapshot"
+    | "wait_for"
+    | BrowserInteractionAction
+    | BrowserTabAction;
+  tabId?: number;   // Required for every action but tabs
   script?: string;  // Required for execute
+  // screenshot: the whole page instead of the viewport, or one element
+  fullPage?: boolean;
+  selector?: string; // Also targets interactions (when no ref is given) and wait_for
+  format?: BrowserScreenshotFormat;
+  quality?: number; // JPEG quality, 1-100
+  // Interactions: element ref from browser_snapshot (e.g. "e12")
+  ref?: string;
+  text?: string;      // type, wait_for
+  clear?: boolean;    // type: replace the field's content (default true)
+  submit?: boolean;   // type: press Enter afterwards
+  values?: string[];  // select_option: option values or labels
+  key?: string;       // press_key, e.g. "Enter" or "Control+A"
+  button?: "left" | "right" | "middle"; // click
+  doubleClick?: boolean; // click
+  // Tab actions
+  url?: string;          // navigate: opens a new tab when no tabId is given; wait_for: URL pattern
+  bypassCache?: boolean; // reload
+  timeout?: number;      // ms to wait for the page to load, or for wait_for's conditions
+  // wait_for: selector/text to go away instead of appear, and no network activity
+  gone?: boolean;
+  networkIdle?: boolean;
 }
 
+export type BrowserInteractionAction = "click" | "type" | "select_option" | "hover" | "press_key";
+
+export type BrowserTabAction = "navigate" | "go_back" | "go_forward" | "reload" | "close_tab" | "activate_tab";
+
+export type BrowserScreenshotFormat = "png" | "jpeg";
+
 export interface BrowserTabInfo {
   id: number;
   url: string;
@@ -52,10 +87,92 @@ export interface BrowserExecuteResult {
   error?: string;
 }
 
+export interface BrowserScreenshotResult {
+  action: "screenshot";
+  tabId: number;
+  url: string;
+  title: string;
+  mode: "viewport" | "full_page" | "element";
+  data: string; // Base64, without the data: URL prefix
+  mimeType: "image/png" | "image/jpeg";
+  width: number;
+  height: number;
+  scale: number; // Image pixels per CSS pixel
+  // Only the top of the page (or the visible part of the element) was captured
+  truncated: boolean;
+}
+
+export interface BrowserSnapshotResult {
+  action: "snapshot";
+  tabId: number;
+  url: string;
+  title: string;
+  // Accessibility tree as YAML-like lines; interactive nodes carry [ref=eN]
+  snapshot: string;
+  refCount: number;
+  // The page had more nodes than the snapshot limit
+  truncated: boolean;
+}
+
+// What changed on the page during an interaction
+export interface BrowserPageDelta {
+  navigated: boolean; // A new document loaded (the URL alone may change without one)
+  urlChanged: boolean;
+  titleChanged: boolean;
+  // Accessibility snapshot lines (without indentation) that appeared or went away
+  added: string[];
+  removed: string[];
+  // More changed lines than listed
+  omitted: number;
+  // After a navigation, the new page's full snapshot instead of added/removed
+  snapshot?: string;
+  // Still loading when the wait for the page ran out
+  loading: boolean;
+}
+
+export interface BrowserInteractionResult {
+  action: BrowserInteractionAction;
+  tabId: number;
+  url: string;
+  title: string;
+  // The element acted on, e.g. `button "Save" [ref=e12]`
+  target: string;
+  // Extra detail, e.g. the options that got selected
+  detail?: string;
+  delta: BrowserPageDelta;
+}
+
+export interface BrowserTabActionResult {
+  action: BrowserTabAction;
+  tabId: number;
+  // The page the tab ended up on (for close_tab, the page it had)
+  url: string;
+  title: string;
+  // Still loading when the wait ran out
+  timedOut: boolean;
+}
+
+export interface BrowserWaitForResult {
+  action: "wait_for";
+  tabId: number;
+  url: string;
+  title: string;
+  // False when the wait timed out
+  satisfied: boolean;
+  elapsedMs: number;
+  // Conditions still unmet when the wait timed out
+  pending: string[];
+}
+
 export type BrowserToolResult =
   | BrowserTabsResult
   | BrowserReadResult
-  | BrowserExecuteResult;
+  | BrowserExecuteResult
+  | BrowserScreenshotResult
+  | BrowserSnapshotResult
+  | BrowserInteractionResult
+  | BrowserTabActionResult
+  | BrowserWaitForResult;
 
 export interface McpRequest {
   jsonrpc: "2.0";
@@ -219,10 +336,364 @@ export const BROWSER_EXECUTE_TOOL: McpTool = {
   },
 };
 
+// Browser Screenshot Tool
+export const BROWSER_SCREENSHOT_TOOL: McpTool = {
+  name: "browser_screenshot",
+  description:
+    "Take a screenshot of a specific browser tab. " +
+    "Captures the visible viewport by default, the whole page with fullPage, or a single element with selector. " +
+    "Use this to see layout, charts, canvases and images that browser_read can't describe. " +
+    "Large captures are scaled down and compressed to stay under 1568px wide and 1MB. " +
+    "If the tab isn't the active tab of its window, it is brought to the front for the capture. " +
+    "IMPORTANT: You must call browser_tabs first to get the tabId.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tabId: {
+        type: "number",
+        description:
+          "The tab ID to capture. Get this from browser_tabs tool.",
+      },
+      fullPage: {
+        type: "boolean",
+        description:
+          "Capture the whole page by scrolling through it (up to 8000 CSS pixels tall). Defaults to false.",
+      },
+      selector: {
+        type: "string",
+        description:
+          "CSS selector of one element to capture. The element is scrolled into view; takes precedence over fullPage.",
+      },
+      format: {
+        type: "string",
+        enum: ["jpeg", "png"],
+        description: "Image format. Defaults to jpeg, which is much smaller.",
+      },
+      quality: {
+        type: "number",
+        description: "JPEG quality from 1 to 100. Defaults to 80.",
+      },
+    },
+    required: ["tabId"],
+  },
+};
+
+// Browser Snapshot Tool
+export const BROWSER_SNAPSHOT_TOOL: McpTool = {
+  name: "browser_snapshot",
+  description:
+    "Get the accessibility tree of a specific browser tab: the roles, names and states of the page's elements, " +
+    "as YAML-like lines such as `- button \"Save\" [disabled] [ref=e12]`. " +
+    "Interactive elements (links, buttons, inputs, options...) get a ref like e12 that identifies them in the tab. " +
+    "Refs stay valid until the next snapshot of the tab or until the page navigates; an element keeps its ref across snapshots. " +
+    "Prefer this over browser_read when you need to act on the page. " +
+    "IMPORTANT: You must call browser_tabs first to get the tabId.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tabId: {
+        type: "number",
+        description:
+          "The tab ID to snapshot. Get this from browser_tabs tool.",
+      },
+    },
+    required: ["tabId"],
+  },
+};
+
+// Target of the interaction tools: a ref from browser_snapshot, or a selector
+const ELEMENT_TARGET_PROPERTIES = {
+  tabId: {
+    type: "number",
+    description: "The tab ID to act in. Get this from browser_tabs tool.",
+  },
+  ref: {
+    type: "string",
+    description: "Ref of the element from browser_snapshot, e.g. \"e12\". Preferred over selector.",
+  },
+  selector: {
+    type: "string",
+    description: "CSS selector of the element, used when no ref is given.",
+  },
+};
+
+const INTERACTION_RESULT_DESCRIPTION =
+  "Returns what changed on the page afterwards: snapshot lines that appeared or went away " +
+  "(new elements come with refs), or the new page's snapshot if it navigated.";
+
+// Browser Click Tool
+export const BROWSER_CLICK_TOOL: McpTool = {
+  name: "browser_click",
+  description:
+    "Click an element in a specific browser tab, with the pointer and mouse events a real click produces. " +
+    INTERACTION_RESULT_DESCRIPTION +
+    " IMPORTANT: Call browser_snapshot first to get element refs.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...ELEMENT_TARGET_PROPERTIES,
+      button: {
+        type: "string",
+        enum: ["left", "right", "middle"],
+        description: "Mouse button. Defaults to left.",
+      },
+      doubleClick: {
+        type: "boolean",
+        description: "Double-click instead of a single click.",
+      },
+    },
+    required: ["tabId"],
+  },
+};
+
+// Browser Type Tool
+export const BROWSER_TYPE_TOOL: McpTool = {
+  name: "browser_type",
+  description:
+    "Type text into an input, textarea or contenteditable element, key by key, so React/Vue-controlled fields update. " +
+    INTERACTION_RESULT_DESCRIPTION +
+    " IMPORTANT: Call browser_snapshot first to get element refs.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...ELEMENT_TARGET_PROPERTIES,
+      text: {
+        type: "string",
+        description: "Text to type.",
+      },
+      clear: {
+        type: "boolean",
+        description: "Replace the field's current content. Defaults to true; false appends.",
+      },
+      submit: {
+        type: "boolean",
+        description: "Press Enter after typing, e.g. to submit a search.",
+      },
+    },
+    required: ["tabId", "text"],
+  },
+};
+
+// Browser Select Option Tool
+export const BROWSER_SELECT_OPTION_TOOL: McpTool = {
+  name: "browser_select_option",
+  description:
+    "Select options in a <select> element, by value or by visible label. " +
+    "For custom dropdowns that aren't a <select>, click the option with browser_click instead. " +
+    INTERACTION_RESULT_DESCRIPTION,
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...ELEMENT_TARGET_PROPERTIES,
+      values: {
+        type: "array",
+        items: { type: "string" },
+        description: "Values or labels of the options to select. More than one only for multiple selects.",
+      },
+    },
+    required: ["tabId", "values"],
+  },
+};
+
+// Browser Hover Tool
+export const BROWSER_HOVER_TOOL: McpTool = {
+  name: "browser_hover",
+  description:
+    "Move the mouse over an element, to open menus or tooltips shown on hover. " +
+    "Dispatches pointer/mouse over, enter and move events; CSS :hover styles don't apply to simulated events. " +
+    INTERACTION_RESULT_DESCRIPTION,
+  inputSchema: {
+    type: "object",
+    properties: ELEMENT_TARGET_PROPERTIES,
+    required: ["tabId"],
+  },
+};
+
+// Browser Press Key Tool
+export const BROWSER_PRESS_KEY_TOOL: McpTool = {
+  name: "browser_press_key",
+  description:
+    "Press a key or key combination, on the given element or on whatever has focus. " +
+    "Enter submits forms, Tab moves focus, Escape closes dialogs that listen for it, arrow keys drive menus and lists. " +
+    INTERACTION_RESULT_DESCRIPTION,
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...ELEMENT_TARGET_PROPERTIES,
+      key: {
+        type: "string",
+        description:
+          "Key name as in KeyboardEvent.key (\"Enter\", \"Escape\", \"ArrowDown\", \"Tab\", \"a\"), " +
+          "optionally with modifiers: \"Control+A\", \"Shift+Tab\", \"Meta+Enter\".",
+      },
+    },
+    required: ["tabId", "key"],
+  },
+};
+
+const TAB_ID_PROPERTY = {
+  type: "number",
+  description: "The tab ID. Get this from browser_tabs tool.",
+};
+
+const LOAD_TIMEOUT_PROPERTY = {
+  type: "number",
+  description: "Milliseconds to wait for the page to load. Defaults to 15000, at most 25000.",
+};
+
+const TAB_ACTION_RESULT_DESCRIPTION =
+  "Waits for the page to finish loading, then returns the tab's final URL and title.";
+
+// Browser Navigate Tool
+export const BROWSER_NAVIGATE_TOOL: McpTool = {
+  name: "browser_navigate",
+  description:
+    "Open a URL in a specific browser tab, or in a new tab when no tabId is given. " +
+    TAB_ACTION_RESULT_DESCRIPTION,
+  inputSchema: {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        description: "The URL to open. Without a scheme, https:// is assumed.",
+      },
+      tabId: {
+        type: "number",
+        description: "The tab to navigate. Omit to open a new tab. Get this from browser_tabs tool.",
+      },
+      timeout: LOAD_TIMEOUT_PROPERTY,
+    },
+    required: ["url"],
+  },
+};
+
+// Browser Go Back Tool
+export const BROWSER_GO_BACK_TOOL: McpTool = {
+  name: "browser_go_back",
+  description: "Go back to the previous page in a tab's history. " + TAB_ACTION_RESULT_DESCRIPTION,
+  inputSchema: {
+    type: "object",
+    properties: { tabId: TAB_ID_PROPERTY, timeout: LOAD_TIMEOUT_PROPERTY },
+    required: ["tabId"],
+  },
+};
+
+// Browser Go Forward Tool
+export const BROWSER_GO_FORWARD_TOOL: McpTool = {
+  name: "browser_go_forward",
+  description: "Go forward to the next page in a tab's history. " + TAB_ACTION_RESULT_DESCRIPTION,
+  inputSchema: {
+    type: "object",
+    properties: { tabId: TAB_ID_PROPERTY, timeout: LOAD_TIMEOUT_PROPERTY },
+    required: ["tabId"],
+  },
+};
+
+// Browser Reload Tool
+export const BROWSER_RELOAD_TOOL: McpTool = {
+  name: "browser_reload",
+  description: "Reload a tab. " + TAB_ACTION_RESULT_DESCRIPTION,
+  inputSchema: {
+    type: "object",
+    properties: {
+      tabId: TAB_ID_PROPERTY,
+      bypassCache: {
+        type: "boolean",
+        description: "Reload without the browser cache, like Shift+Reload.",
+      },
+      timeout: LOAD_TIMEOUT_PROPERTY,
+    },
+    required: ["tabId"],
+  },
+};
+
+// Browser Close Tab Tool
+export const BROWSER_CLOSE_TAB_TOOL: McpTool = {
+  name: "browser_close_tab",
+  description: "Close a tab. Returns the URL and title it had.",
+  inputSchema: {
+    type: "object",
+    properties: { tabId: TAB_ID_PROPERTY },
+    required: ["tabId"],
+  },
+};
+
+// Browser Activate Tab Tool
+export const BROWSER_ACTIVATE_TAB_TOOL: McpTool = {
+  name: "browser_activate_tab",
+  description:
+    "Switch to a tab and focus its window, e.g. to show the user a page. " + TAB_ACTION_RESULT_DESCRIPTION,
+  inputSchema: {
+    type: "object",
+    properties: { tabId: TAB_ID_PROPERTY, timeout: LOAD_TIMEOUT_PROPERTY },
+    required: ["tabId"],
+  },
+};
+
+// browser_wait_for's own timeout; the extension clamps it to the same range
+export const DEFAULT_WAIT_FOR_TIMEOUT_MS = 10000;
+export const MAX_WAIT_FOR_TIMEOUT_MS = 120000;
+
+export const BROWSER_WAIT_FOR_TOOL: McpTool = {
+  name: "browser_wait_for",
+  description:
+    "Wait until a page is ready before reading or acting on it, e.g. after navigating or clicking in a single-page app. " +
+    "Blocks until every given condition holds: an element matching selector is visible (or gone), text is on the page (or gone), " +
+    "the URL matches a pattern, or the network has been idle for 500ms. " +
+    "Returns as an error listing the conditions still unmet if the timeout runs out first.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tabId: TAB_ID_PROPERTY,
+      selector: {
+        type: "string",
+        description: "CSS selector of an element to wait for.",
+      },
+      text: {
+        type: "string",
+        description: "Text to wait for in the page's visible text.",
+      },
+      gone: {
+        type: "boolean",
+        description: "Wait for selector and text to disappear instead. Defaults to false.",
+      },
+      url: {
+        type: "string",
+        description: "Pattern the tab's URL must match: a glob where * matches anything, or a /regex/.",
+      },
+      networkIdle: {
+        type: "boolean",
+        description: "Wait for the page to finish loading and stop making requests.",
+      },
+      timeout: {
+        type: "number",
+        minimum: 0,
+        maximum: MAX_WAIT_FOR_TIMEOUT_MS,
+        description: `Milliseconds to wait. Defaults to ${DEFAULT_WAIT_FOR_TIMEOUT_MS}, at most ${MAX_WAIT_FOR_TIMEOUT_MS}.`,
+      },
+    },
+    required: ["tabId"],
+  },
+};
+
 // All browser tools
 export const BROWSER_TOOLS = [
   BROWSER_TABS_TOOL,
   BROWSER_READ_TOOL,
   BROWSER_EXECUTE_TOOL,
+  BROWSER_SCREENSHOT_TOOL,
+  BROWSER_SNAPSHOT_TOOL,
+  BROWSER_CLICK_TOOL,
+  BROWSER_TYPE_TOOL,
+  BROWSER_SELECT_OPTION_TOOL,
+  BROWSER_HOVER_TOOL,
+  BROWSER_PRESS_KEY_TOOL,
+  BROWSER_NAVIGATE_TOOL,
+  BROWSER_GO_BACK_TOOL,
+  BROWSER_GO_FORWARD_TOOL,
+  BROWSER_RELOAD_TOOL,
+  BROWSER_CLOSE_TAB_TOOL,
+  BROWSER_ACTIVATE_TAB_TOOL,
+  BROWSER_WAIT_FOR_TOOL,
 ];
 
@@ -1,4 +1,6 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { spawn, type ChildProcess } from "node:child_process";
+import { randomBytes } from "node:crypto";
 import { createServer as createHttpsServer } from "node:https";
 import { Writable, Readable } from "node:stream";
 import { fileURLToPath } from "node:url";
@@ -12,17 +14,25 @@ import type { WSContext } from "hono/ws";
 import type { WebSocket as RawWebSocket } from "ws";
 import {
   handleMcpRequest,
-  setExtensionWebSocket,
+  registerBrowserRoute,
+  unregisterBrowserRoute,
   handleBrowserToolResponse,
 } from "./mcp/handler.js";
-import { log } from "./logger.js";
+import { log, addLogListener } from "./logger.js";
 import { getOrCreateCertificate, getLanIPs } from "./cert.js";
 import {
   listDir,
   readFile,
+  readTextFileRange,
+  searchFiles,
+  writeTextFileAtomic,
   startWatcher,
   type FileChange,
 } from "./files.js";
+import { TerminalManager } from "./terminals.js";
+import { AgentLogBuffer } from "./agent-log.js";
+import { HistoryIndex, getHistoryIndexDir } from "./history-index.js";
+import type { AgentProfile } from "./config.js";
 
 // Get the directory of this file to resolve public folder path
 const __filename = fileURLToPath(import.meta.url);
@@ -32,20 +42,39 @@ const PUBLIC_DIR = join(__dirname, "..", "public");
 export interface ServerConfig {
   port: number;
   host: string;
-  command: string;
-  args: string[];
+  // Named agents the client can choose from on connect
+  agents: AgentProfile[];
+  // Profile used when the client doesn't name one
+  defaultAgent: string;
   cwd: string;
   debug?: boolean;
   token?: string;
   termux?: boolean;
   https?: boolean;
   publicUrl?: string;
+  // Seconds to keep a dropped client's agent alive for reattach (0 disables)
+  reconnectGrace?: number;
+  // Restart the agent when it crashes and re-open its session
+  autoRestart?: boolean;
+  // Index relayed transcripts on disk for search_sessions (default: true)
+  historyIndex?: boolean;
 }
 
 // Pending permission request
 interface PendingPermission {
   resolve: (outcome: { outcome: "cancelled" } | { outcome: "selected"; optionId: string }) => void;
   timeout: ReturnType<typeof setTimeout>;
+  // The permission_request payload, re-sent when a client reattaches
+  request: unknown;
+}
+
+// A sequenced message kept so a reattaching client can catch up
+interface BufferedMessage {
+  seq: number;
+  type: string;
+  payload: unknown;
+  // Serialized size of the payload, counted against REPLAY_BUFFER_MAX_BYTES
+  size: number;
 }
 
 // PromptCapabilities from ACP protocol
@@ -67,6 +96,17 @@ interface SessionModelState {
   currentModelId: string;
 }
 
+// SessionModeState from ACP protocol
+// Reference: Zed's ModeSelector reads from state.available_modes and current_mode_id
+interface SessionModeState {
+  availableModes: Array<{
+    id: string;
+    name: string;
+    description?: string | null;
+  }>;
+  currentModeId: string;
+}
+
 // AgentCapabilities from ACP protocol
 // Reference: Zed's AcpConnection.agent_capabilities
 // Matches SDK's AgentCapabilities exactly
@@ -86,8 +126,36 @@ interface AgentCapabilities {
   };
 }
 
+// Capabilities the browser client declares in its connect message
+interface ProxyClientCapabilities {
+  // Client can execute browser tools (the Chrome extension; not the web client)
+  browserTools?: boolean;
+}
+
 // Track connected clients and their agent connections
+// The state outlives its socket: when the socket drops, the agent keeps running
+// for a grace period and a new socket can reattach with the attach token.
 interface ClientState {
+  // Socket currently attached to this state (null while detached)
+  ws: WSContext | null;
+  // Secret the client presents to reattach after its socket drops
+  attachToken: string;
+  // Disposes the state if no client reattaches in time (set while detached)
+  graceTimer: ReturnType<typeof setTimeout> | null;
+  // Sequence number of the last replayable message
+  lastSeq: number;
+  // Recent replayable messages, oldest first
+  replayBuffer: BufferedMessage[];
+  // Total size of the buffered payloads
+  replayBufferBytes: number;
+  // ID of this client's MCP session; its agent reaches browser tools at /mcp/:sessionId
+  mcpSessionId: string;
+  // Bearer token for that MCP session (separate from the user-facing AUTH_TOKEN)
+  mcpToken: string;
+  // Declared by the client on connect
+  clientCapabilities: ProxyClientCapabilities;
+  // Agent profile the client connected with
+  agentProfile: AgentProfile | null;
   process: ChildProcess | null;
   connection: acp.ClientSideConnection | null;
   sessionId: string | null;
@@ -98,23 +166,53 @@ interface ClientState {
   promptCapabilities: PromptCapabilities | null;
   // Reference: Zed stores model state from NewSessionResponse.models
   modelState: SessionModelState | null;
+  // Reference: Zed stores mode state from NewSessionResponse.modes
+  modeState: SessionModeState | null;
+  // Slash commands from available_commands_update, by session
+  // (kept here because a truncated replay may have dropped the update)
+  availableCommands: Map<string, acp.AvailableCommand[]>;
   // File watcher unsubscribe function
   unsubscribeWatcher: (() => void) | null;
   // Working directory for the current session (used by file explorer)
   sessionCwd: string | null;
+  // Terminals created by the agent via the ACP terminal capability
+  terminals: TerminalManager;
+  // Agent stderr and proxy warnings, shown in the client's agent console
+  agentLog: AgentLogBuffer;
   // Heartbeat: tracks whether client responded to the last ping
   isAlive: boolean;
+  // Crash supervisor: armed once the agent a client connected to has initialized,
+  // so an agent that never came up is reported rather than restarted
+  superviseAgent: boolean;
+  // Crash supervisor: pending restart after the agent exited unexpectedly
+  restartTimer: ReturnType<typeof setTimeout> | null;
+  // Times of recent crashes, used to cap crash loops
+  crashTimes: number[];
+  // Session to re-open once the restarted agent is up
+  recoverSessionId: string | null;
+  // Set while loadSession replays history during recovery (the client already has it)
+  suppressSessionUpdates: boolean;
 }
 
 // Module-level state (set when server starts)
-let AGENT_COMMAND: string;
-let AGENT_ARGS: string[];
+let AGENT_PROFILES: Map<string, AgentProfile>;
+let DEFAULT_AGENT: string;
 let AGENT_CWD: string;
 let SERVER_PORT: number;
 let SERVER_HOST: string;
 let AUTH_TOKEN: string | undefined;
+let RECONNECT_GRACE_MS: number;
+let AUTO_RESTART: boolean;
+// Null when started with --no-history-index
+let HISTORY_INDEX: HistoryIndex | null = null;
 
 const clients = new Map<WSContext, ClientState>();
+// Client a message, agent or MCP request is being handled for. Async work
+// started there (the agent process, its ACP connection, timers) inherits it,
+// so proxy log lines reach that client's agent console and no other.
+const clientLogContext = new AsyncLocalStorage<ClientState>();
+// All live client states by attach token, attached or not
+const clientsByToken = new Map<string, ClientState>();
 
 // Permission request timeout (5 minutes)
 const PERMISSION_TIMEOUT_MS = 5 * 60 * 1000;
@@ -122,32 +220,116 @@ const PERMISSION_TIMEOUT_MS = 5 * 60 * 1000;
 // Heartbeat interval for WebSocket ping/pong (30 seconds)
 const HEARTBEAT_INTERVAL_MS = 30_000;
 
+// Default time a dropped client's agent is kept alive (60 seconds)
+const DEFAULT_RECONNECT_GRACE_SECONDS = 60;
+
+// Replayable messages retained per client for reattach, capped by count
+// and by size (payloads can carry base64 images and screenshots)
+const REPLAY_BUFFER_SIZE = 5000;
+const REPLAY_BUFFER_MAX_BYTES = 32 * 1024 * 1024; // 32MB
+
+// Crash supervisor: restart with exponential backoff, and give up after
+// MAX_AGENT_RESTARTS crashes within AGENT_RESTART_WINDOW_MS (a crash loop)
+const AGENT_RESTART_BASE_DELAY_MS = 1_000;
+const AGENT_RESTART_MAX_DELAY_MS = 30_000;
+const MAX_AGENT_RESTARTS = 5;
+const AGENT_RESTART_WINDOW_MS = 10 * 60 * 1000;
+
+// Messages a reattaching client must not miss, replayed in order.
+// Pending permission requests are re-sent separately since they may
+// have been answered or timed out in the meantime.
+const REPLAYABLE_MESSAGE_TYPES = new Set([
+  "session_update",
+  "prompt_complete",
+  "prompt_error",
+  "terminal_created",
+  "terminal_output",
+  "terminal_exited",
+  "agent_restarting",
+  "agent_recovered",
+]);
+
 // Generate unique request ID
 function generateRequestId(): string {
   return `perm_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 }
 
 // Send a message to the WebSocket client
-function send(ws: WSContext, type: string, payload?: unknown): void {
+function send(ws: WSContext, type: string, payload?: unknown, seq?: number): void {
   if (ws.readyState === 1) {
     // WebSocket.OPEN
-    ws.send(JSON.stringify({ type, payload }));
+    ws.send(JSON.stringify({ type, payload, seq }));
   }
 }
 
+// Send a message to whichever socket currently owns the client state.
+// Replayable messages are sequenced and buffered so they survive a reconnect.
+function emit(state: ClientState, type: string, payload?: unknown): void {
+  if (!REPLAYABLE_MESSAGE_TYPES.has(type)) {
+    if (state.ws) send(state.ws, type, payload);
+    return;
+  }
+
+  const size = Buffer.byteLength(JSON.stringify(payload) ?? "");
+  const message: BufferedMessage = { seq: ++state.lastSeq, type, payload, size };
+  state.replayBuffer.push(message);
+  state.replayBufferBytes += size;
+  while (
+    state.replayBuffer.length > 0 &&
+    (state.replayBuffer.length > REPLAY_BUFFER_SIZE || state.replayBufferBytes > REPLAY_BUFFER_MAX_BYTES)
+  ) {
+    state.replayBufferBytes -= state.replayBuffer.shift()!.size;
+  }
+  if (state.ws) send(state.ws, type, payload, message.seq);
+}
+
+// MCP servers passed to the agent for a session
+// Only clients with browser tools get the browser server, routed to their own endpoint
+function getMcpServers(state: ClientState) {
+  if (!state.clientCapabilities.browserTools) {
+    return [];
+  }
+  return [
+    {
+      type: "http" as const,
+      url: `http://localhost:${SERVER_PORT}/mcp/${state.mcpSessionId}`,
+      name: "browser",
+      headers: [{ name: "Authorization", value: `Bearer ${state.mcpToken}` }],
+    },
+  ];
+}
+
+// Default working directory for a client's sessions (the agent profile's, else the proxy's)
+function getAgentCwd(state: ClientState): string {
+  return state.agentProfile?.cwd ?? AGENT_CWD;
+}
+
+// Agent profile a client's sessions are indexed under for thread history search
+function getAgentName(state: ClientState): string {
+  return state.agentProfile?.name ?? DEFAULT_AGENT;
+}
+
 // Get the working directory for a client's session
 function getClientCwd(ws: WSContext): string {
   const state = clients.get(ws);
-  return state?.sessionCwd || AGENT_CWD;
+  if (!state) return AGENT_CWD;
+  return state.sessionCwd || getAgentCwd(state);
 }
 
-// Create a Client implementation that forwards events to WebSocket
-function createClient(ws: WSContext, clientState: ClientState): acp.Client {
+// Create a Client implementation that forwards events to the attached WebSocket
+function createClient(clientState: ClientState): acp.Client {
   return {
     async requestPermission(params) {
       const requestId = generateRequestId();
       log.debug("Permission requested", { requestId, title: params.toolCall.title });
 
+      const request = {
+        requestId,
+        sessionId: params.sessionId,
+        options: params.options,
+        toolCall: params.toolCall,
+      };
+
       // Create a promise that will be resolved when user responds
       const outcomePromise = new Promise<{ outcome: "cancelled" } | { outcome: "selected"; optionId: string }>((resolve) => {
         // Set timeout to auto-cancel if no response
@@ -158,16 +340,11 @@ function createClient(ws: WSContext, clientState: ClientState): acp.Client {
         }, PERMISSION_TIMEOUT_MS);
 
         // Store the pending request in client's map
-        clientState.pendingPermissions.set(requestId, { resolve, timeout });
+        clientState.pendingPermissions.set(requestId, { resolve, timeout, request });
       });
 
       // Send permission request to client with our requestId
-      send(ws, "permission_request", {
-        requestId,
-        sessionId: params.sessionId,
-        options: params.options,
-        toolCall: params.toolCall,
-      });
+      emit(clientState, "permission_request", request);
 
       // Wait for user response
       const outcome = await outcomePromise;
@@ -177,18 +354,80 @@ function createClient(ws: WSContext, clientState: ClientState): acp.Client {
     },
 
     async sessionUpdate(params) {
-      send(ws, "session_update", params);
+      if (clientState.suppressSessionUpdates) return;
+      // Reference: Zed's AcpThread handles CurrentModeUpdate by updating the mode selector
+      if (params.update.sessionUpdate === "current_mode_update" && clientState.modeState) {
+        clientState.modeState = { ...clientState.modeState, currentModeId: params.update.currentModeId };
+      }
+      if (params.update.sessionUpdate === "available_commands_update") {
+        clientState.availableCommands.set(params.sessionId, params.update.availableCommands);
+      }
+      HISTORY_INDEX?.recordUpdate(params.sessionId, params.update);
+      emit(clientState, "session_update", params);
     },
 
+    // Reference: Zed's AcpThread.read_text_file() - serves reads from the project
+    // The agent sends absolute paths; safePath() keeps them inside the session cwd
     async readTextFile(params) {
-      log.debug("Read file", { path: params.path });
-      // TODO: Forward to extension to read file
-      return { content: "" };
+      const root = clientState.sessionCwd || getAgentCwd(clientState);
+      log.debug("Read file", { path: params.path, line: params.line, limit: params.limit });
+
+      const content = readTextFileRange(root, params.path, params.line, params.limit);
+      if (content === null) {
+        log.warn("Read file denied or not found", { path: params.path, root });
+        throw acp.RequestError.resourceNotFound(params.path);
+      }
+      return { content };
     },
 
+    // Reference: Zed's AcpThread.write_text_file() - writes go through the project
     async writeTextFile(params) {
-      log.debug("Write file", { path: params.path });
-      // TODO: Forward to extension to write file
+      const root = clientState.sessionCwd || getAgentCwd(clientState);
+      log.debug("Write file", { path: params.path, length: params.content.length });
+
+      const change = writeTextFileAtomic(root, params.path, params.content);
+      if (!change) {
+        log.warn("Write file denied: outside session cwd", { path: params.path, root });
+        throw acp.RequestError.invalidParams(
+          { path: params.path },
+          `Path is outside the session working directory: ${params.path}`,
+        );
+      }
+
+      // Notify the UI right away instead of waiting for the watcher to coalesce
+      emit(clientState, "file_changes", { changes: [change] });
+      return {};
+    },
+
+    // Reference: Zed's AcpThread.create_terminal() - the client owns the process
+    // and streams its output to the UI for ToolCallContent::Terminal blocks
+    async createTerminal(params) {
+      const terminalId = clientState.terminals.create(params);
+      emit(clientState, "terminal_created", {
+        sessionId: params.sessionId,
+        terminalId,
+        command: params.command,
+        args: params.args ?? [],
+        cwd: params.cwd ?? null,
+      });
+      return { terminalId };
+    },
+
+    async terminalOutput(params) {
+      return clientState.terminals.getOutput(params.terminalId);
+    },
+
+    async waitForTerminalExit(params) {
+      return await clientState.terminals.waitForExit(params.terminalId);
+    },
+
+    async killTerminal(params) {
+      clientState.terminals.kill(params.terminalId);
+      return {};
+    },
+
+    async releaseTerminal(params) {
+      clientState.terminals.release(params.terminalId);
       return {};
     },
   };
@@ -224,102 +463,309 @@ function cancelPendingPermissions(clientState: ClientState): void {
   clientState.pendingPermissions.clear();
 }
 
-async function handleConnect(ws: WSContext): Promise<void> {
+// Stop indexing the state's session once the client moves on from it
+function leaveIndexedSession(state: ClientState, nextSessionId?: string): void {
+  if (state.sessionId && state.sessionId !== nextSessionId) {
+    HISTORY_INDEX?.endSession(state.sessionId);
+  }
+}
+
+async function handleConnect(
+  ws: WSContext,
+  params: { clientCapabilities?: ProxyClientCapabilities; agent?: string },
+): Promise<void> {
   const state = clients.get(ws);
   if (!state) return;
 
+  const agentName = params.agent || DEFAULT_AGENT;
+  const profile = AGENT_PROFILES.get(agentName);
+  if (!profile) {
+    send(ws, "error", { message: `Unknown agent profile: ${agentName}` });
+    return;
+  }
+
+  // Clients that predate capability negotiation were always the extension
+  state.clientCapabilities = params.clientCapabilities ?? { browserTools: true };
+
   // Kill existing process if any
   if (state.process) {
     // Cancel any pending permission requests from previous connection
     cancelPendingPermissions(state);
+    state.terminals.releaseAll();
     state.process.kill();
     state.process = null;
     state.connection = null;
+    leaveIndexedSession(state);
   }
 
+  // A client-initiated connect starts the crash count afresh
+  if (state.restartTimer) {
+    clearTimeout(state.restartTimer);
+    state.restartTimer = null;
+  }
+  state.crashTimes = [];
+  state.recoverSessionId = null;
+  state.superviseAgent = false;
+  // Commands belong to the previous agent
+  state.availableCommands.clear();
+
   try {
-    log.info("Spawning agent", { command: AGENT_COMMAND, args: AGENT_ARGS });
+    const initResult = await startAgent(state, profile);
+    state.superviseAgent = true;
 
-    // Spawn the agent process using Node.js child_process
-    const agentProcess = spawn(AGENT_COMMAND, AGENT_ARGS, {
-      cwd: AGENT_CWD,
-      stdio: ["pipe", "pipe", "inherit"],
+    send(ws, "status", {
+      connected: true,
+      agent: profile.name,
+      agentInfo: initResult.agentInfo,
+      capabilities: state.agentCapabilities,
+      attachToken: state.attachToken,
+      reconnectGraceMs: RECONNECT_GRACE_MS,
+    });
+  } catch (error) {
+    log.error("Failed to connect", { error: (error as Error).message });
+    send(ws, "error", {
+      message: `Failed to connect: ${(error as Error).message}`,
     });
+  }
+}
+
+// Spawn the agent for a profile and run the ACP initialize handshake
+async function startAgent(state: ClientState, profile: AgentProfile): Promise<acp.InitializeResponse> {
+  log.info("Spawning agent", { agent: profile.name, command: profile.command, args: profile.args });
+
+  // Spawn the agent process using Node.js child_process
+  const agentProcess = spawn(profile.command, profile.args, {
+    cwd: profile.cwd ?? AGENT_CWD,
+    env: { ...process.env, ...profile.env },
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+  state.agentLog.appendProxyLog("info", `Starting agent: ${[profile.command, ...profile.args].join(" ")}`);
+
+  // Capture stderr for the agent console, still echoing it to the proxy's terminal
+  agentProcess.stderr!.on("data", (chunk: Buffer) => {
+    process.stderr.write(chunk);
+    state.agentLog.appendStderr(chunk);
+  });
+  agentProcess.stderr!.on("end", () => {
+    state.agentLog.flushStderr();
+  });
 
-    state.process = agentProcess;
-
-    // Create streams for ACP SDK
-    const input = Writable.toWeb(
-      agentProcess.stdin!,
-    ) as unknown as WritableStream<Uint8Array>;
-    const output = Readable.toWeb(
-      agentProcess.stdout!,
-    ) as unknown as ReadableStream<Uint8Array>;
-
-    // Create ACP connection
-    const stream = acp.ndJsonStream(input, output);
-    const connection = new acp.ClientSideConnection(
-      (_agent) => createClient(ws, state),
-      stream,
+  // Spawn failures (e.g. command not found) arrive as an event; the stream
+  // then closes and handleAgentExit takes over
+  agentProcess.on("error", (error) => {
+    log.error("Agent process error", { agent: profile.name, error: error.message });
+  });
+  agentProcess.on("exit", (exitCode, signal) => {
+    log.info("Agent process exited", { agent: profile.name, exitCode, signal });
+    state.agentLog.appendProxyLog(
+      exitCode === 0 ? "info" : "warn",
+      signal ? `Agent exited (signal ${signal})` : `Agent exited with code ${exitCode}`,
     );
+  });
 
-    state.connection = connection;
+  state.agentProfile = profile;
+  state.process = agentProcess;
+
+  // Create streams for ACP SDK
+  const input = Writable.toWeb(
+    agentProcess.stdin!,
+  ) as unknown as WritableStream<Uint8Array>;
+  const output = Readable.toWeb(
+    agentProcess.stdout!,
+  ) as unknown as ReadableStream<Uint8Array>;
+
+  // Create ACP connection
+  const stream = acp.ndJsonStream(input, output);
+  const connection = new acp.ClientSideConnection(
+    (_agent) => createClient(state),
+    stream,
+  );
 
-    // Initialize the connection
-    const initResult = await connection.initialize({
-      protocolVersion: acp.PROTOCOL_VERSION,
-      clientInfo: {
-        name: "zed",
-        version: "1.0.0",
-      },
-      clientCapabilities: {
-        fs: {
-          readTextFile: true,
-          writeTextFile: true,
-        },
+  state.connection = connection;
+
+  // Handle connection close
+  connection.closed.then(() => {
+    handleAgentExit(state, connection);
+  });
+
+  // Initialize the connection. An agent that fails it is stopped rather than
+  // left half started; handleAgentExit then reports it gone.
+  const initResult = await connection.initialize({
+    protocolVersion: acp.PROTOCOL_VERSION,
+    clientInfo: {
+      name: "zed",
+      version: "1.0.0",
+    },
+    clientCapabilities: {
+      fs: {
+        readTextFile: true,
+        writeTextFile: true,
       },
-    });
+      terminal: true,
+    },
+  }).catch((error: unknown) => {
+    agentProcess.kill();
+    throw error;
+  });
 
-    // Reference: Zed stores full agentCapabilities from initialize response
-    // This includes loadSession, promptCapabilities, sessionCapabilities, etc.
-    const agentCaps = initResult.agentCapabilities;
-    state.agentCapabilities = agentCaps ? {
-      _meta: agentCaps._meta,
-      loadSession: agentCaps.loadSession,
-      mcpCapabilities: agentCaps.mcpCapabilities,
-      promptCapabilities: agentCaps.promptCapabilities,
-      sessionCapabilities: agentCaps.sessionCapabilities,
-    } : null;
-    state.promptCapabilities = agentCaps?.promptCapabilities ?? null;
-
-    log.info("Agent initialized", {
-      protocolVersion: initResult.protocolVersion,
-      loadSession: state.agentCapabilities?.loadSession,
-      sessionList: !!state.agentCapabilities?.sessionCapabilities?.list,
-      sessionResume: !!state.agentCapabilities?.sessionCapabilities?.resume,
-      promptCapabilities: state.promptCapabilities,
-      mcpCapabilities: state.agentCapabilities?.mcpCapabilities,
-    });
+  // Reference: Zed stores full agentCapabilities from initialize response
+  // This includes loadSession, promptCapabilities, sessionCapabilities, etc.
+  const agentCaps = initResult.agentCapabilities;
+  state.agentCapabilities = agentCaps ? {
+    _meta: agentCaps._meta,
+    loadSession: agentCaps.loadSession,
+    mcpCapabilities: agentCaps.mcpCapabilities,
+    promptCapabilities: agentCaps.promptCapabilities,
+    sessionCapabilities: agentCaps.sessionCapabilities,
+  } : null;
+  state.promptCapabilities = agentCaps?.promptCapabilities ?? null;
+
+  log.info("Agent initialized", {
+    protocolVersion: initResult.protocolVersion,
+    loadSession: state.agentCapabilities?.loadSession,
+    sessionList: !!state.agentCapabilities?.sessionCapabilities?.list,
+    sessionResume: !!state.agentCapabilities?.sessionCapabilities?.resume,
+    promptCapabilities: state.promptCapabilities,
+    mcpCapabilities: state.agentCapabilities?.mcpCapabilities,
+  });
 
-    send(ws, "status", {
-      connected: true,
-      agentInfo: initResult.agentInfo,
-      capabilities: state.agentCapabilities,
-    });
+  return initResult;
+}
+
+// Called when an agent's connection closes. Agents stopped on purpose have
+// already been detached from the state; anything else is a crash.
+function handleAgentExit(state: ClientState, connection: acp.ClientSideConnection): void {
+  if (state.connection !== connection) return;
+
+  log.info("Agent connection closed");
+  cancelPendingPermissions(state);
+  state.terminals.releaseAll();
+  state.connection = null;
+  state.process = null;
+  const sessionId = state.sessionId;
+  leaveIndexedSession(state);
+  state.sessionId = null;
 
-    // Handle connection close
-    connection.closed.then(() => {
-      log.info("Agent connection closed");
-      state.connection = null;
-      state.sessionId = null;
-      send(ws, "status", { connected: false });
+  if (!AUTO_RESTART || !state.agentProfile || !state.superviseAgent) {
+    emit(state, "status", { connected: false });
+    return;
+  }
+  scheduleAgentRestart(state, sessionId ?? state.recoverSessionId);
+}
+
+// Schedule a restart after a crash, or give up if the agent is crash looping
+function scheduleAgentRestart(state: ClientState, sessionId: string | null): void {
+  const now = Date.now();
+  state.crashTimes = state.crashTimes.filter((time) => now - time < AGENT_RESTART_WINDOW_MS);
+  state.crashTimes.push(now);
+  const attempt = state.crashTimes.length;
+
+  if (attempt > MAX_AGENT_RESTARTS) {
+    log.error("Agent keeps crashing, giving up", { agent: state.agentProfile?.name, crashes: attempt });
+    state.crashTimes = [];
+    state.recoverSessionId = null;
+    emit(state, "error", {
+      message: `Agent crashed ${attempt} times in ${AGENT_RESTART_WINDOW_MS / 60_000} minutes; not restarting it again`,
     });
+    emit(state, "status", { connected: false });
+    return;
+  }
+
+  const delayMs = Math.min(AGENT_RESTART_BASE_DELAY_MS * 2 ** (attempt - 1), AGENT_RESTART_MAX_DELAY_MS);
+  state.recoverSessionId = sessionId;
+  log.warn("Agent crashed, restarting", { agent: state.agentProfile?.name, attempt, delayMs, sessionId });
+  emit(state, "agent_restarting", {
+    attempt,
+    maxAttempts: MAX_AGENT_RESTARTS,
+    delayMs,
+  });
+
+  state.restartTimer = setTimeout(() => {
+    state.restartTimer = null;
+    void restartAgent(state);
+  }, delayMs);
+}
+
+// Start the agent again after a crash and re-open the session it had
+async function restartAgent(state: ClientState): Promise<void> {
+  const profile = state.agentProfile;
+  if (!profile) return;
+
+  let initResult: acp.InitializeResponse;
+  try {
+    initResult = await startAgent(state, profile);
   } catch (error) {
-    log.error("Failed to connect", { error: (error as Error).message });
-    send(ws, "error", {
-      message: `Failed to connect: ${(error as Error).message}`,
-    });
+    log.error("Agent restart failed", { agent: profile.name, error: (error as Error).message });
+    // If the agent was spawned, startAgent stopped it and handleAgentExit
+    // schedules the next attempt; otherwise schedule it here
+    if (!state.connection && !state.restartTimer) {
+      scheduleAgentRestart(state, state.recoverSessionId);
+    }
+    return;
+  }
+
+  const sessionId = state.recoverSessionId;
+  let restored: "resumed" | "loaded" | null = null;
+  if (sessionId) {
+    try {
+      restored = await reopenSession(state, sessionId);
+    } catch (error) {
+      log.warn("Could not re-open session after restart", { sessionId, error: (error as Error).message });
+    }
+  }
+  state.recoverSessionId = null;
+
+  log.info("Agent recovered", { agent: profile.name, sessionId, restored });
+  emit(state, "agent_recovered", {
+    agent: profile.name,
+    agentInfo: initResult.agentInfo,
+    capabilities: state.agentCapabilities,
+    sessionId: restored ? sessionId : null,
+    restored,
+    promptCapabilities: state.promptCapabilities,
+    models: restored ? state.modelState : null,
+    modes: restored ? state.modeState : null,
+  });
+}
+
+// Re-open a session on a restarted agent. Prefers resume, which does not
+// replay history; loadSession's replay is dropped since the client has it.
+// Returns how the session was restored, or null if the agent can't do either.
+async function reopenSession(state: ClientState, sessionId: string): Promise<"resumed" | "loaded" | null> {
+  const connection = state.connection;
+  if (!connection) return null;
+
+  const params = {
+    sessionId,
+    cwd: state.sessionCwd || getAgentCwd(state),
+    mcpServers: getMcpServers(state),
+  };
+
+  if (state.agentCapabilities?.sessionCapabilities?.resume) {
+    const result = await connection.unstable_resumeSession(params);
+    state.sessionId = sessionId;
+    state.modelState = result.models ?? null;
+    state.modeState = result.modes ?? null;
+    HISTORY_INDEX?.startSession(sessionId, getAgentName(state), params.cwd);
+    return "resumed";
   }
+
+  if (state.agentCapabilities?.loadSession) {
+    state.suppressSessionUpdates = true;
+    try {
+      const result = await connection.loadSession(params);
+      state.sessionId = sessionId;
+      state.modelState = result.models ?? null;
+      state.modeState = result.modes ?? null;
+      // The replay was dropped, so the indexed transcript stays as it was
+      HISTORY_INDEX?.startSession(sessionId, getAgentName(state), params.cwd);
+    } finally {
+      state.suppressSessionUpdates = false;
+    }
+    return "loaded";
+  }
+
+  return null;
 }
 
 async function handleNewSession(
@@ -333,32 +779,27 @@ async function handleNewSession(
   }
 
   try {
-    const sessionCwd = params.cwd || AGENT_CWD;
-    const mcpServers = [
-      {
-        type: "http" as const,
-        url: `http://localhost:${SERVER_PORT}/mcp`,
-        name: "browser",
-        headers: [],
-      },
-    ];
+    const sessionCwd = params.cwd || getAgentCwd(state);
     const result = await state.connection.newSession({
       cwd: sessionCwd,
-      mcpServers,
+      mcpServers: getMcpServers(state),
     });
 
+    leaveIndexedSession(state, result.sessionId);
     state.sessionId = result.sessionId;
     state.sessionCwd = sessionCwd;
     // Reference: Zed stores model state from NewSessionResponse.models
     state.modelState = result.models ?? null;
+    state.modeState = result.modes ?? null;
     log.info("Session created", { sessionId: result.sessionId, cwd: sessionCwd, hasModels: !!result.models });
+    HISTORY_INDEX?.startSession(result.sessionId, getAgentName(state), sessionCwd);
 
     // Restart file watcher with the new session cwd
     if (state.unsubscribeWatcher) {
       state.unsubscribeWatcher();
     }
     state.unsubscribeWatcher = await startWatcher(sessionCwd, (changes) => {
-      send(ws, "file_changes", { changes });
+      emit(state, "file_changes", { changes });
     });
 
     // Send fresh root directory listing for the new session cwd
@@ -373,8 +814,10 @@ async function handleNewSession(
     // Also include models state for model selection support
     send(ws, "session_created", {
       ...result,
+      cwd: sessionCwd,
       promptCapabilities: state.promptCapabilities,
       models: state.modelState,
+      modes: state.modeState,
     });
   } catch (error) {
     log.error("Failed to create session", { error: (error as Error).message });
@@ -384,6 +827,20 @@ async function handleNewSession(
   }
 }
 
+// List the agent profiles a client can connect with
+// Env is left out since it often holds API keys
+function handleListAgents(ws: WSContext): void {
+  send(ws, "agent_list", {
+    agents: Array.from(AGENT_PROFILES.values()).map((profile) => ({
+      name: profile.name,
+      command: profile.command,
+      args: profile.args,
+      cwd: profile.cwd ?? AGENT_CWD,
+    })),
+    defaultAgent: DEFAULT_AGENT,
+  });
+}
+
 // ============================================================================
 // Session History Operations
 // Reference: Zed's AgentConnection trait - list_sessions, load_session, resume_session
@@ -461,27 +918,25 @@ async function handleLoadSession(
     return;
   }
 
+  const sessionId = params.sessionId;
   try {
-    const sessionCwd = params.cwd || AGENT_CWD;
-    const sessionId = params.sessionId;
+    const sessionCwd = params.cwd || getAgentCwd(state);
+    // The replay is the full history, so it replaces what was indexed once the load succeeds
+    HISTORY_INDEX?.startReplay(sessionId, getAgentName(state), sessionCwd);
     const result = await state.connection.loadSession({
       sessionId,
       cwd: sessionCwd,
-      mcpServers: [
-        {
-          type: "http",
-          url: `http://localhost:${SERVER_PORT}/mcp`,
-          name: "browser",
-          headers: [],
-        },
-      ],
+      mcpServers: getMcpServers(state),
     });
+    HISTORY_INDEX?.finishReplay(sessionId);
 
+    leaveIndexedSession(state, sessionId);
     state.sessionId = sessionId;
     state.sessionCwd = sessionCwd;
-    // TODO: Zed also stores result.modes and result.configOptions
+    // TODO: Zed also stores result.configOptions
     // Reference: acp.rs line 659-665 - config_state(response.modes, response.models, response.config_options)
     state.modelState = result.models ?? null;
+    state.modeState = result.modes ?? null;
     log.info("Session loaded", { sessionId, cwd: sessionCwd });
 
     // Restart file watcher with the session cwd
@@ -489,7 +944,7 @@ async function handleLoadSession(
       state.unsubscribeWatcher();
     }
     state.unsubscribeWatcher = await startWatcher(sessionCwd, (changes) => {
-      send(ws, "file_changes", { changes });
+      emit(state, "file_changes", { changes });
     });
 
     // Send fresh root directory listing
@@ -502,8 +957,10 @@ async function handleLoadSession(
       sessionId,
       promptCapabilities: state.promptCapabilities,
       models: state.modelState,
+      modes: state.modeState,
     });
   } catch (error) {
+    HISTORY_INDEX?.cancelReplay(sessionId);
     log.error("Failed to load session", { error: (error as Error).message });
     send(ws, "error", {
       message: `Failed to load session: ${(error as Error).message}`,
@@ -533,35 +990,31 @@ async function handleResumeSession(
   }
 
   try {
-    const sessionCwd = params.cwd || AGENT_CWD;
+    const sessionCwd = params.cwd || getAgentCwd(state);
     const sessionId = params.sessionId;
     // Note: SDK uses unstable_resumeSession until API is finalized
     const result = await state.connection.unstable_resumeSession({
       sessionId,
       cwd: sessionCwd,
-      mcpServers: [
-        {
-          type: "http",
-          url: `http://localhost:${SERVER_PORT}/mcp`,
-          name: "browser",
-          headers: [],
-        },
-      ],
+      mcpServers: getMcpServers(state),
     });
 
+    leaveIndexedSession(state, sessionId);
     state.sessionId = sessionId;
     state.sessionCwd = sessionCwd;
-    // TODO: Zed also stores result.modes and result.configOptions
+    // TODO: Zed also stores result.configOptions
     // Reference: acp.rs line 736-742 - config_state(response.modes, response.models, response.config_options)
     state.modelState = result.models ?? null;
+    state.modeState = result.modes ?? null;
     log.info("Session resumed", { sessionId, cwd: sessionCwd });
+    HISTORY_INDEX?.startSession(sessionId, getAgentName(state), sessionCwd);
 
     // Restart file watcher with the session cwd
     if (state.unsubscribeWatcher) {
       state.unsubscribeWatcher();
     }
     state.unsubscribeWatcher = await startWatcher(sessionCwd, (changes) => {
-      send(ws, "file_changes", { changes });
+      emit(state, "file_changes", { changes });
     });
 
     // Send fresh root directory listing
@@ -574,6 +1027,7 @@ async function handleResumeSession(
       sessionId,
       promptCapabilities: state.promptCapabilities,
       models: state.modelState,
+      modes: state.modeState,
     });
   } catch (error) {
     log.error("Failed to resume session", { error: (error as Error).message });
@@ -583,6 +1037,78 @@ async function handleResumeSession(
   }
 }
 
+/**
+ * Fork a session (the active one by default) and switch to the child.
+ * The child starts with the parent's history; the client loads it to show it.
+ */
+async function handleForkSession(
+  ws: WSContext,
+  params: { sessionId?: string; cwd?: string },
+): Promise<void> {
+  const state = clients.get(ws);
+  if (!state?.connection) {
+    send(ws, "error", { message: "Not connected to agent" });
+    return;
+  }
+
+  if (!state.agentCapabilities?.sessionCapabilities?.fork) {
+    send(ws, "error", { message: "Forking sessions is not supported by this agent" });
+    return;
+  }
+
+  const parentSessionId = params.sessionId || state.sessionId;
+  if (!parentSessionId) {
+    send(ws, "error", { message: "No session to fork" });
+    return;
+  }
+
+  try {
+    const sessionCwd = params.cwd || state.sessionCwd || getAgentCwd(state);
+    // Note: SDK uses unstable_forkSession until API is finalized
+    const result = await state.connection.unstable_forkSession({
+      sessionId: parentSessionId,
+      cwd: sessionCwd,
+      mcpServers: getMcpServers(state),
+    });
+
+    leaveIndexedSession(state, result.sessionId);
+    state.sessionId = result.sessionId;
+    state.sessionCwd = sessionCwd;
+    state.modelState = result.models ?? null;
+    state.modeState = result.modes ?? null;
+    log.info("Session forked", { parentSessionId, sessionId: result.sessionId, cwd: sessionCwd });
+    HISTORY_INDEX?.startSession(result.sessionId, getAgentName(state), sessionCwd, parentSessionId);
+
+    // Restart file watcher with the session cwd
+    if (state.unsubscribeWatcher) {
+      state.unsubscribeWatcher();
+    }
+    state.unsubscribeWatcher = await startWatcher(sessionCwd, (changes) => {
+      emit(state, "file_changes", { changes });
+    });
+
+    // Send fresh root directory listing
+    const rootItems = listDir(sessionCwd, "");
+    if (rootItems !== null) {
+      send(ws, "dir_listing", { path: "", items: rootItems });
+    }
+
+    send(ws, "session_forked", {
+      sessionId: result.sessionId,
+      parentSessionId,
+      cwd: sessionCwd,
+      promptCapabilities: state.promptCapabilities,
+      models: state.modelState,
+      modes: state.modeState,
+    });
+  } catch (error) {
+    log.error("Failed to fork session", { error: (error as Error).message });
+    send(ws, "error", {
+      message: `Failed to fork session: ${(error as Error).message}`,
+    });
+  }
+}
+
 // Reference: Zed's AcpThread.send() forwards Vec<acp::ContentBlock> to agent
 async function handlePrompt(
   ws: WSContext,
@@ -593,6 +1119,8 @@ async function handlePrompt(
     send(ws, "error", { message: "No active session" });
     return;
   }
+  // The state may switch sessions while the prompt runs
+  const sessionId = state.sessionId;
 
   try {
     // Log content blocks for debugging
@@ -614,19 +1142,25 @@ async function handlePrompt(
       });
     }
 
+    HISTORY_INDEX?.recordPrompt(sessionId, params.content as acp.ContentBlock[]);
+
     // Forward ContentBlock[] directly to agent (matches Zed's behavior)
     const result = await state.connection.prompt({
-      sessionId: state.sessionId,
+      sessionId,
       prompt: params.content as acp.ContentBlock[],
     });
 
+    // The socket may have been replaced while the prompt ran, so emit via the state
     log.info("Prompt completed", { stopReason: result.stopReason });
-    send(ws, "prompt_complete", result);
+    emit(state, "prompt_complete", result);
   } catch (error) {
     log.error("Prompt failed", { error: (error as Error).message });
-    send(ws, "error", {
+    emit(state, "prompt_error", {
+      sessionId,
       message: `Prompt failed: ${(error as Error).message}`,
     });
+  } finally {
+    HISTORY_INDEX?.endPrompt(sessionId);
   }
 }
 
@@ -634,14 +1168,124 @@ function handleDisconnect(ws: WSContext): void {
   const state = clients.get(ws);
   if (!state) return;
 
+  stopAgent(state);
+  send(ws, "status", { connected: false });
+}
+
+// Stop the agent and release what it was using (terminals, watcher, permissions)
+function stopAgent(state: ClientState): void {
+  if (state.restartTimer) {
+    clearTimeout(state.restartTimer);
+    state.restartTimer = null;
+  }
+  state.recoverSessionId = null;
+  cancelPendingPermissions(state);
+  state.unsubscribeWatcher?.();
+  state.unsubscribeWatcher = null;
+  state.terminals.releaseAll();
   if (state.process) {
     state.process.kill();
     state.process = null;
   }
   state.connection = null;
+  leaveIndexedSession(state);
   state.sessionId = null;
+}
 
-  send(ws, "status", { connected: false });
+// Release everything a client state owns (agent, terminals, watcher, permissions)
+function disposeClientState(state: ClientState): void {
+  if (state.graceTimer) {
+    clearTimeout(state.graceTimer);
+    state.graceTimer = null;
+  }
+  stopAgent(state);
+  clientsByToken.delete(state.attachToken);
+  unregisterBrowserRoute(state.mcpSessionId);
+}
+
+// Keep the agent running after the socket drops so the client can reattach.
+// Reference: Zed keeps the AcpThread alive independently of the view
+function detachClientState(state: ClientState): void {
+  state.ws = null;
+  log.info("Client detached, keeping agent alive", {
+    sessionId: state.sessionId,
+    graceMs: RECONNECT_GRACE_MS,
+  });
+
+  state.graceTimer = setTimeout(() => {
+    log.info("Reconnect grace period expired, stopping agent", { sessionId: state.sessionId });
+    state.graceTimer = null;
+    disposeClientState(state);
+  }, RECONNECT_GRACE_MS);
+}
+
+/**
+ * Reattach a new socket to a client state whose socket dropped.
+ * Replays missed messages after `lastSeq` in order, then re-sends
+ * permission requests that are still waiting for an answer.
+ */
+function handleAttach(ws: WSContext, params: { attachToken: string; lastSeq?: number }): void {
+  const state = clientsByToken.get(params.attachToken);
+  // An agent waiting to be restarted after a crash still counts as running
+  if (!state || (!state.connection && !state.restartTimer)) {
+    log.warn("Attach failed: unknown or expired attach token");
+    send(ws, "attach_failed", { message: "Previous agent session is no longer available" });
+    return;
+  }
+
+  // The fresh state created for this socket is replaced by the reattached one
+  const fresh = clients.get(ws);
+  if (fresh && fresh !== state) {
+    disposeClientState(fresh);
+  }
+
+  // A half-open old socket may still own the state; take it over
+  if (state.ws && state.ws !== ws) {
+    const oldWs = state.ws;
+    clients.delete(oldWs);
+    oldWs.close(4002, "Replaced by reattached client");
+  }
+  if (state.graceTimer) {
+    clearTimeout(state.graceTimer);
+    state.graceTimer = null;
+  }
+
+  state.ws = ws;
+  state.isAlive = true;
+  clients.set(ws, state);
+
+  const lastSeq = params.lastSeq ?? 0;
+  const missed = state.replayBuffer.filter((message) => message.seq > lastSeq);
+  // The buffer dropped messages the client never saw
+  const replayTruncated = state.replayBuffer.length > 0 && state.replayBuffer[0]!.seq > lastSeq + 1;
+
+  log.info("Client reattached", {
+    sessionId: state.sessionId,
+    lastSeq,
+    replayCount: missed.length,
+    replayTruncated,
+    pendingPermissions: state.pendingPermissions.size,
+  });
+
+  send(ws, "attached", {
+    sessionId: state.sessionId,
+    capabilities: state.agentCapabilities,
+    promptCapabilities: state.promptCapabilities,
+    models: state.modelState,
+    modes: state.modeState,
+    availableCommands: state.sessionId ? state.availableCommands.get(state.sessionId) : undefined,
+    reconnectGraceMs: RECONNECT_GRACE_MS,
+    replayTruncated,
+  });
+
+  for (const message of missed) {
+    send(ws, message.type, message.payload, message.seq);
+  }
+  for (const pending of state.pendingPermissions.values()) {
+    send(ws, "permission_request", pending.request);
+  }
+  // Console lines aren't sequenced; the client skips the ones it already has
+  send(ws, "agent_log", { entries: state.agentLog.getEntries() });
 }
 
 // Handle cancel request from client - matches Zed's cancel() logic
@@ -713,6 +1357,43 @@ async function handleSetSessionModel(
   }
 }
 
+// Reference: Zed's ModeSelector calls connection.set_session_mode()
+async function handleSetSessionMode(
+  ws: WSContext,
+  params: { modeId: string },
+): Promise<void> {
+  const state = clients.get(ws);
+  if (!state?.connection || !state.sessionId) {
+    send(ws, "error", { message: "No active session" });
+    return;
+  }
+
+  if (!state.modeState) {
+    send(ws, "error", { message: "Session modes not supported by this agent" });
+    return;
+  }
+
+  try {
+    log.info("Setting session mode", { sessionId: state.sessionId, modeId: params.modeId });
+    await state.connection.setSessionMode({
+      sessionId: state.sessionId,
+      modeId: params.modeId,
+    });
+    // Update local mode state
+    state.modeState = {
+      ...state.modeState,
+      currentModeId: params.modeId,
+    };
+    send(ws, "mode_changed", { modeId: params.modeId });
+    log.info("Mode changed successfully", { modeId: params.modeId });
+  } catch (error) {
+    log.error("Failed to set mode", { error: (error as Error).message });
+    send(ws, "error", {
+      message: `Failed to set mode: ${(error as Error).message}`,
+    });
+  }
+}
+
 // ============================================================================
 // File Explorer Handlers
 // ============================================================================
@@ -738,6 +1419,26 @@ function handleReadFile(ws: WSContext, payload: { path: string }): void {
   send(ws, "file_content", content);
 }
 
+// Fuzzy file search for @-mentions in the prompt input
+function handleSearchFiles(ws: WSContext, payload: { query: string; requestId: number }): void {
+  const cwd = getClientCwd(ws);
+  const results = searchFiles(cwd, payload.query);
+  send(ws, "file_search_results", { requestId: payload.requestId, query: payload.query, results });
+}
+
+// Full-text search over the indexed transcripts of every session of the client's agent,
+// including threads that were run from other clients
+async function handleSearchSessions(ws: WSContext, payload: { query: string; requestId: number }): Promise<void> {
+  const state = clients.get(ws);
+  const results = state && HISTORY_INDEX ? await HISTORY_INDEX.search(payload.query, getAgentName(state)) : [];
+  send(ws, "session_search_results", {
+    requestId: payload.requestId,
+    query: payload.query,
+    enabled: HISTORY_INDEX !== null,
+    results,
+  });
+}
+
 // ContentBlock type matching @agentclientprotocol/sdk
 // Reference: Zed's acp::ContentBlock
 interface ContentBlock {
@@ -750,8 +1451,14 @@ interface ContentBlock {
 }
 
 interface ProxyMessage {
-  type: "connect" | "disconnect" | "new_session" | "prompt" | "cancel" | "set_session_model";
-  payload?: { cwd?: string } | { content: ContentBlock[] } | { modelId: string };
+  type: "connect" | "attach" | "list_agents" | "disconnect" | "new_session" | "prompt" | "cancel" | "set_session_model" | "set_session_mode";
+  payload?:
+    | { clientCapabilities?: ProxyClientCapabilities; agent?: string }
+    | { cwd?: string }
+    | { content: ContentBlock[] }
+    | { modelId: string }
+    | { modeId: string }
+    | { attachToken: string; lastSeq?: number };
 }
 
 // Launch PWA via Termux am command
@@ -801,16 +1508,138 @@ async function launchTermuxPwa(pwaName: string): Promise<void> {
   }
 }
 
+/**
+ * Apply config file changes to a running server.
+ * Clients that already started an agent keep their profile until they reconnect.
+ */
+export function updateServerConfig(
+  config: Pick<ServerConfig, "agents" | "defaultAgent" | "reconnectGrace" | "autoRestart">,
+): void {
+  AGENT_PROFILES = new Map(config.agents.map((profile) => [profile.name, profile]));
+  DEFAULT_AGENT = config.defaultAgent;
+  RECONNECT_GRACE_MS = (config.reconnectGrace ?? DEFAULT_RECONNECT_GRACE_SECONDS) * 1000;
+  AUTO_RESTART = config.autoRestart ?? false;
+}
+
+// Dispatch one message from a client socket
+async function handleClientMessage(ws: WSContext, raw: string): Promise<void> {
+  try {
+    const data = JSON.parse(raw);
+    log.debug("Received message", { type: data.type });
+
+    switch (data.type) {
+      case "connect":
+        await handleConnect(
+          ws,
+          (data.payload as { clientCapabilities?: ProxyClientCapabilities; agent?: string }) || {},
+        );
+        break;
+      case "list_agents":
+        handleListAgents(ws);
+        break;
+      case "attach":
+        handleAttach(ws, data.payload as { attachToken: string; lastSeq?: number });
+        break;
+      case "disconnect":
+        handleDisconnect(ws);
+        break;
+      case "new_session":
+        await handleNewSession(
+          ws,
+          (data.payload as { cwd?: string }) || {},
+        );
+        break;
+      case "prompt":
+        await handlePrompt(ws, data.payload as { content: ContentBlock[] });
+        break;
+      case "browser_tool_result": {
+        // Handle response from extension for browser tool call
+        log.trace("Raw browser_tool_result from extension", {
+          callId: data.callId,
+          result: data.result,
+        });
+        const state = clients.get(ws);
+        if (state) {
+          handleBrowserToolResponse(state.mcpSessionId, data.callId, data.result);
+        }
+        break;
+      }
+      case "permission_response":
+        // Handle user's permission decision
+        handlePermissionResponse(ws, data.payload);
+        break;
+      case "cancel":
+        // Handle cancel request - send session/cancel to agent
+        await handleCancel(ws);
+        break;
+      case "set_session_model":
+        // Handle model selection request
+        await handleSetSessionModel(ws, data.payload as { modelId: string });
+        break;
+      case "set_session_mode":
+        await handleSetSessionMode(ws, data.payload as { modeId: string });
+        break;
+      // Session history operations - Reference: Zed's AgentSessionList
+      case "list_sessions":
+        await handleListSessions(ws, (data.payload as { cwd?: string; cursor?: string }) || {});
+        break;
+      case "load_session":
+        await handleLoadSession(ws, data.payload as { sessionId: string; cwd?: string });
+        break;
+      case "resume_session":
+        await handleResumeSession(ws, data.payload as { sessionId: string; cwd?: string });
+        break;
+      case "fork_session":
+        await handleForkSession(ws, data.payload as { sessionId?: string; cwd?: string });
+        break;
+      case "list_dir":
+        handleListDir(ws, data.payload as { path: string });
+        break;
+      case "read_file":
+        handleReadFile(ws, data.payload as { path: string });
+        break;
+      case "search_sessions":
+        await handleSearchSessions(ws, data.payload as { query: string; requestId: number });
+        break;
+      case "search_files":
+        handleSearchFiles(ws, data.payload as { query: string; requestId: number });
+        break;
+      case "ping":
+        send(ws, "pong");
+        break;
+      default:
+        send(ws, "error", {
+          message: `Unknown message type: ${data.type}`,
+        });
+    }
+  } catch (error) {
+    log.error("WebSocket message error", { error: (error as Error).message });
+    send(ws, "error", { message: `Error: ${(error as Error).message}` });
+  }
+}
+
 export async function startServer(config: ServerConfig): Promise<void> {
-  const { port, host, command, args, cwd, token, termux, https, publicUrl } = config;
+  const { port, host, agents, defaultAgent, cwd, token, termux, https, publicUrl, autoRestart = false } = config;
+  const reconnectGrace = config.reconnectGrace ?? DEFAULT_RECONNECT_GRACE_SECONDS;
 
   // Set module-level config
-  AGENT_COMMAND = command;
-  AGENT_ARGS = args;
+  AGENT_PROFILES = new Map(agents.map((profile) => [profile.name, profile]));
+  DEFAULT_AGENT = defaultAgent;
   AGENT_CWD = cwd;
   SERVER_PORT = port;
   SERVER_HOST = host;
   AUTH_TOKEN = token;
+  RECONNECT_GRACE_MS = reconnectGrace * 1000;
+  AUTO_RESTART = autoRestart;
+  HISTORY_INDEX = config.historyIndex === false ? null : new HistoryIndex(getHistoryIndexDir());
+
+  // Show proxy warnings and errors in the agent console of the client they
+  // came up for; lines not tied to a client only go to the proxy's log
+  addLogListener((level, msg, obj) => {
+    const state = clientLogContext.getStore();
+    if (!state) return;
+    state.agentLog.appendProxyLog(level, obj ? `${msg} ${JSON.stringify(obj)}` : msg);
+  });
 
   const app = new Hono();
   const { injectWebSocket, upgradeWebSocket } = createNodeWebSocket({ app });
@@ -825,8 +1654,13 @@ export async function startServer(config: ServerConfig): Promise<void> {
     return c.redirect("/app/");
   });
 
-  // MCP Streamable HTTP endpoint for browser tool
-  app.post("/mcp", handleMcpRequest);
+  // MCP Streamable HTTP endpoint for browser tools, one per client session
+  // (run as the client that owns the session, for its agent console)
+  app.post("/mcp/:sessionId", (c) => {
+    const sessionId = c.req.param("sessionId");
+    const state = Array.from(clientsByToken.values()).find((client) => client.mcpSessionId === sessionId);
+    return state ? clientLogContext.run(state, () => handleMcpRequest(c)) : handleMcpRequest(c);
+  });
 
   // Serve PWA from /app (use absolute path so it works from any CWD)
   app.use("/app/*", serveStatic({
@@ -862,6 +1696,16 @@ export async function startServer(config: ServerConfig): Promise<void> {
         onOpen(_event, ws) {
           log.info("Client connected");
           const state: ClientState = {
+            agentProfile: null,
+            ws,
+            attachToken: randomBytes(24).toString("hex"),
+            graceTimer: null,
+            lastSeq: 0,
+            replayBuffer: [],
+            replayBufferBytes: 0,
+            mcpSessionId: randomBytes(16).toString("hex"),
+            mcpToken: randomBytes(32).toString("hex"),
+            clientCapabilities: {},
             process: null,
             connection: null,
             sessionId: null,
@@ -869,104 +1713,57 @@ export async function startServer(config: ServerConfig): Promise<void> {
             agentCapabilities: null,
             promptCapabilities: null,
             modelState: null,
+            modeState: null,
+            availableCommands: new Map(),
             unsubscribeWatcher: null,
             sessionCwd: null,
+            terminals: new TerminalManager(() => state.sessionCwd || getAgentCwd(state), {
+              onOutput: (terminalId, data) => emit(state, "terminal_output", { terminalId, data }),
+              onExit: (terminalId, exitStatus) => emit(state, "terminal_exited", { terminalId, exitStatus }),
+            }),
+            agentLog: new AgentLogBuffer((entries) => emit(state, "agent_log", { entries })),
             isAlive: true,
+            superviseAgent: false,
+            restartTimer: null,
+            crashTimes: [],
+            recoverSessionId: null,
+            suppressSessionUpdates: false,
           };
           clients.set(ws, state);
+          clientsByToken.set(state.attachToken, state);
+          // Route this client's browser tool calls to whichever socket it is attached to
+          registerBrowserRoute(state.mcpSessionId, {
+            token: state.mcpToken,
+            getSocket: () => state.ws,
+            hasBrowserTools: () => state.clientCapabilities.browserTools === true,
+          });
 
           // Listen for protocol-level pong frames to track liveness
+          // (look up the state each time, since an attach may swap it)
           const rawWs = ws.raw as RawWebSocket;
           rawWs.on("pong", () => {
-            state.isAlive = true;
+            const current = clients.get(ws);
+            if (current) current.isAlive = true;
           });
-
-          // Register this WebSocket for browser tool calls
-          setExtensionWebSocket(ws);
         },
       async onMessage(event, ws) {
-        try {
-          const data = JSON.parse(event.data.toString());
-          log.debug("Received message", { type: data.type });
-
-          switch (data.type) {
-            case "connect":
-              await handleConnect(ws);
-              break;
-            case "disconnect":
-              handleDisconnect(ws);
-              break;
-            case "new_session":
-              await handleNewSession(
-                ws,
-                (data.payload as { cwd?: string }) || {},
-              );
-              break;
-            case "prompt":
-              await handlePrompt(ws, data.payload as { content: ContentBlock[] });
-              break;
-            case "browser_tool_result":
-              // Handle response from extension for browser tool call
-              log.trace("Raw browser_tool_result from extension", {
-                callId: data.callId,
-                result: data.result,
-              });
-              handleBrowserToolResponse(data.callId, data.result);
-              break;
-            case "permission_response":
-              // Handle user's permission decision
-              handlePermissionResponse(ws, data.payload);
-              break;
-            case "cancel":
-              // Handle cancel request - send session/cancel to agent
-              await handleCancel(ws);
-              break;
-            case "set_session_model":
-              // Handle model selection request
-              await handleSetSessionModel(ws, data.payload as { modelId: string });
-              break;
-            // Session history operations - Reference: Zed's AgentSessionList
-            case "list_sessions":
-              await handleListSessions(ws, (data.payload as { cwd?: string; cursor?: string }) || {});
-              break;
-            case "load_session":
-              await handleLoadSession(ws, data.payload as { sessionId: string; cwd?: string });
-              break;
-            case "resume_session":
-              await handleResumeSession(ws, data.payload as { sessionId: string; cwd?: string });
-              break;
-            case "list_dir":
-              handleListDir(ws, data.payload as { path: string });
-              break;
-            case "read_file":
-              handleReadFile(ws, data.payload as { path: string });
-              break;
-            case "ping":
-              send(ws, "pong");
-              break;
-            default:
-              send(ws, "error", {
-                message: `Unknown message type: ${data.type}`,
-              });
-          }
-        } catch (error) {
-          log.error("WebSocket message error", { error: (error as Error).message });
-          send(ws, "error", { message: `Error: ${(error as Error).message}` });
-        }
+        // Warnings and errors logged while handling the message belong to this client
+        const state = clients.get(ws);
+        const raw = event.data.toString();
+        await (state ? clientLogContext.run(state, () => handleClientMessage(ws, raw)) : handleClientMessage(ws, raw));
       },
       onClose(_event, ws) {
         log.info("Client disconnected");
         const state = clients.get(ws);
-        if (state) {
-          // Cancel any pending permission requests
-          cancelPendingPermissions(state);
-          // Unsubscribe from file watcher
-          state.unsubscribeWatcher?.();
-        }
-        handleDisconnect(ws);
         clients.delete(ws);
-        // Clear extension WebSocket if this was it
-        setExtensionWebSocket(null);
+        if (!state) return;
+
+        // Keep a running agent alive so the client can reattach; otherwise clean up
+        if ((state.connection || state.restartTimer) && RECONNECT_GRACE_MS > 0) {
+          detachClientState(state);
+        } else {
+          disposeClientState(state);
+        }
       },
     };
     }),
@@ -1066,11 +1863,19 @@ export async function startServer(config: ServerConfig): Promise<void> {
   }
 
   // Agent info
-  const agentDisplay = AGENT_ARGS.length > 0
-    ? `${AGENT_COMMAND} ${AGENT_ARGS.join(" ")}`
-    : AGENT_COMMAND;
-  console.log(`  📦 Agent: ${agentDisplay}`);
-  console.log(`     CWD:   ${AGENT_CWD}`);
+  if (agents.length === 1) {
+    const profile = agents[0]!;
+    const agentDisplay = [profile.command, ...profile.args].join(" ");
+    console.log(`  📦 Agent: ${agentDisplay}`);
+    console.log(`     CWD:   ${profile.cwd ?? AGENT_CWD}`);
+  } else {
+    console.log(`  📦 Agents:`);
+    for (const profile of agents) {
+      const marker = profile.name === DEFAULT_AGENT ? " (default)" : "";
+      console.log(`     ${profile.name}${marker}: ${[profile.command, ...profile.args].join(" ")}`);
+    }
+    console.log(`     CWD:   ${AGENT_CWD}`);
+  }
   console.log();
   console.log(`  Press Ctrl+C to stop`);
   console.log();
@@ -1082,11 +1887,12 @@ export async function startServer(config: ServerConfig): Promise<void> {
     https,
     publicUrl,
     wsEndpoint: `${wsProtocol}://${displayHost}:${port}/ws`,
-    mcpEndpoint: `${httpProtocol}://${displayHost}:${port}/mcp`,
-    agent: AGENT_COMMAND,
-    agentArgs: AGENT_ARGS,
+    mcpEndpoint: `${httpProtocol}://${displayHost}:${port}/mcp/:sessionId`,
+    agents: agents.map((profile) => profile.name),
+    defaultAgent: DEFAULT_AGENT,
     cwd: AGENT_CWD,
     authEnabled: !!AUTH_TOKEN,
+    autoRestart: AUTO_RESTART,
   });
 
   // Launch PWA via Termux if --termux flag is set
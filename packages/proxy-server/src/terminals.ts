@@ -0,0 +1,247 @@
+/**
+ * Terminal management for the ACP client-side terminal capability
+ *
+ * Agents that see `clientCapabilities.terminal` ask the client to run
+ * commands instead of spawning them themselves. This lets the client show
+ * the output live and own the process lifecycle.
+ *
+ * Reference: Zed's acp_thread terminal.rs and the ACP terminals spec
+ * https://agentclientprotocol.com/protocol/terminals
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { resolve } from "node:path";
+import { StringDecoder } from "node:string_decoder";
+import * as acp from "@agentclientprotocol/sdk";
+import { log } from "./logger.js";
+
+// Output retained per terminal when the agent does not set outputByteLimit
+const DEFAULT_OUTPUT_BYTE_LIMIT = 1024 * 1024; // 1MB
+
+export interface TerminalExitStatus {
+  exitCode: number | null;
+  signal: string | null;
+}
+
+export interface CreateTerminalParams {
+  sessionId: string;
+  command: string;
+  args?: string[];
+  env?: Array<{ name: string; value: string }>;
+  cwd?: string | null;
+  outputByteLimit?: number | null;
+}
+
+export interface TerminalOutput {
+  output: string;
+  truncated: boolean;
+  exitStatus: TerminalExitStatus | null;
+}
+
+export interface TerminalEvents {
+  // Called with each decoded chunk of combined stdout/stderr
+  onOutput: (terminalId: string, data: string) => void;
+  onExit: (terminalId: string, exitStatus: TerminalExitStatus) => void;
+}
+
+interface ManagedTerminal {
+  id: string;
+  sessionId: string;
+  process: ChildProcess;
+  output: Buffer;
+  truncated: boolean;
+  outputByteLimit: number;
+  exitStatus: TerminalExitStatus | null;
+  exitWaiters: Array<(status: TerminalExitStatus) => void>;
+}
+
+/**
+ * Drop bytes from the start of `buffer` so it fits in `limit`,
+ * advancing to the next UTF-8 character boundary (as the ACP spec requires).
+ */
+function truncateFromStart(buffer: Buffer, limit: number): Buffer {
+  if (buffer.length <= limit) return buffer;
+  let start = buffer.length - limit;
+  // Skip UTF-8 continuation bytes (0b10xxxxxx)
+  while (start < buffer.length && (buffer[start]! & 0xc0) === 0x80) {
+    start++;
+  }
+  return buffer.subarray(start);
+}
+
+/**
+ * Tracks the terminals created by one client's agent connection.
+ * All terminals are killed when the manager is released.
+ */
+export class TerminalManager {
+  private terminals = new Map<string, ManagedTerminal>();
+
+  constructor(
+    private defaultCwd: () => string,
+    private events: TerminalEvents,
+  ) {}
+
+  create(params: CreateTerminalParams): string {
+    const id = `term_${randomUUID()}`;
+    const args = params.args ?? [];
+    const cwd = params.cwd ? resolve(this.defaultCwd(), params.cwd) : this.defaultCwd();
+    const env = { ...process.env };
+    for (const variable of params.env ?? []) {
+      env[variable.name] = variable.value;
+    }
+
+    // Agents commonly send a full shell line ("npm test && echo ok") with no args,
+    // so run arg-less commands through the shell like Zed does.
+    // Detached puts the command in its own process group, so killing it also
+    // stops whatever the shell started (e.g. node under `npm test`).
+    const child = spawn(params.command, args, {
+      cwd,
+      env,
+      shell: args.length === 0,
+      detached: true,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const terminal: ManagedTerminal = {
+      id,
+      sessionId: params.sessionId,
+      process: child,
+      output: Buffer.alloc(0),
+      truncated: false,
+      outputByteLimit: params.outputByteLimit ?? DEFAULT_OUTPUT_BYTE_LIMIT,
+      exitStatus: null,
+      exitWaiters: [],
+    };
+    this.terminals.set(id, terminal);
+
+    log.info("Terminal created", { terminalId: id, command: params.command, args, cwd });
+
+    // Each stream gets its own decoder: a character split across two chunks
+    // of stdout must not be joined with a chunk of stderr in between
+    const decoders = [new StringDecoder("utf8"), new StringDecoder("utf8")];
+    const onData = (decoder: StringDecoder) => (chunk: Buffer) => {
+      this.appendOutput(terminal, chunk);
+      const text = decoder.write(chunk);
+      if (text) this.events.onOutput(id, text);
+    };
+    child.stdout?.on("data", onData(decoders[0]!));
+    child.stderr?.on("data", onData(decoders[1]!));
+
+    child.on("error", (error) => {
+      log.error("Terminal process error", { terminalId: id, error: error.message });
+      const message = `${error.message}\n`;
+      this.appendOutput(terminal, Buffer.from(message));
+      this.events.onOutput(id, message);
+      this.finish(terminal, { exitCode: null, signal: null });
+    });
+
+    child.on("close", (code, signal) => {
+      for (const decoder of decoders) {
+        const rest = decoder.end();
+        if (rest) this.events.onOutput(id, rest);
+      }
+      this.finish(terminal, { exitCode: code, signal });
+    });
+
+    return id;
+  }
+
+  getOutput(terminalId: string): TerminalOutput {
+    const terminal = this.get(terminalId);
+    return {
+      output: terminal.output.toString("utf8"),
+      truncated: terminal.truncated,
+      exitStatus: terminal.exitStatus,
+    };
+  }
+
+  waitForExit(terminalId: string): Promise<TerminalExitStatus> {
+    const terminal = this.get(terminalId);
+    if (terminal.exitStatus) {
+      return Promise.resolve(terminal.exitStatus);
+    }
+    return new Promise((resolve) => {
+      terminal.exitWaiters.push(resolve);
+    });
+  }
+
+  /**
+   * Kill the command but keep the terminal, so its output stays readable.
+   */
+  kill(terminalId: string): void {
+    const terminal = this.get(terminalId);
+    if (!terminal.exitStatus) {
+      log.debug("Killing terminal", { terminalId });
+      this.killProcess(terminal);
+    }
+  }
+
+  /**
+   * Kill the command (if still running) and forget the terminal.
+   */
+  release(terminalId: string): void {
+    const terminal = this.get(terminalId);
+    if (!terminal.exitStatus) {
+      this.killProcess(terminal);
+    }
+    this.terminals.delete(terminalId);
+    log.debug("Terminal released", { terminalId });
+  }
+
+  /**
+   * Release every terminal (called when the agent goes away).
+   */
+  releaseAll(): void {
+    for (const id of Array.from(this.terminals.keys())) {
+      this.release(id);
+    }
+  }
+
+  private get(terminalId: string): ManagedTerminal {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      throw acp.RequestError.invalidParams({ terminalId }, `Unknown terminal: ${terminalId}`);
+    }
+    return terminal;
+  }
+
+  /**
+   * Kill the command's whole process group, not just the shell running it.
+   */
+  private killProcess(terminal: ManagedTerminal): void {
+    const pid = terminal.process.pid;
+    if (pid === undefined) return;
+    try {
+      process.kill(-pid, "SIGTERM");
+    } catch (error) {
+      // The group is gone already, or there never was one (spawn failed)
+      log.debug("Failed to kill terminal process group", {
+        terminalId: terminal.id,
+        error: (error as Error).message,
+      });
+      terminal.process.kill();
+    }
+  }
+
+  private appendOutput(terminal: ManagedTerminal, chunk: Buffer): void {
+    const combined = Buffer.concat([terminal.output, chunk]);
+    const limited = truncateFromStart(combined, terminal.outputByteLimit);
+    if (limited.length < combined.length) {
+      terminal.truncated = true;
+    }
+    terminal.output = limited;
+  }
+
+  private finish(terminal: ManagedTerminal, exitStatus: TerminalExitStatus): void {
+    if (terminal.exitStatus) return;
+    terminal.exitStatus = exitStatus;
+    log.info("Terminal exited", { terminalId: terminal.id, ...exitStatus });
+
+    for (const waiter of terminal.exitWaiters) {
+      waiter(exitStatus);
+    }
+    terminal.exitWaiters = [];
+    this.events.onExit(terminal.id, exitStatus);
+  }
+}
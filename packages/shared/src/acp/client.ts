@@ -1,25 +1,34 @@
 import type {
+  AvailableCommand,
   ACPSettings,
   AgentCapabilities,
+  AgentLogEntry,
+  AgentRecoveryEvent,
   AgentSessionInfo,
   BrowserToolParams,
   BrowserToolResult,
   ConnectionState,
   ContentBlock,
+  ForkSessionRequest,
+  ListAgentsResponse,
   ListSessionsRequest,
   ListSessionsResponse,
   LoadSessionRequest,
   PermissionRequestPayload,
   PromptCapabilities,
   ProxyMessage,
-  ProxyResponse,
   ResumeSessionRequest,
+  SequencedProxyResponse,
   SessionUpdate,
   SessionModelState,
+  SessionModeState,
   ModelInfo,
   FileItem,
   FileContent,
+  FileSearchResult,
+  SessionSearchResult,
   FileChange,
+  TerminalState,
 } from "./types";
 
 /**
@@ -38,23 +47,36 @@ export type ConnectionStateHandler = (
   error?: string,
 ) => void;
 export type SessionUpdateHandler = (sessionId: string, update: SessionUpdate) => void;
-export type SessionCreatedHandler = (sessionId: string) => void;
+export type SessionCreatedHandler = (sessionId: string, cwd?: string) => void;
 export type PromptCompleteHandler = (stopReason: string) => void;
+export type PromptErrorHandler = (message: string) => void;
 export type PermissionRequestHandler = (request: PermissionRequestPayload) => void;
 export type BrowserToolCallHandler = (
   params: BrowserToolParams,
 ) => Promise<BrowserToolResult>;
 export type ModelChangedHandler = (modelId: string) => void;
 export type ModelStateChangedHandler = (state: SessionModelState | null) => void;
+// Handler for mode state changes (new session, mode switched by the user or the agent)
+export type ModeStateChangedHandler = (state: SessionModeState | null) => void;
+// Handler for slash command changes (fires with the active session's commands)
+export type AvailableCommandsHandler = (commands: AvailableCommand[]) => void;
 export type FileChangesHandler = (changes: FileChange[]) => void;
 // Handler for server-pushed directory listings (e.g., after session cwd change)
 export type DirListingPushHandler = (path: string, items: FileItem[]) => void;
+// Handler for terminal output/exit (fires with the terminal's full current state)
+export type TerminalUpdateHandler = (terminal: TerminalState) => void;
+// Handler for agent console updates (fires with all retained lines)
+export type AgentLogHandler = (entries: AgentLogEntry[]) => void;
+// Handler for agent crash recovery progress
+export type AgentRecoveryHandler = (event: AgentRecoveryEvent) => void;
 // Handler for session loaded/resumed events
 export type SessionLoadedHandler = (sessionId: string) => void;
 // Handler fired before switching the active session.
 // This matches Zed's model more closely: the UI changes active thread first,
 // then receives updates for that thread while load/resume is in flight.
 export type SessionSwitchingHandler = (sessionId: string) => void;
+// Handler for forks; fires after the client has switched to the child session
+export type SessionForkedHandler = (event: { sessionId: string; parentSessionId: string; cwd: string }) => void;
 
 export class ACPClient {
   private ws: WebSocket | null = null;
@@ -72,6 +94,12 @@ export class ACPClient {
   private _modelState: SessionModelState | null = null;
   private onModelChanged: ModelChangedHandler | null = null;
   private onModelStateChanged: ModelStateChangedHandler | null = null;
+  // Reference: Zed stores mode state from NewSessionResponse.modes
+  private _modeState: SessionModeState | null = null;
+  private modeStateHandlers: Set<ModeStateChangedHandler> = new Set();
+  // Slash commands by session; agents may announce them before session/new returns
+  private availableCommandsBySession: Map<string, AvailableCommand[]> = new Map();
+  private availableCommandsHandlers: Set<AvailableCommandsHandler> = new Set();
   private onSessionLoaded: SessionLoadedHandler | null = null;
   private onSessionSwitching: SessionSwitchingHandler | null = null;
 
@@ -79,19 +107,40 @@ export class ACPClient {
   private onSessionUpdate: SessionUpdateHandler | null = null;
   private onSessionCreated: SessionCreatedHandler | null = null;
   private onPromptComplete: PromptCompleteHandler | null = null;
+  private promptErrorHandlers: Set<PromptErrorHandler> = new Set();
+  // Set between sending a prompt and its prompt_complete or prompt_error
+  private promptInFlight = false;
   private onPermissionRequest: PermissionRequestHandler | null = null;
   private onBrowserToolCall: BrowserToolCallHandler | null = null;
   private fileChangesHandlers: Set<FileChangesHandler> = new Set();
   private onDirListingPush: DirListingPushHandler | null = null;
+  // Terminals run by the proxy for the agent, keyed by terminalId
+  private terminals: Map<string, TerminalState> = new Map();
+  private terminalHandlers: Set<TerminalUpdateHandler> = new Set();
+  private agentRecoveryHandlers: Set<AgentRecoveryHandler> = new Set();
+  // Agent console: agent stderr and proxy warnings, oldest first
+  private agentLog: AgentLogEntry[] = [];
+  // Highest entry id seen, kept when the view is cleared so replays don't bring lines back
+  private agentLogLastId = 0;
+  private agentLogHandlers: Set<AgentLogHandler> = new Set();
+  private static readonly MAX_AGENT_LOG_ENTRIES = 1000;
+  private static readonly MAX_TERMINAL_OUTPUT_CHARS = 256_000;
 
   // Pending file operations - keyed by unique requestId to handle concurrent requests
   private requestIdCounter = 0;
   private pendingDirListing: Map<number, { resolve: (items: FileItem[]) => void; reject: (err: Error) => void }> = new Map();
   private pendingFileRead: Map<number, { resolve: (content: FileContent) => void; reject: (err: Error) => void }> = new Map();
+  private pendingFileSearch: Map<number, { resolve: (results: FileSearchResult[]) => void; reject: (err: Error) => void }> = new Map();
+  private pendingSessionSearch: Map<
+    number,
+    { resolve: (response: { enabled: boolean; results: SessionSearchResult[] }) => void; reject: (err: Error) => void }
+  > = new Map();
   // Pending session operations
   private pendingSessionList: { resolve: (response: ListSessionsResponse) => void; reject: (err: Error) => void } | null = null;
   private pendingSessionLoad: { resolve: (sessionId: string) => void; reject: (err: Error) => void } | null = null;
   private pendingSessionResume: { resolve: (sessionId: string) => void; reject: (err: Error) => void } | null = null;
+  private pendingSessionFork: { resolve: (sessionId: string) => void; reject: (err: Error) => void } | null = null;
+  private sessionForkedHandlers: Set<SessionForkedHandler> = new Set();
   // Track requestId for each path to match responses
   private dirListingRequestIds: Map<string, number> = new Map();
   private fileReadRequestIds: Map<string, number> = new Map();
@@ -107,6 +156,21 @@ export class ACPClient {
   private static readonly PONG_TIMEOUT_MS = 10_000;
   private static readonly MAX_MISSED_PONGS = 2;
 
+  // Reattach state: the proxy keeps the agent alive for a grace period after
+  // the socket drops, and replays messages after lastSeq when we reattach
+  private attachToken: string | null = null;
+  private lastSeq = 0;
+  private reconnectGraceMs = 0;
+  private reconnectDeadline = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private static readonly RECONNECT_BASE_DELAY_MS = 1_000;
+  private static readonly RECONNECT_MAX_DELAY_MS = 10_000;
+  private static readonly LIST_AGENTS_TIMEOUT_MS = 10_000;
+
+  // Agent profile the proxy started for us (from the status message)
+  private _agentName: string | null = null;
+
   constructor(settings: ACPSettings) {
     this.settings = settings;
   }
@@ -131,6 +195,17 @@ export class ACPClient {
     this.onPromptComplete = handler;
   }
 
+  /**
+   * Subscribe to failures of the running prompt (reported instead of prompt_complete).
+   * @returns Unsubscribe function
+   */
+  onPromptError(handler: PromptErrorHandler): () => void {
+    this.promptErrorHandlers.add(handler);
+    return () => {
+      this.promptErrorHandlers.delete(handler);
+    };
+  }
+
   setModelChangedHandler(handler: ModelChangedHandler): void {
     this.onModelChanged = handler;
   }
@@ -181,6 +256,16 @@ export class ACPClient {
     return this.sessionId;
   }
 
+  // Proxy this client connects to; local caches are keyed by it
+  getProxyUrl(): string {
+    return this.settings.proxyUrl;
+  }
+
+  // Name of the agent profile running for this connection
+  get agentName(): string | null {
+    return this._agentName;
+  }
+
   // Reference: Zed's supports_images() in MessageEditor
   // Returns true if the agent supports image content in prompts
   get supportsImages(): boolean {
@@ -208,6 +293,26 @@ export class ACPClient {
     return this._modelState !== null && this._modelState.availableModels.length > 0;
   }
 
+  get modeState(): SessionModeState | null {
+    return this._modeState;
+  }
+
+  /**
+   * Check if the agent supports session modes.
+   * Reference: Zed's ModeSelector is only shown when the session has modes
+   */
+  get supportsModes(): boolean {
+    return this._modeState !== null && this._modeState.availableModes.length > 0;
+  }
+
+  /**
+   * Slash commands the agent announced for the active session.
+   * Reference: Zed's slash command completion reads the thread's available_commands
+   */
+  get availableCommands(): AvailableCommand[] {
+    return (this.sessionId && this.availableCommandsBySession.get(this.sessionId)) || [];
+  }
+
   // ============================================================================
   // Session Capability Getters
   // Reference: Zed's AgentConnection supports_* methods
@@ -247,6 +352,15 @@ export class ACPClient {
       && this._agentCapabilities?.sessionCapabilities?.list !== null;
   }
 
+  /**
+   * Check if the agent supports forking sessions.
+   * Reference: Zed checks agent_capabilities.session_capabilities.fork
+   */
+  get supportsForkSession(): boolean {
+    return this._agentCapabilities?.sessionCapabilities?.fork !== undefined
+      && this._agentCapabilities?.sessionCapabilities?.fork !== null;
+  }
+
   /**
    * Check if the agent supports session history (load or resume).
    * Reference: Zed's AgentConnection.supports_session_history()
@@ -261,73 +375,16 @@ export class ACPClient {
     }
 
     this.setState("connecting");
+    // A fresh connect spawns a new agent, so any previous attach state is stale
+    this.attachToken = null;
+    this.lastSeq = 0;
 
     return new Promise((resolve, reject) => {
       this.connectResolve = resolve;
       this.connectReject = reject;
 
       try {
-        // Build WebSocket URL with token if provided
-        let wsUrl = this.settings.proxyUrl;
-        if (this.settings.token) {
-          const url = new URL(wsUrl);
-          url.searchParams.set("token", this.settings.token);
-          wsUrl = url.toString();
-        }
-        const ws = new WebSocket(wsUrl);
-        this.ws = ws;
-
-        ws.onopen = () => {
-          // Guard against race condition: check if this WebSocket is still current
-          if (this.ws !== ws) {
-            console.log("[ACPClient] WebSocket opened but already disconnected/replaced, closing stale socket");
-            ws.close();
-            return;
-          }
-          console.log("[ACPClient] WebSocket connected, sending connect command");
-          this.send({ type: "connect" });
-        };
-
-        ws.onmessage = (event) => {
-          // Ignore messages from stale sockets
-          if (this.ws !== ws) return;
-          try {
-            const response: ProxyResponse = JSON.parse(event.data);
-            this.handleResponse(response);
-          } catch (error) {
-            console.error("[ACPClient] Failed to parse message:", error);
-          }
-        };
-
-        ws.onerror = () => {
-          // Ignore errors from stale sockets
-          if (this.ws !== ws) return;
-          console.error("[ACPClient] WebSocket error");
-          this.setState("error", "WebSocket connection error");
-          this.connectReject?.(new Error("WebSocket connection error"));
-          this.connectResolve = null;
-          this.connectReject = null;
-        };
-
-        ws.onclose = (event) => {
-          // Ignore close events from stale sockets (replaced by a new connection)
-          if (this.ws !== ws) return;
-          console.log("[ACPClient] WebSocket closed", event.code, event.reason);
-
-          // Check if closed due to auth failure (code 4001) or other error during connect
-          if (this.connectReject) {
-            const errorMessage = event.reason || `Connection closed (code: ${event.code})`;
-            this.setState("error", errorMessage);
-            this.connectReject(new Error(errorMessage));
-            this.connectResolve = null;
-            this.connectReject = null;
-          } else {
-            this.setState("disconnected");
-          }
-
-          this.ws = null;
-          this.sessionId = null;
-        };
+        this.openSocket("connect");
       } catch (error) {
         this.setState("error", (error as Error).message);
         reject(error);
@@ -335,18 +392,179 @@ export class ACPClient {
     });
   }
 
-  private handleResponse(response: ProxyResponse): void {
+  /**
+   * Open the WebSocket and wire up its handlers.
+   * "connect" asks the proxy for a new agent; "attach" reattaches to the
+   * agent the proxy kept alive after our previous socket dropped.
+   */
+  private openSocket(mode: "connect" | "attach"): void {
+    const ws = new WebSocket(this.buildWsUrl());
+    this.ws = ws;
+
+    ws.onopen = () => {
+      // Guard against race condition: check if this WebSocket is still current
+      if (this.ws !== ws) {
+        console.log("[ACPClient] WebSocket opened but already disconnected/replaced, closing stale socket");
+        ws.close();
+        return;
+      }
+      if (mode === "attach" && this.attachToken) {
+        console.log("[ACPClient] WebSocket reconnected, reattaching from seq", this.lastSeq);
+        this.send({ type: "attach", payload: { attachToken: this.attachToken, lastSeq: this.lastSeq } });
+      } else {
+        console.log("[ACPClient] WebSocket connected, sending connect command");
+        // A new connection gets a new agent, with its own console
+        this.agentLog = [];
+        this.agentLogLastId = 0;
+        this.notifyAgentLog();
+        this.availableCommandsBySession.clear();
+        this.notifyAvailableCommands();
+        // Only clients with a browser tool handler (the extension) get browser tools
+        this.send({
+          type: "connect",
+          payload: {
+            clientCapabilities: { browserTools: this.onBrowserToolCall !== null },
+            agent: this.settings.agent,
+          },
+        });
+      }
+    };
+
+    ws.onmessage = (event) => {
+      // Ignore messages from stale sockets
+      if (this.ws !== ws) return;
+      try {
+        const response: SequencedProxyResponse = JSON.parse(event.data);
+        this.handleResponse(response);
+      } catch (error) {
+        console.error("[ACPClient] Failed to parse message:", error);
+      }
+    };
+
+    ws.onerror = () => {
+      // Ignore errors from stale sockets
+      if (this.ws !== ws) return;
+      // Failed reattach attempts are retried from onclose
+      if (this.connectionState === "reconnecting") return;
+      console.error("[ACPClient] WebSocket error");
+      this.setState("error", "WebSocket connection error");
+      this.connectReject?.(new Error("WebSocket connection error"));
+      this.connectResolve = null;
+      this.connectReject = null;
+    };
+
+    ws.onclose = (event) => {
+      // Ignore close events from stale sockets (replaced by a new connection)
+      if (this.ws !== ws) return;
+      console.log("[ACPClient] WebSocket closed", event.code, event.reason);
+      this.ws = null;
+
+      // Check if closed due to auth failure (code 4001) or other error during connect
+      if (this.connectReject) {
+        const errorMessage = event.reason || `Connection closed (code: ${event.code})`;
+        this.setState("error", errorMessage);
+        this.connectReject(new Error(errorMessage));
+        this.connectResolve = null;
+        this.connectReject = null;
+      } else if (this.canReattach()) {
+        // Keep the session: the proxy is holding the agent for us
+        this.scheduleReconnect();
+        return;
+      } else {
+        this.setState("disconnected");
+      }
+
+      this.sessionId = null;
+    };
+  }
+
+  // Build WebSocket URL with token if provided
+  private buildWsUrl(): string {
+    let wsUrl = this.settings.proxyUrl;
+    if (this.settings.token) {
+      const url = new URL(wsUrl);
+      url.searchParams.set("token", this.settings.token);
+      wsUrl = url.toString();
+    }
+    return wsUrl;
+  }
+
+  private canReattach(): boolean {
+    return this.attachToken !== null
+      && this.reconnectGraceMs > 0
+      && (this.connectionState === "connected" || this.connectionState === "reconnecting");
+  }
+
+  // Retry with exponential backoff until the proxy's grace period runs out
+  private scheduleReconnect(): void {
+    this.stopHeartbeat();
+    if (this.connectionState !== "reconnecting") {
+      this.reconnectDeadline = Date.now() + this.reconnectGraceMs;
+      this.reconnectAttempts = 0;
+      this.setState("reconnecting");
+    }
+
+    if (Date.now() >= this.reconnectDeadline) {
+      this.abandonReconnect("Connection lost and the agent session expired");
+      return;
+    }
+
+    const delay = Math.min(
+      ACPClient.RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+      ACPClient.RECONNECT_MAX_DELAY_MS,
+    );
+    this.reconnectAttempts++;
+    console.log(`[ACPClient] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      try {
+        this.openSocket("attach");
+      } catch (error) {
+        console.error("[ACPClient] Reconnect failed:", error);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private abandonReconnect(message: string): void {
+    console.warn("[ACPClient] Giving up reconnect:", message);
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+    this.attachToken = null;
+    this.sessionId = null;
+    this.setState("error", message);
+  }
+
+  private handleResponse(response: SequencedProxyResponse): void {
     console.log("[ACPClient] Received:", response.type);
 
+    // Skip replayed messages that were already handled before the reconnect
+    if (response.seq !== undefined) {
+      if (response.seq <= this.lastSeq) return;
+      this.lastSeq = response.seq;
+    }
+
     switch (response.type) {
       case "status":
         if (response.payload.connected) {
           // Reference: Zed stores full agentCapabilities from status message
           this._agentCapabilities = response.payload.capabilities ?? null;
+          this._agentName = response.payload.agent ?? null;
+          this.attachToken = response.payload.attachToken ?? null;
+          this.reconnectGraceMs = response.payload.reconnectGraceMs ?? 0;
           this.setState("connected");
           this.startHeartbeat();
           this.connectResolve?.();
         } else {
+          // The agent is gone, so there is nothing to reattach to
+          this.attachToken = null;
           this.stopHeartbeat();
           this.setState("disconnected");
         }
@@ -354,6 +572,68 @@ export class ACPClient {
         this.connectReject = null;
         break;
 
+      case "attached":
+        // Missed messages and pending permission requests follow this message
+        console.log("[ACPClient] Reattached to agent, session:", response.payload.sessionId);
+        if (response.payload.replayTruncated) {
+          console.warn("[ACPClient] Some updates were missed while disconnected");
+        }
+        this.sessionId = response.payload.sessionId;
+        this._agentCapabilities = response.payload.capabilities ?? this._agentCapabilities;
+        this._promptCapabilities = response.payload.promptCapabilities ?? this._promptCapabilities;
+        this._modelState = response.payload.models ?? null;
+        this.setModeState(response.payload.modes ?? null);
+        if (response.payload.sessionId && response.payload.availableCommands) {
+          this.availableCommandsBySession.set(response.payload.sessionId, response.payload.availableCommands);
+        }
+        this.notifyAvailableCommands();
+        this.reconnectGraceMs = response.payload.reconnectGraceMs ?? this.reconnectGraceMs;
+        this.reconnectAttempts = 0;
+        this.setState("connected");
+        this.startHeartbeat();
+        this.onModelStateChanged?.(this._modelState);
+        break;
+
+      case "attach_failed":
+        this.abandonReconnect(response.payload.message);
+        break;
+
+      case "agent_restarting":
+        console.warn("[ACPClient] Agent crashed, restart attempt", response.payload.attempt, "of", response.payload.maxAttempts);
+        // The running prompt died with the agent; recovery handlers report that
+        this.promptInFlight = false;
+        for (const handler of this.agentRecoveryHandlers) {
+          handler({ type: "restarting", ...response.payload });
+        }
+        break;
+
+      case "agent_log": {
+        const fresh = response.payload.entries.filter((entry) => entry.id > this.agentLogLastId);
+        if (fresh.length === 0) break;
+        this.agentLogLastId = fresh[fresh.length - 1]!.id;
+        this.agentLog = [...this.agentLog, ...fresh].slice(-ACPClient.MAX_AGENT_LOG_ENTRIES);
+        this.notifyAgentLog();
+        break;
+      }
+
+      case "agent_recovered":
+        console.log("[ACPClient] Agent recovered, session:", response.payload.sessionId, "restored:", response.payload.restored);
+        this.sessionId = response.payload.sessionId;
+        this._agentCapabilities = response.payload.capabilities ?? null;
+        this._promptCapabilities = response.payload.promptCapabilities ?? null;
+        this._modelState = response.payload.models ?? null;
+        this.onModelStateChanged?.(this._modelState);
+        this.setModeState(response.payload.modes ?? null);
+        this.notifyAvailableCommands();
+        for (const handler of this.agentRecoveryHandlers) {
+          handler({
+            type: "recovered",
+            sessionId: response.payload.sessionId,
+            restored: response.payload.restored,
+          });
+        }
+        break;
+
       case "error":
         console.error("[ACPClient] Error:", response.payload.message);
         this.pendingSessionTarget = null;
@@ -364,6 +644,8 @@ export class ACPClient {
         this.pendingSessionLoad = null;
         this.pendingSessionResume?.reject(new Error(response.payload.message));
         this.pendingSessionResume = null;
+        this.pendingSessionFork?.reject(new Error(response.payload.message));
+        this.pendingSessionFork = null;
         this.connectReject?.(new Error(response.payload.message));
         this.connectResolve = null;
         this.connectReject = null;
@@ -377,9 +659,11 @@ export class ACPClient {
         // Reference: Zed stores model state from NewSessionResponse.models
         this._modelState = response.payload.models ?? null;
         console.log("[ACPClient] Session created, promptCapabilities:", this._promptCapabilities, "models:", this._modelState);
-        this.onSessionCreated?.(response.payload.sessionId);
+        this.onSessionCreated?.(response.payload.sessionId, response.payload.cwd);
         // Notify model state subscribers (replaces polling in useModels)
         this.onModelStateChanged?.(this._modelState);
+        this.setModeState(response.payload.modes ?? null);
+        this.notifyAvailableCommands();
         break;
 
       // Session history responses - Reference: Zed's AgentSessionList
@@ -399,6 +683,8 @@ export class ACPClient {
         this.pendingSessionLoad = null;
         this.onSessionLoaded?.(response.payload.sessionId);
         this.onModelStateChanged?.(this._modelState);
+        this.setModeState(response.payload.modes ?? null);
+        this.notifyAvailableCommands();
         break;
 
       case "session_resumed":
@@ -411,16 +697,60 @@ export class ACPClient {
         this.pendingSessionResume = null;
         this.onSessionLoaded?.(response.payload.sessionId);
         this.onModelStateChanged?.(this._modelState);
+        this.setModeState(response.payload.modes ?? null);
+        this.notifyAvailableCommands();
         break;
 
-      case "session_update":
-        this.onSessionUpdate?.(response.payload.sessionId, response.payload.update);
+      case "session_forked": {
+        const { sessionId, parentSessionId, cwd } = response.payload;
+        // The proxy already switched to the child, so the UI switches with it
+        this.onSessionSwitching?.(sessionId);
+        this.sessionId = sessionId;
+        this.pendingSessionTarget = null;
+        this._promptCapabilities = response.payload.promptCapabilities ?? null;
+        this._modelState = response.payload.models ?? null;
+        console.log("[ACPClient] Session forked:", parentSessionId, "->", sessionId);
+        this.pendingSessionFork?.resolve(sessionId);
+        this.pendingSessionFork = null;
+        this.onSessionLoaded?.(sessionId);
+        this.onModelStateChanged?.(this._modelState);
+        this.setModeState(response.payload.modes ?? null);
+        this.notifyAvailableCommands();
+        for (const handler of this.sessionForkedHandlers) {
+          handler({ sessionId, parentSessionId, cwd });
+        }
         break;
+      }
+
+      case "session_update": {
+        const { sessionId, update } = response.payload;
+        // Reference: Zed's AcpThread updates the mode selector on CurrentModeUpdate
+        if (update.sessionUpdate === "current_mode_update" && sessionId === this.sessionId && this._modeState) {
+          this.setModeState({ ...this._modeState, currentModeId: update.currentModeId });
+        }
+        if (update.sessionUpdate === "available_commands_update") {
+          this.availableCommandsBySession.set(sessionId, update.availableCommands);
+          this.notifyAvailableCommands();
+        }
+        this.onSessionUpdate?.(sessionId, update);
+        break;
+      }
 
       case "prompt_complete":
+        this.promptInFlight = false;
         this.onPromptComplete?.(response.payload.stopReason);
         break;
 
+      case "prompt_error":
+        console.error("[ACPClient] Prompt failed:", response.payload.message);
+        // A prompt of a session we have since left is no concern of the thread shown
+        if (!this.promptInFlight || response.payload.sessionId !== this.sessionId) break;
+        this.promptInFlight = false;
+        for (const handler of this.promptErrorHandlers) {
+          handler(response.payload.message);
+        }
+        break;
+
       case "permission_request":
         console.log("[ACPClient] Permission request:", response.payload);
         this.onPermissionRequest?.(response.payload);
@@ -437,6 +767,12 @@ export class ACPClient {
         this.onModelChanged?.(response.payload.modelId);
         break;
 
+      case "mode_changed":
+        if (this._modeState) {
+          this.setModeState({ ...this._modeState, currentModeId: response.payload.modeId });
+        }
+        break;
+
       case "browser_tool_call":
         this.handleBrowserToolCall(response.callId, response.params);
         break;
@@ -471,12 +807,57 @@ export class ACPClient {
         break;
       }
 
+      case "file_search_results": {
+        const pending = this.pendingFileSearch.get(response.payload.requestId);
+        if (pending) {
+          pending.resolve(response.payload.results);
+          this.pendingFileSearch.delete(response.payload.requestId);
+        }
+        break;
+      }
+
+      case "session_search_results": {
+        const pending = this.pendingSessionSearch.get(response.payload.requestId);
+        if (pending) {
+          pending.resolve({ enabled: response.payload.enabled, results: response.payload.results });
+          this.pendingSessionSearch.delete(response.payload.requestId);
+        }
+        break;
+      }
+
       case "file_changes":
         for (const handler of this.fileChangesHandlers) {
           handler(response.payload.changes);
         }
         break;
 
+      case "terminal_created":
+        this.updateTerminal({
+          ...response.payload,
+          output: "",
+          truncated: false,
+          exitStatus: null,
+        });
+        break;
+
+      case "terminal_output": {
+        const terminal = this.getOrCreateTerminal(response.payload.terminalId);
+        let output = terminal.output + response.payload.data;
+        let truncated = terminal.truncated;
+        if (output.length > ACPClient.MAX_TERMINAL_OUTPUT_CHARS) {
+          output = output.slice(-ACPClient.MAX_TERMINAL_OUTPUT_CHARS);
+          truncated = true;
+        }
+        this.updateTerminal({ ...terminal, output, truncated });
+        break;
+      }
+
+      case "terminal_exited": {
+        const terminal = this.getOrCreateTerminal(response.payload.terminalId);
+        this.updateTerminal({ ...terminal, exitStatus: response.payload.exitStatus });
+        break;
+      }
+
       case "pong":
         this.missedPongs = 0;
         if (this.heartbeatTimeout) {
@@ -487,6 +868,26 @@ export class ACPClient {
     }
   }
 
+  private getOrCreateTerminal(terminalId: string): TerminalState {
+    return this.terminals.get(terminalId) ?? {
+      terminalId,
+      sessionId: this.sessionId ?? "",
+      command: "",
+      args: [],
+      cwd: null,
+      output: "",
+      truncated: false,
+      exitStatus: null,
+    };
+  }
+
+  private updateTerminal(terminal: TerminalState): void {
+    this.terminals.set(terminal.terminalId, terminal);
+    for (const handler of this.terminalHandlers) {
+      handler(terminal);
+    }
+  }
+
   private async handleBrowserToolCall(
     callId: string,
     params: BrowserToolParams,
@@ -579,6 +980,7 @@ export class ACPClient {
       ? [{ type: "text", text: content }]
       : content;
 
+    this.promptInFlight = true;
     this.send({ type: "prompt", payload: { content: contentBlocks } });
   }
 
@@ -597,6 +999,49 @@ export class ACPClient {
     this.send({ type: "set_session_model", payload: { modelId } });
   }
 
+  async setSessionMode(modeId: string): Promise<void> {
+    if (!this.sessionId) {
+      throw new Error("No active session");
+    }
+    this.send({ type: "set_session_mode", payload: { modeId } });
+  }
+
+  /**
+   * Subscribe to mode state changes.
+   * @returns Unsubscribe function
+   */
+  onModeStateChange(handler: ModeStateChangedHandler): () => void {
+    this.modeStateHandlers.add(handler);
+    return () => {
+      this.modeStateHandlers.delete(handler);
+    };
+  }
+
+  private setModeState(state: SessionModeState | null): void {
+    this._modeState = state;
+    for (const handler of this.modeStateHandlers) {
+      handler(state);
+    }
+  }
+
+  /**
+   * Subscribe to slash command changes for the active session.
+   * @returns Unsubscribe function
+   */
+  onAvailableCommandsChange(handler: AvailableCommandsHandler): () => void {
+    this.availableCommandsHandlers.add(handler);
+    return () => {
+      this.availableCommandsHandlers.delete(handler);
+    };
+  }
+
+  private notifyAvailableCommands(): void {
+    const commands = this.availableCommands;
+    for (const handler of this.availableCommandsHandlers) {
+      handler(commands);
+    }
+  }
+
   respondToPermission(requestId: string, optionId: string | null): void {
     const outcome = optionId
       ? { outcome: "selected" as const, optionId }
@@ -608,6 +1053,55 @@ export class ACPClient {
     });
   }
 
+  // ============================================================================
+  // Agent Profiles
+  // ============================================================================
+
+  /**
+   * List the agent profiles the proxy can start.
+   * Uses a short-lived socket so the picker works before connecting.
+   */
+  listAgents(): Promise<ListAgentsResponse> {
+    return new Promise((resolve, reject) => {
+      let ws: WebSocket;
+      try {
+        ws = new WebSocket(this.buildWsUrl());
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const timeout = setTimeout(() => {
+        ws.close();
+        reject(new Error("List agents timed out"));
+      }, ACPClient.LIST_AGENTS_TIMEOUT_MS);
+
+      ws.onopen = () => {
+        const message: ProxyMessage = { type: "list_agents" };
+        ws.send(JSON.stringify(message));
+      };
+
+      ws.onmessage = (event) => {
+        try {
+          const response: SequencedProxyResponse = JSON.parse(event.data);
+          if (response.type === "agent_list") {
+            clearTimeout(timeout);
+            resolve(response.payload);
+            ws.close();
+          }
+        } catch (error) {
+          console.error("[ACPClient] Failed to parse message:", error);
+        }
+      };
+
+      // Settles only if agent_list never arrived (e.g. auth failure)
+      ws.onclose = (event) => {
+        clearTimeout(timeout);
+        reject(new Error(event.reason || `Connection closed (code: ${event.code})`));
+      };
+    });
+  }
+
   // ============================================================================
   // Session History Methods
   // Reference: Zed's AgentSessionList trait and AgentConnection methods
@@ -715,6 +1209,47 @@ export class ACPClient {
     });
   }
 
+  /**
+   * Fork a session into a new one and switch to it.
+   * The child starts with the parent's history; it isn't replayed, so load
+   * the child afterwards to show it.
+   * @throws Error if agent doesn't support forking
+   */
+  async forkSession(request: ForkSessionRequest): Promise<string> {
+    if (!this.supportsForkSession) {
+      throw new Error("Forking sessions is not supported by this agent");
+    }
+    return new Promise((resolve, reject) => {
+      this.pendingSessionFork = { resolve, reject };
+      try {
+        this.send({ type: "fork_session", payload: request });
+      } catch (err) {
+        this.pendingSessionFork = null;
+        reject(err);
+        return;
+      }
+      // Timeout after 30 seconds
+      setTimeout(() => {
+        if (this.pendingSessionFork) {
+          const pending = this.pendingSessionFork;
+          this.pendingSessionFork = null;
+          pending.reject(new Error("Fork session timed out"));
+        }
+      }, 30000);
+    });
+  }
+
+  /**
+   * Subscribe to session forks, whichever part of the UI started them.
+   * @returns Unsubscribe function
+   */
+  onSessionForked(handler: SessionForkedHandler): () => void {
+    this.sessionForkedHandlers.add(handler);
+    return () => {
+      this.sessionForkedHandlers.delete(handler);
+    };
+  }
+
   // ============================================================================
   // File Explorer Methods
   // ============================================================================
@@ -775,6 +1310,56 @@ export class ACPClient {
     });
   }
 
+  /**
+   * Fuzzy-search files in the session workspace (for @-mentions).
+   * Results are ranked best match first.
+   */
+  async searchFiles(query: string): Promise<FileSearchResult[]> {
+    const requestId = ++this.requestIdCounter;
+    return new Promise((resolve, reject) => {
+      this.pendingFileSearch.set(requestId, { resolve, reject });
+      try {
+        this.send({ type: "search_files", payload: { query, requestId } });
+      } catch (err) {
+        this.pendingFileSearch.delete(requestId);
+        reject(err);
+        return;
+      }
+      // Timeout after 10 seconds
+      setTimeout(() => {
+        if (this.pendingFileSearch.has(requestId)) {
+          this.pendingFileSearch.delete(requestId);
+          reject(new Error("File search timed out"));
+        }
+      }, 10000);
+    });
+  }
+
+  /**
+   * Full-text search over the transcripts the proxy has indexed for this agent.
+   * `enabled` is false when the proxy doesn't keep an index.
+   */
+  async searchSessions(query: string): Promise<{ enabled: boolean; results: SessionSearchResult[] }> {
+    const requestId = ++this.requestIdCounter;
+    return new Promise((resolve, reject) => {
+      this.pendingSessionSearch.set(requestId, { resolve, reject });
+      try {
+        this.send({ type: "search_sessions", payload: { query, requestId } });
+      } catch (err) {
+        this.pendingSessionSearch.delete(requestId);
+        reject(err);
+        return;
+      }
+      // Timeout after 10 seconds
+      setTimeout(() => {
+        if (this.pendingSessionSearch.has(requestId)) {
+          this.pendingSessionSearch.delete(requestId);
+          reject(new Error("Thread search timed out"));
+        }
+      }, 10000);
+    });
+  }
+
   /**
    * Subscribe to file change events.
    * @returns Unsubscribe function
@@ -786,9 +1371,90 @@ export class ACPClient {
     };
   }
 
+  // ============================================================================
+  // Terminal Methods
+  // ============================================================================
+
+  /**
+   * Get the latest known state of a terminal, if the proxy has reported it.
+   */
+  getTerminal(terminalId: string): TerminalState | null {
+    return this.terminals.get(terminalId) ?? null;
+  }
+
+  /**
+   * Subscribe to terminal output and exit events.
+   * @returns Unsubscribe function
+   */
+  onTerminalUpdate(handler: TerminalUpdateHandler): () => void {
+    this.terminalHandlers.add(handler);
+    return () => {
+      this.terminalHandlers.delete(handler);
+    };
+  }
+
+  // ============================================================================
+  // Crash Recovery
+  // ============================================================================
+
+  /**
+   * Subscribe to agent crash recovery events (proxy started with --auto-restart).
+   * @returns Unsubscribe function
+   */
+  onAgentRecovery(handler: AgentRecoveryHandler): () => void {
+    this.agentRecoveryHandlers.add(handler);
+    return () => {
+      this.agentRecoveryHandlers.delete(handler);
+    };
+  }
+
+  // ============================================================================
+  // Agent Console
+  // ============================================================================
+
+  /**
+   * Lines in the agent console, oldest first.
+   */
+  getAgentLog(): AgentLogEntry[] {
+    return this.agentLog;
+  }
+
+  /**
+   * Clear the agent console view (the proxy keeps its own buffer).
+   */
+  clearAgentLog(): void {
+    this.agentLog = [];
+    this.notifyAgentLog();
+  }
+
+  /**
+   * Subscribe to agent console updates.
+   * @returns Unsubscribe function
+   */
+  onAgentLog(handler: AgentLogHandler): () => void {
+    this.agentLogHandlers.add(handler);
+    return () => {
+      this.agentLogHandlers.delete(handler);
+    };
+  }
+
+  private notifyAgentLog(): void {
+    for (const handler of this.agentLogHandlers) {
+      handler(this.agentLog);
+    }
+  }
+
   disconnect(): void {
     this.stopHeartbeat();
 
+    // An explicit disconnect ends the agent session; don't try to reattach
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.attachToken = null;
+    this.lastSeq = 0;
+
     // Reject any pending connect promise with a distinguishable error
     // This ensures the promise settles and callers can catch/ignore it
     if (this.connectReject) {
@@ -811,6 +1477,7 @@ export class ACPClient {
     this.pendingSessionTarget = null;
     this._modelState = null;
     this._agentCapabilities = null;
+    this._agentName = null;
     // Notify model state subscribers that session is gone
     this.onModelStateChanged?.(null);
 
@@ -822,6 +1489,12 @@ export class ACPClient {
     for (const { reject } of this.pendingFileRead.values()) {
       reject(disconnectError);
     }
+    for (const { reject } of this.pendingFileSearch.values()) {
+      reject(disconnectError);
+    }
+    for (const { reject } of this.pendingSessionSearch.values()) {
+      reject(disconnectError);
+    }
     // Reject pending session operations
     this.pendingSessionList?.reject(disconnectError);
     this.pendingSessionList = null;
@@ -829,9 +1502,14 @@ export class ACPClient {
     this.pendingSessionLoad = null;
     this.pendingSessionResume?.reject(disconnectError);
     this.pendingSessionResume = null;
+    this.pendingSessionFork?.reject(disconnectError);
+    this.pendingSessionFork = null;
 
     this.pendingDirListing.clear();
     this.pendingFileRead.clear();
+    this.pendingFileSearch.clear();
+    this.pendingSessionSearch.clear();
+    this.terminals.clear();
     this.dirListingRequestIds.clear();
     this.fileReadRequestIds.clear();
   }
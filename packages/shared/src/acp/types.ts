@@ -38,11 +38,46 @@ export interface PermissionResponsePayload {
 // ============================================================================
 
 export interface BrowserToolParams {
-  action: "tabs" | "read" | "execute";
-  tabId?: number;   // Required for read/execute
+  action:
+    | "tabs"
+    | "read"
+    | "execute"
+    | "screenshot"
+    | "snapshot"
+    | "wait_for"
+    | BrowserInteractionAction
+    | BrowserTabAction;
+  tabId?: number;   // Required for every action but tabs
   script?: string;  // Required for execute
+  // screenshot: the whole page instead of the viewport, or one element
+  fullPage?: boolean;
+  selector?: string; // Also targets interactions (when no ref is given) and wait_for
+  format?: BrowserScreenshotFormat;
+  quality?: number; // JPEG quality, 1-100
+  // Interactions: element ref from browser_snapshot (e.g. "e12")
+  ref?: string;
+  text?: string;      // type, wait_for
+  clear?: boolean;    // type: replace the field's content (default true)
+  submit?: boolean;   // type: press Enter afterwards
+  values?: string[];  // select_option: option values or labels
+  key?: string;       // press_key, e.g. "Enter" or "Control+A"
+  button?: "left" | "right" | "middle"; // click
+  doubleClick?: boolean; // click
+  // Tab actions
+  url?: string;          // navigate: opens a new tab when no tabId is given; wait_for: URL pattern
+  bypassCache?: boolean; // reload
+  timeout?: number;      // ms to wait for the page to load, or for wait_for's conditions
+  // wait_for: selector/text to go away instead of appear, and no network activity
+  gone?: boolean;
+  networkIdle?: boolean;
 }
 
+export type BrowserInteractionAction = "click" | "type" | "select_option" | "hover" | "press_key";
+
+export type BrowserTabAction = "navigate" | "go_back" | "go_forward" | "reload" | "close_tab" | "activate_tab";
+
+export type BrowserScreenshotFormat = "png" | "jpeg";
+
 export interface BrowserTabInfo {
   id: number;
   url: string;
@@ -78,15 +113,106 @@ export interface BrowserExecuteResult {
   error?: string;
 }
 
+export interface BrowserScreenshotResult {
+  action: "screenshot";
+  tabId: number;
+  url: string;
+  title: string;
+  mode: "viewport" | "full_page" | "element";
+  data: string; // Base64, without the data: URL prefix
+  mimeType: "image/png" | "image/jpeg";
+  width: number;
+  height: number;
+  scale: number; // Image pixels per CSS pixel
+  // Only the top of the page (or the visible part of the element) was captured
+  truncated: boolean;
+}
+
+export interface BrowserSnapshotResult {
+  action: "snapshot";
+  tabId: number;
+  url: string;
+  title: string;
+  // Accessibility tree as YAML-like lines; interactive nodes carry [ref=eN]
+  snapshot: string;
+  refCount: number;
+  // The page had more nodes than the snapshot limit
+  truncated: boolean;
+}
+
+// What changed on the page during an interaction
+export interface BrowserPageDelta {
+  navigated: boolean; // A new document loaded (the URL alone may change without one)
+  urlChanged: boolean;
+  titleChanged: boolean;
+  // Accessibility snapshot lines (without indentation) that appeared or went away
+  added: string[];
+  removed: string[];
+  // More changed lines than listed
+  omitted: number;
+  // After a navigation, the new page's full snapshot instead of added/removed
+  snapshot?: string;
+  // Still loading when the wait for the page ran out
+  loading: boolean;
+}
+
+export interface BrowserInteractionResult {
+  action: BrowserInteractionAction;
+  tabId: number;
+  url: string;
+  title: string;
+  // The element acted on, e.g. `button "Save" [ref=e12]`
+  target: string;
+  // Extra detail, e.g. the options that got selected
+  detail?: string;
+  delta: BrowserPageDelta;
+}
+
+export interface BrowserTabActionResult {
+  action: BrowserTabAction;
+  tabId: number;
+  // The page the tab ended up on (for close_tab, the page it had)
+  url: string;
+  title: string;
+  // Still loading when the wait ran out
+  timedOut: boolean;
+}
+
+export interface BrowserWaitForResult {
+  action: "wait_for";
+  tabId: number;
+  url: string;
+  title: string;
+  // False when the wait timed out
+  satisfied: boolean;
+  elapsedMs: number;
+  // Conditions still unmet when the wait timed out
+  pending: string[];
+}
+
 export type BrowserToolResult =
   | BrowserTabsResult
   | BrowserReadResult
-  | BrowserExecuteResult;
+  | BrowserExecuteResult
+  | BrowserScreenshotResult
+  | BrowserSnapshotResult
+  | BrowserInteractionResult
+  | BrowserTabActionResult
+  | BrowserWaitForResult;
+
+// Capabilities this client declares to the proxy on connect
+// The proxy only routes browser tool calls to clients that can run them
+export interface ProxyClientCapabilities {
+  browserTools?: boolean;
+}
 
 // Messages sent TO the proxy server
 // Reference: Zed's MessageEditor.contents() builds Vec<acp::ContentBlock>
 export type ProxyMessage =
-  | { type: "connect" }
+  | { type: "connect"; payload: { clientCapabilities: ProxyClientCapabilities; agent?: string } }
+  | { type: "list_agents" }
+  // Reattach to a still-running agent after the socket dropped
+  | { type: "attach"; payload: { attachToken: string; lastSeq: number } }
   | { type: "disconnect" }
   | { type: "new_session"; payload?: { cwd?: string } }
   | { type: "prompt"; payload: { content: ContentBlock[] } }  // Changed from { text: string } to match Zed
@@ -94,13 +220,19 @@ export type ProxyMessage =
   | { type: "permission_response"; payload: PermissionResponsePayload }
   | { type: "browser_tool_result"; callId: string; result: BrowserToolResult | { error: string } }
   | { type: "set_session_model"; payload: { modelId: string } }
+  | { type: "set_session_mode"; payload: { modeId: string } }
   // Session history operations - Reference: Zed's AgentSessionList trait
   | { type: "list_sessions"; payload?: ListSessionsRequest }
   | { type: "load_session"; payload: LoadSessionRequest }
   | { type: "resume_session"; payload: ResumeSessionRequest }
+  | { type: "fork_session"; payload: ForkSessionRequest }
+  // Full-text search over the proxy's transcript index; requestId is echoed in the results
+  | { type: "search_sessions"; payload: { query: string; requestId: number } }
   // File explorer messages
   | { type: "list_dir"; payload: { path: string } }
   | { type: "read_file"; payload: { path: string } }
+  // Fuzzy file search for @-mentions; requestId is echoed in the results
+  | { type: "search_files"; payload: { query: string; requestId: number } }
   // Heartbeat
   | { type: "ping" };
 
@@ -110,12 +242,120 @@ export interface ProxyStatusMessage {
   type: "status";
   payload: {
     connected: boolean;
+    /** Name of the agent profile that was started */
+    agent?: string;
     agentInfo?: { name?: string; version?: string };
     /** Full agent capabilities from initialize response */
     capabilities?: AgentCapabilities;
+    /** Token for reattaching to this agent if the socket drops */
+    attachToken?: string;
+    /** How long the proxy keeps the agent alive after the socket drops */
+    reconnectGraceMs?: number;
   };
 }
 
+/**
+ * Response to a successful attach. Missed messages follow in order,
+ * then any permission requests that are still pending.
+ */
+export interface ProxyAttachedMessage {
+  type: "attached";
+  payload: {
+    sessionId: string | null;
+    capabilities?: AgentCapabilities | null;
+    promptCapabilities?: PromptCapabilities | null;
+    models?: SessionModelState | null;
+    modes?: SessionModeState | null;
+    /** Slash commands last announced for the session */
+    availableCommands?: AvailableCommand[];
+    reconnectGraceMs?: number;
+    /** True if some missed messages were no longer buffered */
+    replayTruncated?: boolean;
+  };
+}
+
+export interface ProxyAttachFailedMessage {
+  type: "attach_failed";
+  payload: { message: string };
+}
+
+/**
+ * The agent crashed and the proxy will restart it (--auto-restart).
+ * Sent again for each attempt until the agent is back or the proxy gives up.
+ */
+export interface ProxyAgentRestartingMessage {
+  type: "agent_restarting";
+  payload: {
+    attempt: number;
+    maxAttempts: number;
+    /** Delay before this restart attempt */
+    delayMs: number;
+  };
+}
+
+/**
+ * The agent was restarted after a crash. `sessionId` is the previous
+ * session if it was re-opened, or null if a new session is needed.
+ */
+export interface ProxyAgentRecoveredMessage {
+  type: "agent_recovered";
+  payload: {
+    agent: string;
+    agentInfo?: { name?: string; version?: string };
+    capabilities?: AgentCapabilities | null;
+    sessionId: string | null;
+    /** How the session was re-opened (resume is preferred, it doesn't replay history) */
+    restored: "resumed" | "loaded" | null;
+    promptCapabilities?: PromptCapabilities | null;
+    models?: SessionModelState | null;
+    modes?: SessionModeState | null;
+  };
+}
+
+/**
+ * A line in the agent console: agent stderr, or a proxy warning/error.
+ */
+export interface AgentLogEntry {
+  /** Increasing per connection; replayed lines the client already has are skipped */
+  id: number;
+  /** ISO timestamp */
+  time: string;
+  source: "stderr" | "proxy";
+  level: "info" | "warn" | "error";
+  text: string;
+}
+
+export interface ProxyAgentLogMessage {
+  type: "agent_log";
+  payload: { entries: AgentLogEntry[] };
+}
+
+/**
+ * Crash recovery progress, as seen by the UI.
+ */
+export type AgentRecoveryEvent =
+  | ({ type: "restarting" } & ProxyAgentRestartingMessage["payload"])
+  | { type: "recovered"; sessionId: string | null; restored: "resumed" | "loaded" | null };
+
+// An agent profile defined in the proxy's config (env is never sent)
+export interface AgentProfileInfo {
+  name: string;
+  command: string;
+  args: string[];
+  cwd: string;
+}
+
+export interface ListAgentsResponse {
+  agents: AgentProfileInfo[];
+  /** Profile the proxy starts when connect names none */
+  defaultAgent: string;
+}
+
+export interface ProxyAgentListMessage {
+  type: "agent_list";
+  payload: ListAgentsResponse;
+}
+
 export interface ProxyErrorMessage {
   type: "error";
   payload: { message: string };
@@ -126,8 +366,10 @@ export interface ProxySessionCreatedMessage {
   type: "session_created";
   payload: {
     sessionId: string;
+    cwd?: string;  // Working directory the session was created in
     promptCapabilities?: PromptCapabilities;  // From agent's initialize response
     models?: SessionModelState | null;  // Model state if agent supports model selection
+    modes?: SessionModeState | null;
   };
 }
 
@@ -144,6 +386,12 @@ export interface ProxyPromptCompleteMessage {
   payload: { stopReason: string };
 }
 
+// Sent instead of prompt_complete when the prompt failed
+export interface ProxyPromptErrorMessage {
+  type: "prompt_error";
+  payload: { sessionId: string; message: string };
+}
+
 export interface ProxyPermissionRequestMessage {
   type: "permission_request";
   payload: PermissionRequestPayload;
@@ -166,6 +414,13 @@ export interface ProxyModelChangedMessage {
   };
 }
 
+export interface ProxyModeChangedMessage {
+  type: "mode_changed";
+  payload: {
+    modeId: string;
+  };
+}
+
 // ============================================================================
 // File Explorer Types
 // ============================================================================
@@ -212,6 +467,47 @@ export interface ProxyFileContentMessage {
   payload: FileContent;
 }
 
+// A file matching an @-mention search
+export interface FileSearchResult {
+  name: string;
+  path: string; // relative path from agent CWD
+  uri: string; // file:// URI of the absolute path
+}
+
+export interface ProxyFileSearchResultsMessage {
+  type: "file_search_results";
+  payload: {
+    requestId: number;
+    query: string;
+    results: FileSearchResult[];
+  };
+}
+
+// A message matching a thread history search
+export interface SessionSearchResult {
+  sessionId: string;
+  agent: string; // agent profile that owns the session
+  cwd: string;
+  title: string; // first prompt of the thread
+  updatedAt: string; // ISO 8601
+  kind: "user" | "agent" | "tool";
+  turn: number; // index of the user prompt the message belongs to (-1 before the first)
+  toolCallId?: string;
+  snippet: string;
+  score: number;
+}
+
+export interface ProxySessionSearchResultsMessage {
+  type: "session_search_results";
+  payload: {
+    requestId: number;
+    query: string;
+    // false when the proxy runs with --no-history-index
+    enabled: boolean;
+    results: SessionSearchResult[];
+  };
+}
+
 export interface ProxyFileChangesMessage {
   type: "file_changes";
   payload: {
@@ -219,6 +515,60 @@ export interface ProxyFileChangesMessage {
   };
 }
 
+// ============================================================================
+// Terminal Types
+// Reference: ACP terminals - the proxy runs commands for the agent and
+// streams their output so ToolCallTerminalContent can render live.
+// ============================================================================
+
+export interface TerminalExitStatus {
+  exitCode: number | null;
+  signal: string | null;
+}
+
+/**
+ * Client-side view of a terminal, assembled from terminal_* messages.
+ */
+export interface TerminalState {
+  terminalId: string;
+  sessionId: string;
+  command: string;
+  args: string[];
+  cwd: string | null;
+  output: string;
+  /** True if older output was dropped to keep the view bounded */
+  truncated: boolean;
+  /** Null while the command is still running */
+  exitStatus: TerminalExitStatus | null;
+}
+
+export interface ProxyTerminalCreatedMessage {
+  type: "terminal_created";
+  payload: {
+    sessionId: string;
+    terminalId: string;
+    command: string;
+    args: string[];
+    cwd: string | null;
+  };
+}
+
+export interface ProxyTerminalOutputMessage {
+  type: "terminal_output";
+  payload: {
+    terminalId: string;
+    data: string; // Output appended since the previous message
+  };
+}
+
+export interface ProxyTerminalExitedMessage {
+  type: "terminal_exited";
+  payload: {
+    terminalId: string;
+    exitStatus: TerminalExitStatus;
+  };
+}
+
 // ============================================================================
 // Session History Response Types
 // Reference: Zed's AgentSessionList in acp_thread/src/connection.rs
@@ -243,6 +593,7 @@ export interface ProxySessionLoadedMessage {
     sessionId: string;
     promptCapabilities?: PromptCapabilities;
     models?: SessionModelState | null;
+    modes?: SessionModeState | null;
   };
 }
 
@@ -256,26 +607,63 @@ export interface ProxySessionResumedMessage {
     sessionId: string;
     promptCapabilities?: PromptCapabilities;
     models?: SessionModelState | null;
+    modes?: SessionModeState | null;
+  };
+}
+
+/**
+ * Response when a session is forked. The proxy switches to the child session,
+ * which starts with the parent's history but no replay.
+ * Reference: SDK's ForkSessionResponse
+ */
+export interface ProxySessionForkedMessage {
+  type: "session_forked";
+  payload: {
+    sessionId: string;
+    parentSessionId: string;
+    /** Working directory of the new session */
+    cwd: string;
+    promptCapabilities?: PromptCapabilities;
+    models?: SessionModelState | null;
+    modes?: SessionModeState | null;
   };
 }
 
 export type ProxyResponse =
   | ProxyStatusMessage
+  | ProxyAttachedMessage
+  | ProxyAttachFailedMessage
+  | ProxyAgentRestartingMessage
+  | ProxyAgentRecoveredMessage
+  | ProxyAgentLogMessage
+  | ProxyAgentListMessage
   | ProxyErrorMessage
   | ProxySessionCreatedMessage
   | ProxySessionUpdateMessage
   | ProxyPromptCompleteMessage
+  | ProxyPromptErrorMessage
   | ProxyPermissionRequestMessage
   | ProxyBrowserToolCallMessage
   | ProxyModelChangedMessage
+  | ProxyModeChangedMessage
   | ProxyPongMessage
   | ProxyDirListingMessage
   | ProxyFileContentMessage
+  | ProxyFileSearchResultsMessage
   | ProxyFileChangesMessage
+  | ProxyTerminalCreatedMessage
+  | ProxyTerminalOutputMessage
+  | ProxyTerminalExitedMessage
   // Session history responses
   | ProxySessionListMessage
   | ProxySessionLoadedMessage
-  | ProxySessionResumedMessage;
+  | ProxySessionResumedMessage
+  | ProxySessionForkedMessage
+  | ProxySessionSearchResultsMessage;
+
+// Replayable messages carry a sequence number so a reattaching client
+// can tell the proxy which ones it already has
+export type SequencedProxyResponse = ProxyResponse & { seq?: number };
 
 // Content block types (matches @agentclientprotocol/sdk ContentBlock)
 // Reference: Zed's acp::ContentBlock in agent-client-protocol crate
@@ -291,6 +679,12 @@ export interface ImageContent {
   uri?: string;      // optional URI for the image source
 }
 
+export interface AudioContent {
+  type: "audio";
+  mimeType: string;
+  data: string;      // base64 encoded audio data
+}
+
 export interface ResourceLinkContent {
   type: "resource_link";
   uri: string;
@@ -301,7 +695,21 @@ export interface ResourceLinkContent {
   size?: number;
 }
 
-export type ContentBlock = TextContent | ImageContent | ResourceLinkContent | { type: string; text?: string };
+// Reference: Zed embeds mentioned files when prompt_capabilities.embedded_context is set
+export interface EmbeddedResourceContent {
+  type: "resource";
+  resource:
+    | { uri: string; text: string; mimeType?: string }
+    | { uri: string; blob: string; mimeType?: string };
+}
+
+export type ContentBlock =
+  | TextContent
+  | ImageContent
+  | AudioContent
+  | ResourceLinkContent
+  | EmbeddedResourceContent
+  | { type: string; text?: string };
 
 // Session update types from ACP
 export interface AgentMessageChunkUpdate {
@@ -354,8 +762,32 @@ export interface AgentThoughtChunkUpdate {
   content: ContentBlock;
 }
 
+export type PlanEntryPriority = "high" | "medium" | "low";
+export type PlanEntryStatus = "pending" | "in_progress" | "completed";
+
+// A task in the agent's execution plan
+export interface PlanEntry {
+  content: string;
+  priority: PlanEntryPriority;
+  status: PlanEntryStatus;
+}
+
+// Reference: Zed's AcpThread replaces the whole plan on each update
 export interface PlanUpdate {
   sessionUpdate: "plan";
+  entries: PlanEntry[];
+}
+
+// Reference: Zed's AcpThread handles AvailableCommandsUpdate for the slash command menu
+export interface AvailableCommandsUpdate {
+  sessionUpdate: "available_commands_update";
+  availableCommands: AvailableCommand[];
+}
+
+// Reference: Zed's AcpThread handles CurrentModeUpdate from the agent
+export interface CurrentModeUpdate {
+  sessionUpdate: "current_mode_update";
+  currentModeId: string;
 }
 
 export interface UserMessageChunkUpdate {
@@ -369,6 +801,8 @@ export type SessionUpdate =
   | ToolCallStatusUpdate
   | AgentThoughtChunkUpdate
   | PlanUpdate
+  | AvailableCommandsUpdate
+  | CurrentModeUpdate
   | UserMessageChunkUpdate;
 
 // Connection state
@@ -376,6 +810,8 @@ export type ConnectionState =
   | "disconnected"
   | "connecting"
   | "connected"
+  // Socket dropped; trying to reattach to the still-running agent
+  | "reconnecting"
   | "error";
 
 // PromptCapabilities from ACP protocol
@@ -474,7 +910,7 @@ export interface AgentCapabilities {
 }
 
 // ============================================================================
-// Session List/Load/Resume Types
+// Session List/Load/Resume/Fork Types
 // Reference: Zed's AgentSessionInfo, AgentSessionList in acp_thread/src/connection.rs
 // SDK types: @agentclientprotocol/sdk SessionInfo, ListSessionsResponse
 // ============================================================================
@@ -551,6 +987,19 @@ export interface ResumeSessionRequest {
   cwd?: string;
 }
 
+/**
+ * Request to fork an existing session into a new one.
+ * Reference: acp::ForkSessionRequest
+ */
+export interface ForkSessionRequest {
+  /** Reserved for extensibility */
+  _meta?: Record<string, unknown> | null;
+  /** Session ID to fork */
+  sessionId: string;
+  /** Working directory for the new session */
+  cwd?: string;
+}
+
 // ============================================================================
 // Model Selection Types (matches @agentclientprotocol/sdk)
 // Reference: Zed's AgentModelSelector trait in acp_thread/src/connection.rs
@@ -580,6 +1029,48 @@ export interface SessionModelState {
   currentModelId: string;
 }
 
+// ============================================================================
+// Session Mode Types (matches @agentclientprotocol/sdk)
+// Reference: Zed's ModeSelector in agent_ui
+// ============================================================================
+
+/**
+ * A mode the agent can operate in (e.g. Claude Code's plan / accept edits).
+ * Matches ACP SDK's SessionMode type.
+ */
+export interface SessionMode {
+  id: string;
+  name: string;
+  description?: string | null;
+}
+
+/**
+ * The set of modes and the one currently active.
+ * Matches ACP SDK's SessionModeState type.
+ */
+export interface SessionModeState {
+  /** The set of modes that the Agent can operate in */
+  availableModes: SessionMode[];
+  /** The current mode the Agent is in */
+  currentModeId: string;
+}
+
+// ============================================================================
+// Slash Command Types (matches @agentclientprotocol/sdk)
+// ============================================================================
+
+/**
+ * A slash command the agent accepts (e.g. Claude Code's /review).
+ * Invoked by sending a prompt whose text starts with `/name`.
+ * Matches ACP SDK's AvailableCommand type.
+ */
+export interface AvailableCommand {
+  name: string;
+  description: string;
+  /** Set when the command takes free-form input after its name */
+  input?: { hint: string } | null;
+}
+
 // Settings
 export interface ACPSettings {
   proxyUrl: string;
@@ -587,6 +1078,8 @@ export interface ACPSettings {
   token?: string;
   /** Working directory for the agent session */
   cwd?: string;
+  /** Agent profile to start (the proxy's default when unset) */
+  agent?: string;
 }
 
 export const DEFAULT_SETTINGS: ACPSettings = {
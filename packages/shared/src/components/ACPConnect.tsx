@@ -4,14 +4,15 @@ import { Button } from "./ui/button";
 import { StatusDot } from "./ui/connection-status";
 import { ThemeToggle } from "./ui/theme-toggle";
 import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import {
   InputGroup,
   InputGroupAddon,
   InputGroupInput,
 } from "./ui/input-group";
 import { ACPClient, DEFAULT_SETTINGS, DisconnectRequestedError } from "../acp";
-import type { ACPSettings, ConnectionState, BrowserToolParams, BrowserToolResult } from "../acp";
-import { ChevronDown, FolderOpen, Globe, Image, KeyRound, ScanLine, X } from "lucide-react";
+import type { ACPSettings, ConnectionState, BrowserToolParams, BrowserToolResult, ListAgentsResponse } from "../acp";
+import { Bot, ChevronDown, FolderOpen, Globe, Image, KeyRound, ScanLine, X } from "lucide-react";
 import { useQRScanner, type QRCodeData } from "../hooks";
 
 // Get token from URL query param (for pre-filled URLs from server)
@@ -91,6 +92,8 @@ export function ACPConnect({
   const [error, setError] = useState<string | null>(null);
   const [isShaking, setIsShaking] = useState(false);
   const [client, setClient] = useState<ACPClient | null>(null);
+  // Agent profiles offered by the proxy (picker is shown when there is more than one)
+  const [agentList, setAgentList] = useState<ListAgentsResponse | null>(null);
   const [maxHeight, setMaxHeight] = useState<number>(200);
   const contentRef = useRef<HTMLDivElement>(null);
   const hasAutoCollapsedRef = useRef(false);
@@ -124,7 +127,7 @@ export function ACPConnect({
     if (expanded && contentRef.current) {
       setMaxHeight(contentRef.current.scrollHeight);
     }
-  }, [expanded, isScanning]);
+  }, [expanded, isScanning, agentList]);
 
   // File input ref for album scanning
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -192,10 +195,36 @@ export function ACPConnect({
     }
   }, [settings, client, onExpandedChange]);
 
+  // Fetch agent profiles for the picker while not connected
+  // Debounced so editing the URL or token doesn't open a socket per keystroke
+  useEffect(() => {
+    if (!client || !expanded || (connectionState !== "disconnected" && connectionState !== "error")) {
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      client
+        .listAgents()
+        .then((result) => {
+          if (!cancelled) setAgentList(result);
+        })
+        .catch(() => {
+          // Proxy unreachable or token wrong - connect will report the real error
+          if (!cancelled) setAgentList(null);
+        });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [client, expanded, connectionState, settings.proxyUrl, settings.token]);
+
   // Notify parent when client is ready and auto-collapse on connect
   useEffect(() => {
     const isConnected = connectionState === "connected";
-    onClientReady?.(isConnected ? client : null);
+    // Keep the client mounted while reattaching so the chat survives a dropped socket
+    const isReattaching = connectionState === "reconnecting";
+    onClientReady?.(isConnected || isReattaching ? client : null);
 
     // Auto-collapse when connected for the first time
     if (isConnected && !hasAutoCollapsedRef.current) {
@@ -211,7 +240,7 @@ export function ACPConnect({
 
   const handleConnect = useCallback(async () => {
     // Prevent duplicate connect calls if already connecting or connected
-    if (!client || connectionState === "connecting" || connectionState === "connected") {
+    if (!client || connectionState === "connecting" || connectionState === "connected" || connectionState === "reconnecting") {
       return;
     }
     setError(null);
@@ -247,7 +276,7 @@ export function ACPConnect({
     startScanning();
   }, [startScanning]);
 
-  const isConnected = connectionState === "connected";
+  const isConnected = connectionState === "connected" || connectionState === "reconnecting";
   const isConnecting = connectionState === "connecting";
 
   const handleInputKeyDown = useCallback((e: React.KeyboardEvent) => {
@@ -265,6 +294,7 @@ export function ACPConnect({
     disconnected: "Disconnected",
     connecting: "Connecting...",
     connected: "Connected",
+    reconnecting: "Reconnecting...",
     error: "Error",
   };
 
@@ -402,6 +432,34 @@ export function ACPConnect({
                 </div>
               </div>
 
+              {/* Agent Profile - only shown when the proxy defines several */}
+              {agentList && agentList.agents.length > 1 && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="agent-profile">Agent</Label>
+                  <Select
+                    value={settings.agent ?? agentList.defaultAgent}
+                    onValueChange={(value) => updateSetting("agent", value)}
+                    disabled={isConnected || isConnecting}
+                  >
+                    <SelectTrigger id="agent-profile" className="w-full">
+                      <Bot />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {agentList.agents.map((agent) => (
+                        <SelectItem
+                          key={agent.name}
+                          value={agent.name}
+                          title={[agent.command, ...agent.args].join(" ")}
+                        >
+                          {agent.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Auth Token - only shown if enabled */}
               {showTokenInput && (
                 <div className="space-y-1.5">
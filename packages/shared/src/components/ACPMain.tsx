@@ -1,8 +1,8 @@
 import { useState, useRef, useCallback } from "react";
 import { FolderOpen, MessageSquare, History } from "lucide-react";
 import type { ACPClient } from "../acp/client";
-import type { AgentSessionInfo } from "../acp/types";
-import { ChatInterface } from "./ChatInterface";
+import type { AgentSessionInfo, SessionSearchResult } from "../acp/types";
+import { ChatInterface, type MessageJumpTarget } from "./ChatInterface";
 import { FileExplorer } from "./FileExplorer";
 import { ThreadHistory } from "./ThreadHistory";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
@@ -23,26 +23,60 @@ export function ACPMain({ client }: ACPMainProps) {
   const [activeTab, setActiveTab] = useState<TabValue>("chat");
   const touchStartX = useRef<number | null>(null);
   const touchStartY = useRef<number | null>(null);
+  // Message picked from the thread history search, scrolled to once its thread is open
+  const [jumpTarget, setJumpTarget] = useState<MessageJumpTarget | null>(null);
 
-  // Handle session selection from history
   // Reference: Zed's connection_view.rs line 616-631
   // Zed prioritizes load_session (with history), falls back to resume_session (without history)
+  const openSession = useCallback(async (sessionId: string, cwd: string) => {
+    if (client.supportsLoadSession) {
+      // load_session replays full history
+      await client.loadSession({ sessionId, cwd });
+    } else if (client.supportsResumeSession) {
+      // resume_session starts without replaying history
+      await client.resumeSession({ sessionId, cwd });
+    } else {
+      throw new Error("Loading or resuming sessions is not supported by this agent.");
+    }
+    // Switch to chat tab after loading
+    setActiveTab("chat");
+  }, [client]);
+
+  // Handle session selection from history
   const handleSelectSession = useCallback(async (session: AgentSessionInfo) => {
     try {
-      if (client.supportsLoadSession) {
-        // load_session replays full history
-        await client.loadSession({ sessionId: session.sessionId, cwd: session.cwd });
-      } else if (client.supportsResumeSession) {
-        // resume_session starts without replaying history
-        await client.resumeSession({ sessionId: session.sessionId, cwd: session.cwd });
-      } else {
-        throw new Error("Loading or resuming sessions is not supported by this agent.");
-      }
-      // Switch to chat tab after loading
-      setActiveTab("chat");
+      await openSession(session.sessionId, session.cwd);
+    } catch (error) {
+      console.error("Failed to load/resume session:", error);
+    }
+  }, [openSession]);
+
+  // Open the thread a search hit belongs to, then jump to the message
+  const handleSelectSearchResult = useCallback(async (result: SessionSearchResult, query: string) => {
+    try {
+      await openSession(result.sessionId, result.cwd);
+      setJumpTarget({
+        sessionId: result.sessionId,
+        turn: result.turn,
+        kind: result.kind,
+        toolCallId: result.toolCallId,
+        query,
+      });
     } catch (error) {
       console.error("Failed to load/resume session:", error);
     }
+  }, [openSession]);
+
+  const handleJumpHandled = useCallback(() => setJumpTarget(null), []);
+
+  // Fork a past thread; ChatInterface opens the fork in a new thread tab
+  const handleForkSession = useCallback(async (session: AgentSessionInfo) => {
+    try {
+      await client.forkSession({ sessionId: session.sessionId, cwd: session.cwd });
+      setActiveTab("chat");
+    } catch (error) {
+      console.error("Failed to fork session:", error);
+    }
   }, [client]);
 
   // Check if an element or its ancestors can scroll horizontally
@@ -120,11 +154,16 @@ export function ACPMain({ client }: ACPMainProps) {
         onTouchEnd={handleTouchEnd}
       >
         <TabsContent value="chat" forceMount className="w-full h-full m-0 max-w-2xl mx-auto">
-          <ChatInterface client={client} />
+          <ChatInterface client={client} jumpTarget={jumpTarget} onJumpHandled={handleJumpHandled} />
         </TabsContent>
 
         <TabsContent value="history" forceMount className="flex flex-col h-full m-0 max-w-2xl mx-auto w-full">
-          <ThreadHistory client={client} onSelectSession={handleSelectSession} />
+          <ThreadHistory
+            client={client}
+            onSelectSession={handleSelectSession}
+            onForkSession={handleForkSession}
+            onSelectSearchResult={handleSelectSearchResult}
+          />
         </TabsContent>
 
         <TabsContent value="files" forceMount className="flex flex-col h-full m-0">
@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronDownIcon, SquareTerminalIcon, Trash2Icon } from "lucide-react";
+import type { ACPClient } from "../acp/client";
+import type { AgentLogEntry } from "../acp/types";
+import { useAgentLog } from "../hooks/useAgentLog";
+import { cn } from "../lib/utils";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+
+// Distance from the bottom (px) within which new lines keep the view pinned
+const STICK_TO_BOTTOM_THRESHOLD = 24;
+
+interface AgentConsoleProps {
+  client: ACPClient;
+  className?: string;
+}
+
+const LEVEL_CLASSES: Record<AgentLogEntry["level"], string> = {
+  info: "",
+  warn: "text-yellow-600 dark:text-yellow-500",
+  error: "text-red-600 dark:text-red-500",
+};
+
+function formatTime(time: string): string {
+  return new Date(time).toLocaleTimeString([], { hour12: false });
+}
+
+/**
+ * Collapsible console with the agent's stderr and proxy warnings/errors.
+ * Useful when the proxy's terminal is out of reach (e.g. on a phone).
+ */
+export function AgentConsole({ client, className }: AgentConsoleProps) {
+  const entries = useAgentLog(client);
+  const [open, setOpen] = useState(false);
+  const outputRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+
+  const problemCount = entries.filter((entry) => entry.level !== "info").length;
+
+  // Follow new lines unless the user scrolled up to read earlier ones
+  useEffect(() => {
+    const el = outputRef.current;
+    if (el && open && stickToBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [entries, open]);
+
+  const handleScroll = () => {
+    const el = outputRef.current;
+    if (!el) return;
+    stickToBottom.current =
+      el.scrollHeight - el.scrollTop - el.clientHeight < STICK_TO_BOTTOM_THRESHOLD;
+  };
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className={cn("rounded-md border bg-muted/50 text-xs", className)}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5">
+        <CollapsibleTrigger className="flex min-w-0 flex-1 items-center gap-2 text-muted-foreground hover:text-foreground">
+          <SquareTerminalIcon className="size-3.5 shrink-0" />
+          <span>Agent console</span>
+          {problemCount > 0 && (
+            <Badge className="rounded-full px-1.5 py-0 text-[10px]" variant="destructive">
+              {problemCount}
+            </Badge>
+          )}
+          <ChevronDownIcon
+            className={cn("size-3.5 transition-transform", open ? "rotate-180" : "rotate-0")}
+          />
+        </CollapsibleTrigger>
+        {open && entries.length > 0 && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => client.clearAgentLog()}
+          >
+            <Trash2Icon className="size-3.5" />
+            <span className="sr-only">Clear console</span>
+          </Button>
+        )}
+      </div>
+      <CollapsibleContent>
+        <div
+          ref={outputRef}
+          onScroll={handleScroll}
+          className="max-h-48 overflow-auto border-t p-3 font-mono"
+        >
+          {entries.length === 0 ? (
+            <span className="text-muted-foreground">No output from the agent yet</span>
+          ) : (
+            entries.map((entry) => (
+              <div
+                key={entry.id}
+                className={cn("whitespace-pre-wrap break-all", LEVEL_CLASSES[entry.level])}
+              >
+                <span className="text-muted-foreground">{formatTime(entry.time)} </span>
+                {entry.source === "proxy" && (
+                  <span className="text-muted-foreground">[proxy] </span>
+                )}
+                {entry.text}
+              </div>
+            ))
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import imageCompression from "browser-image-compression";
 import type { ACPClient } from "../acp/client";
-import type { SessionUpdate, ToolCallContent, PermissionRequestPayload, PermissionOption, ContentBlock, ImageContent } from "../acp/types";
+import type { SessionUpdate, ToolCallContent, ToolCallDiffContent, PermissionRequestPayload, PermissionOption, ContentBlock, ImageContent, AgentRecoveryEvent, PlanEntry, PlanEntryStatus, FileSearchResult, TerminalState } from "../acp/types";
 
 // Image compression options
 // Claude API has a 5MB limit, so we target 2MB to be safe
@@ -38,6 +38,21 @@ function dataUrlToBlob(dataUrl: string): Blob {
   return new Blob([bytes], { type: mimeType });
 }
 
+// Get an attachment's contents from its data URL or object URL
+async function attachmentUrlToBlob(url: string): Promise<Blob> {
+  if (url.startsWith("data:")) {
+    // Convert data URL to Blob without using fetch()
+    // This is critical for Chrome extensions where fetch(dataUrl) violates CSP
+    return dataUrlToBlob(url);
+  }
+  // Object URL - fetch directly
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Fetch failed: ${response.status} ${response.statusText}`);
+  }
+  return response.blob();
+}
+
 // AI Elements components
 import {
   Conversation,
@@ -50,6 +65,8 @@ import {
   Message,
   MessageContent,
   MessageResponse,
+  MessageAction,
+  MessageActions,
   MessageAttachment,
   MessageAttachments,
 } from "./ai-elements/message";
@@ -65,18 +82,53 @@ import {
   usePromptInputAttachments,
   type PromptInputMessage,
 } from "./ai-elements/prompt-input";
-import { ImageIcon, Plus } from "lucide-react";
+import { AlertCircleIcon, ArrowDownIcon, ArrowUpIcon, CheckCircleIcon, CircleDotIcon, CircleIcon, DownloadIcon, FileUpIcon, GitForkIcon, Loader2Icon, PaperclipIcon, PauseIcon, PencilIcon, PlayIcon, Plus, XIcon } from "lucide-react";
 import { ModelSelectorPopover } from "./model-selector";
+import { ModeSelector } from "./mode-selector";
+import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { cn } from "../lib/utils";
+import { blobToBase64, buildAttachmentBlock, sniffAttachment } from "../lib/attachments";
+import {
+  createThreadExport,
+  downloadThreadExport,
+  parseThreadExport,
+  threadToMarkdown,
+  type ThreadExport,
+  type ThreadExportFormat,
+} from "../lib/thread-export";
+import { getCachedTranscript, putCachedTranscript, type CachedTranscript } from "../lib/transcript-cache";
+import {
+  getTerminalIds,
+  type AssistantChunk,
+  type AssistantMessageEntry,
+  type PlanThreadEntry,
+  type ThreadEntry,
+  type ToolCallData,
+  type ToolCallEntry,
+  type ToolCallStatus,
+  type UserMessageEntry,
+  type UserMessageFile,
+  type UserMessageImage,
+} from "../lib/thread-entries";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "./ui/tooltip";
 
-// Reference: Zed's add_images_from_picker() - Button to open file dialog for images
+// Reference: Zed's add_images_from_picker() - Button to open the file dialog
+// Accepts any file; images go as image blocks, others as resource/audio/text blocks
 // Must be inside PromptInput to access attachments context
-function AddImageButton() {
+function AddAttachmentButton() {
   const attachments = usePromptInputAttachments();
   return (
     <PromptInputButton
@@ -85,8 +137,8 @@ function AddImageButton() {
       size="sm"
       onClick={() => attachments.openFileDialog()}
     >
-      <ImageIcon className="size-4" />
-      <span className="sr-only">Attach image</span>
+      <PaperclipIcon className="size-4" />
+      <span className="sr-only">Attach file</span>
     </PromptInputButton>
   );
 }
@@ -96,6 +148,7 @@ import {
   ToolContent,
   ToolInput,
   ToolOutput,
+  ToolDiff,
 } from "./ai-elements/tool";
 import { Shimmer } from "./ai-elements/shimmer";
 import {
@@ -104,73 +157,527 @@ import {
   ReasoningContent,
 } from "./ai-elements/reasoning";
 import { ToolPermissionButtons } from "./ai-elements/permission-request";
+import { Terminal } from "./ai-elements/terminal";
+import {
+  Plan,
+  PlanAction,
+  PlanContent,
+  PlanDescription,
+  PlanHeader,
+  PlanTitle,
+  PlanTrigger,
+} from "./ai-elements/plan";
+import {
+  Queue,
+  QueueItem,
+  QueueItemAction,
+  QueueItemActions,
+  QueueItemAttachment,
+  QueueItemContent,
+  QueueItemFile,
+  QueueItemImage,
+  QueueItemIndicator,
+  QueueList,
+  QueueSection,
+  QueueSectionContent,
+  QueueSectionLabel,
+  QueueSectionTrigger,
+} from "./ai-elements/queue";
+import { useTerminal } from "../hooks/useTerminal";
+import { useAvailableCommands } from "../hooks/useAvailableCommands";
+import { AgentConsole } from "./AgentConsole";
+
+// Reference: Zed renders ToolCallContent::Terminal as an embedded live terminal
+// Subscribes to the client's terminal store so output streams in as it arrives
+// Terminals the proxy no longer reports fall back to output saved with an imported or cached thread
+function ToolCallTerminal({
+  client,
+  terminalId,
+  snapshot,
+}: {
+  client: ACPClient;
+  terminalId: string;
+  snapshot?: TerminalState;
+}) {
+  const liveTerminal = useTerminal(client, terminalId);
+  const terminal = liveTerminal ?? snapshot;
+
+  if (!terminal) {
+    // Terminal not reported by this proxy connection (e.g. replayed session)
+    return (
+      <div className="rounded-md border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+        Terminal {terminalId} is no longer available
+      </div>
+    );
+  }
 
-// =============================================================================
-// Type Definitions - Flat Entry Structure (matching Zed's architecture)
-// =============================================================================
+  const command = [terminal.command, ...terminal.args].join(" ");
+  return (
+    <Terminal
+      command={command}
+      output={terminal.output}
+      exitStatus={terminal.exitStatus}
+      truncated={terminal.truncated}
+    />
+  );
+}
 
-// Tool call status (matches Zed's ToolCallStatus enum)
-type ToolCallStatus = "running" | "complete" | "error" | "waiting_for_confirmation" | "rejected" | "canceled";
+function PlanStatusIcon({ status, isStreaming }: { status: PlanEntryStatus; isStreaming: boolean }) {
+  if (status === "completed") {
+    return <CheckCircleIcon className="size-4 shrink-0 text-green-600" />;
+  }
+  if (status === "in_progress") {
+    return isStreaming
+      ? <Loader2Icon className="size-4 shrink-0 animate-spin text-muted-foreground" />
+      : <CircleDotIcon className="size-4 shrink-0 text-muted-foreground" />;
+  }
+  return <CircleIcon className="size-4 shrink-0 text-muted-foreground" />;
+}
 
-// Tool call data
-interface ToolCallData {
-  id: string;
-  title: string;
-  status: ToolCallStatus;
-  content?: ToolCallContent[];
-  rawInput?: Record<string, unknown>;
-  rawOutput?: Record<string, unknown>;
-  // Permission request data (only when status is "waiting_for_confirmation")
-  permissionRequest?: {
-    requestId: string;
-    options: PermissionOption[];
+// Reference: Zed shows the agent's plan as a checklist with per-entry status
+function AgentPlan({ entries, isStreaming }: { entries: PlanEntry[]; isStreaming: boolean }) {
+  const completedCount = entries.filter((entry) => entry.status === "completed").length;
+
+  return (
+    <Plan defaultOpen isStreaming={isStreaming} className={cn("gap-2 py-3", isStreaming && "shadow-sm")}>
+      <PlanHeader className="px-4">
+        <div className="space-y-1">
+          <PlanTitle>Plan</PlanTitle>
+          <PlanDescription>{`${completedCount} of ${entries.length} tasks completed`}</PlanDescription>
+        </div>
+        <PlanAction>
+          <PlanTrigger />
+        </PlanAction>
+      </PlanHeader>
+      <PlanContent className="px-4">
+        <ul className="space-y-1.5 text-sm">
+          {entries.map((entry, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <span className="mt-0.5">
+                <PlanStatusIcon status={entry.status} isStreaming={isStreaming} />
+              </span>
+              <span
+                className={cn(
+                  "min-w-0 flex-1 break-words",
+                  entry.status === "completed" && "text-muted-foreground line-through",
+                )}
+              >
+                {entry.content}
+              </span>
+              {entry.priority !== "medium" && (
+                <Badge
+                  variant={entry.priority === "high" ? "destructive" : "secondary"}
+                  className="shrink-0 px-1.5 py-0 text-[10px]"
+                >
+                  {entry.priority}
+                </Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+      </PlanContent>
+    </Plan>
+  );
+}
+
+// How long the "agent recovered" notice stays up
+const RECOVERED_NOTICE_MS = 5_000;
+
+// Status line shown while the proxy restarts a crashed agent
+function AgentRecoveryNotice({ event }: { event: AgentRecoveryEvent }) {
+  if (event.type === "restarting") {
+    return (
+      <div className="mb-2 flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+        <Loader2Icon className="size-3.5 shrink-0 animate-spin" />
+        Agent crashed, restarting (attempt {event.attempt} of {event.maxAttempts})...
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-2 flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+      <CheckCircleIcon className="size-3.5 shrink-0 text-green-600" />
+      {event.restored
+        ? "Agent recovered, session restored"
+        : "Agent recovered, but it can't re-open sessions, so a new thread was started"}
+    </div>
+  );
+}
+
+// Dismissable error line above the prompt input
+function ErrorNotice({ message, onDismiss }: { message: string; onDismiss: () => void }) {
+  return (
+    <div className="mb-2 flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+      <AlertCircleIcon className="mt-0.5 size-3.5 shrink-0" />
+      <span className="flex-1 whitespace-pre-wrap">{message}</span>
+      <button
+        type="button"
+        className="shrink-0 underline-offset-2 hover:underline"
+        onClick={onDismiss}
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
+
+// Shown instead of the live thread while an imported one is open
+function ImportedThreadNotice({ thread, onClose }: { thread: ThreadExport; onClose: () => void }) {
+  return (
+    <div className="mb-2 flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+      <FileUpIcon className="size-3.5 shrink-0" />
+      <span className="min-w-0 flex-1 truncate">
+        Viewing imported thread "{thread.title}" (exported {new Date(thread.exportedAt).toLocaleString()}), read only
+      </span>
+      <button
+        type="button"
+        className="shrink-0 underline-offset-2 hover:underline"
+        onClick={onClose}
+      >
+        Back to chat
+      </button>
+    </div>
+  );
+}
+
+// Export the thread as Markdown, JSON or HTML, or open an exported JSON file
+function ThreadFileMenu({
+  canExport,
+  onExport,
+  onImport,
+}: {
+  canExport: boolean;
+  onExport: (format: ThreadExportFormat) => void;
+  onImport: () => void;
+}) {
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8">
+              <DownloadIcon className="h-4 w-4" />
+              <span className="sr-only">Export or import thread</span>
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Export or import thread</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem disabled={!canExport} onSelect={() => onExport("markdown")}>
+          Export as Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!canExport} onSelect={() => onExport("html")}>
+          Export as HTML
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!canExport} onSelect={() => onExport("json")}>
+          Export as JSON
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onImport}>Open exported JSON...</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// Open threads after a fork; the active one is the client's current session
+function ThreadTabs({
+  tabs,
+  activeSessionId,
+  disabled,
+  onSelect,
+  onClose,
+}: {
+  tabs: ThreadTab[];
+  activeSessionId: string | null;
+  disabled: boolean;
+  onSelect: (tab: ThreadTab) => void;
+  onClose: (tab: ThreadTab) => void;
+}) {
+  return (
+    <div className="flex shrink-0 gap-1 overflow-x-auto border-b px-2 py-1">
+      {tabs.map((tab) => {
+        const isActive = tab.sessionId === activeSessionId;
+        return (
+          <div
+            key={tab.sessionId}
+            className={cn(
+              "flex max-w-48 shrink-0 items-center rounded-md text-xs",
+              isActive ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-accent/50",
+            )}
+          >
+            <button
+              type="button"
+              title={tab.sessionId}
+              disabled={isActive || disabled}
+              onClick={() => onSelect(tab)}
+              className="flex min-w-0 items-center gap-1.5 px-2 py-1 disabled:cursor-default"
+            >
+              {tab.parentSessionId && <GitForkIcon className="size-3 shrink-0" />}
+              <span className="truncate">{tab.title}</span>
+            </button>
+            {!isActive && (
+              <button
+                type="button"
+                aria-label={`Close ${tab.title}`}
+                onClick={() => onClose(tab)}
+                className="mr-1 rounded p-0.5 hover:bg-muted-foreground/10 hover:text-foreground"
+              >
+                <XIcon className="size-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// One queued prompt: click the pencil to edit its text in place
+function QueuedPromptItem({
+  prompt,
+  isFirst,
+  isLast,
+  onEdit,
+  onMove,
+  onRemove,
+}: {
+  prompt: QueuedPrompt;
+  isFirst: boolean;
+  isLast: boolean;
+  onEdit: (text: string) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const { text, files } = prompt.message;
+
+  const saveDraft = () => {
+    if (draft === null) return;
+    // A prompt needs text or attachments, so don't save an empty edit of a text-only prompt
+    if (draft.trim() || files.length > 0) {
+      onEdit(draft.trim());
+    }
+    setDraft(null);
   };
-  // True if this is a standalone permission request (not attached to a real tool call)
-  isStandalonePermission?: boolean;
+
+  return (
+    <QueueItem>
+      <div className="flex items-start gap-2">
+        <QueueItemIndicator className="mt-1.5 shrink-0" />
+        {draft !== null ? (
+          <Textarea
+            autoFocus
+            className="min-h-0 flex-1 text-xs md:text-xs"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onBlur={saveDraft}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && !event.shiftKey && !event.nativeEvent.isComposing) {
+                event.preventDefault();
+                saveDraft();
+              } else if (event.key === "Escape") {
+                event.preventDefault();
+                setDraft(null);
+              }
+            }}
+          />
+        ) : (
+          <QueueItemContent className="pt-0.5" title={text}>
+            {text || `${files.length} attachment${files.length === 1 ? "" : "s"}`}
+          </QueueItemContent>
+        )}
+        {draft === null && (
+          <QueueItemActions className="shrink-0">
+            <QueueItemAction aria-label="Edit" onClick={() => setDraft(text)}>
+              <PencilIcon className="size-3" />
+            </QueueItemAction>
+            <QueueItemAction aria-label="Move up" disabled={isFirst} onClick={() => onMove(-1)}>
+              <ArrowUpIcon className="size-3" />
+            </QueueItemAction>
+            <QueueItemAction aria-label="Move down" disabled={isLast} onClick={() => onMove(1)}>
+              <ArrowDownIcon className="size-3" />
+            </QueueItemAction>
+            <QueueItemAction aria-label="Remove" onClick={onRemove}>
+              <XIcon className="size-3" />
+            </QueueItemAction>
+          </QueueItemActions>
+        )}
+      </div>
+      {files.length > 0 && (
+        <QueueItemAttachment className="ml-4.5">
+          {files.map((file, index) =>
+            file.mediaType?.startsWith("image/") && file.url ? (
+              <QueueItemImage key={index} src={file.url} alt={file.filename} />
+            ) : (
+              <QueueItemFile key={index}>{file.filename || "attachment"}</QueueItemFile>
+            ),
+          )}
+        </QueueItemAttachment>
+      )}
+    </QueueItem>
+  );
+}
+
+// Prompts submitted while the agent is busy, sent one by one as each prompt completes
+function PromptQueue({
+  prompts,
+  paused,
+  pauseOnError,
+  onPauseOnErrorChange,
+  onPausedChange,
+  onEdit,
+  onMove,
+  onRemove,
+}: {
+  prompts: QueuedPrompt[];
+  paused: boolean;
+  pauseOnError: boolean;
+  onPauseOnErrorChange: (pauseOnError: boolean) => void;
+  onPausedChange: (paused: boolean) => void;
+  onEdit: (id: string, text: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onRemove: (id: string) => void;
+}) {
+  return (
+    <Queue className="mt-2">
+      <QueueSection>
+        <div className="flex items-center gap-1">
+          <QueueSectionTrigger className="flex-1">
+            <QueueSectionLabel
+              count={prompts.length}
+              label={paused ? "queued (paused)" : "queued"}
+            />
+          </QueueSectionTrigger>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            aria-label={paused ? "Resume queue" : "Pause queue"}
+            onClick={() => onPausedChange(!paused)}
+          >
+            {paused ? <PlayIcon className="size-4" /> : <PauseIcon className="size-4" />}
+          </Button>
+        </div>
+        <QueueSectionContent>
+          <QueueList>
+            {prompts.map((prompt, index) => (
+              <QueuedPromptItem
+                key={prompt.id}
+                prompt={prompt}
+                isFirst={index === 0}
+                isLast={index === prompts.length - 1}
+                onEdit={(text) => onEdit(prompt.id, text)}
+                onMove={(offset) => onMove(prompt.id, offset)}
+                onRemove={() => onRemove(prompt.id)}
+              />
+            ))}
+          </QueueList>
+          <label className="mt-2 flex items-center gap-2 px-3 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={pauseOnError}
+              onChange={(event) => onPauseOnErrorChange(event.target.checked)}
+            />
+            Pause the queue when a prompt fails or is cancelled
+          </label>
+        </QueueSectionContent>
+      </QueueSection>
+    </Queue>
+  );
+}
+
+// Thread opened in a tab (the original thread and its forks)
+interface ThreadTab {
+  sessionId: string;
+  cwd: string;
+  title: string;
+  parentSessionId?: string;
 }
 
-// Assistant message chunk - can be regular message or thought
-type AssistantChunk =
-  | { type: "message"; text: string }
-  | { type: "thought"; text: string };
+// Tab titles are taken from the first prompt of a thread
+const THREAD_TITLE_MAX_LENGTH = 40;
 
-// Image data for display in user messages
-// Reference: Zed's ContentBlock::Image stores decoded image for rendering
-interface UserMessageImage {
-  mimeType: string;
-  data: string;  // base64 encoded
+// ACP can only fork a whole session, so a fork from an earlier message is a new
+// session shown with the entries up to that message. The agent gets them as a
+// transcript along with the first prompt sent there.
+interface ReplayedFork {
+  parentSessionId: string;
+  entries: ThreadEntry[];
+  transcript: string;
 }
 
-// User message entry
-// Reference: Zed's UserMessage { content: ContentBlock, chunks: Vec<acp::ContentBlock> }
-interface UserMessageEntry {
-  type: "user_message";
-  id: string;
-  content: string;
-  images?: UserMessageImage[];  // Images attached to this message
+// Goes after the prompt's own blocks, so a slash command still comes first
+const FORK_TRANSCRIPT_PREAMBLE =
+  "This thread was forked from an earlier conversation. Here it is up to the point of the fork; the prompt above continues from there.";
+
+// Streaming changes entries many times a second; the cache is written once they settle
+const TRANSCRIPT_CACHE_DELAY_MS = 1_000;
+
+function getThreadTitle(entries: ThreadEntry[]): string | null {
+  const firstPrompt = entries.find((entry) => entry.type === "user_message")?.content.trim();
+  if (!firstPrompt) return null;
+  const firstLine = firstPrompt.split("\n")[0] ?? firstPrompt;
+  return firstLine.length > THREAD_TITLE_MAX_LENGTH
+    ? `${firstLine.slice(0, THREAD_TITLE_MAX_LENGTH - 1)}…`
+    : firstLine;
 }
 
-// Assistant message entry - contains chunks (text + thoughts)
-interface AssistantMessageEntry {
-  type: "assistant_message";
-  id: string;
-  chunks: AssistantChunk[];
+// A message to scroll to once its thread is open (picked from the thread history search)
+export interface MessageJumpTarget {
+  sessionId: string;
+  // Index of the user prompt the message belongs to (-1 before the first)
+  turn: number;
+  kind: "user" | "agent" | "tool";
+  toolCallId?: string;
+  query: string;
 }
 
-// Tool call entry - standalone, not nested in messages
-interface ToolCallEntry {
-  type: "tool_call";
-  toolCall: ToolCallData;
+const JUMP_TARGET_ATTR = "data-jump-target";
+const JUMP_HIGHLIGHT_MS = 2500;
+
+// Turns are counted by user messages, the same way the proxy's index counts them.
+// An agent message is matched by the query, since one turn can hold several.
+function findJumpTargetIndex(entries: ThreadEntry[], target: MessageJumpTarget): number {
+  if (target.kind === "tool") {
+    return entries.findIndex((entry) => entry.type === "tool_call" && entry.toolCall.id === target.toolCallId);
+  }
+
+  const term = target.query.toLowerCase().split(/[^\p{L}\p{N}_]+/u).find(Boolean) ?? "";
+  let turn = -1;
+  let firstAgentIndex = -1;
+  for (const [index, entry] of entries.entries()) {
+    if (entry.type === "user_message") {
+      turn++;
+      if (turn === target.turn && target.kind === "user") return index;
+      if (turn > target.turn) break;
+      continue;
+    }
+    if (turn !== target.turn || entry.type !== "assistant_message") continue;
+    if (firstAgentIndex === -1) firstAgentIndex = index;
+    const text = entry.chunks.map((chunk) => chunk.text).join("").toLowerCase();
+    if (text.includes(term)) return index;
+  }
+  return firstAgentIndex;
 }
 
-// Thread entry - flat list of all entries
-type ThreadEntry = UserMessageEntry | AssistantMessageEntry | ToolCallEntry;
+// Prompt submitted while the agent was busy
+// Mentions are the "@" picks made for it; only those still in the text are sent
+interface QueuedPrompt {
+  id: string;
+  message: PromptInputMessage;
+  mentions: FileSearchResult[];
+}
 
 interface ChatInterfaceProps {
   client: ACPClient;
+  // Message to scroll to once its session is active; onJumpHandled clears it
+  jumpTarget?: MessageJumpTarget | null;
+  onJumpHandled?: () => void;
 }
 
 // Helper to format tool call content for display
+// Terminal and diff content are rendered separately (see ToolCallTerminal and ToolDiff)
 function formatToolOutput(
   content?: ToolCallContent[],
   rawOutput?: Record<string, unknown>,
@@ -184,16 +691,16 @@ function formatToolOutput(
         if (item.content.type === "text" && item.content.text) {
           results.push(item.content.text);
         }
-      } else if (item.type === "diff") {
-        results.push(`📝 ${item.path}\n--- Old\n+++ New\n${item.newText}`);
-      } else if (item.type === "terminal") {
-        results.push(`🖥️ Terminal: ${item.terminalId}`);
       }
     }
 
     if (results.length > 0) {
       return results.length === 1 ? results[0] : results.join("\n\n");
     }
+    // An edit's diff is its result; rawOutput would only repeat it
+    if (content.some((item) => item.type === "diff")) {
+      return null;
+    }
   }
 
   // Fall back to rawOutput if content didn't produce results
@@ -215,6 +722,29 @@ function mapToolStatus(status: string): ToolCallStatus {
   return "running";
 }
 
+// Build the content block for an @-mentioned file
+// Reference: Zed's MessageEditor embeds mentions as resources when the agent
+// supports embedded context, and sends resource links otherwise
+async function buildMentionBlock(client: ACPClient, file: FileSearchResult): Promise<ContentBlock> {
+  const link: ContentBlock = { type: "resource_link", uri: file.uri, name: file.name };
+  if (!client.getPromptCapabilities()?.embeddedContext) return link;
+
+  try {
+    const content = await client.readFile(file.path);
+    // A truncated or unreadable file is better sent as a link the agent can read itself
+    if (content.truncated) return link;
+    if (!content.binary) {
+      return { type: "resource", resource: { uri: file.uri, text: content.content } };
+    }
+    if (content.mimeType) {
+      return { type: "resource", resource: { uri: file.uri, blob: content.content, mimeType: content.mimeType } };
+    }
+  } catch (error) {
+    console.warn("[ChatInterface] Could not read mentioned file, sending a link:", file.path, error);
+  }
+  return link;
+}
+
 // Find tool call index in entries (search from end, like Zed)
 function findToolCallIndex(entries: ThreadEntry[], toolCallId: string): number {
   for (let i = entries.length - 1; i >= 0; i--) {
@@ -226,11 +756,21 @@ function findToolCallIndex(entries: ThreadEntry[], toolCallId: string): number {
   return -1;
 }
 
+// Find the plan of the current turn (search back to the last user message)
+function findCurrentPlanIndex(entries: ThreadEntry[]): number {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (!entry || entry.type === "user_message") break;
+    if (entry.type === "plan") return i;
+  }
+  return -1;
+}
+
 // =============================================================================
 // ChatInterface Component
 // =============================================================================
 
-export function ChatInterface({ client }: ChatInterfaceProps) {
+export function ChatInterface({ client, jumpTarget, onJumpHandled }: ChatInterfaceProps) {
   // Flat list of entries (like Zed's entries: Vec<AgentThreadEntry>)
   const [entries, setEntries] = useState<ThreadEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -239,15 +779,82 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
   const activeSessionIdRef = useRef<string | null>(null);
   // Reference: Zed's supports_images() checks prompt_capabilities.image
   const [supportsImages, setSupportsImages] = useState(false);
+  // Latest crash recovery event from the proxy (cleared once the notice times out)
+  const [agentRecovery, setAgentRecovery] = useState<AgentRecoveryEvent | null>(null);
+  // Slash commands the agent announced for the active session
+  const availableCommands = useAvailableCommands(client);
+  // Why the last prompt's attachments (or some of them) couldn't be sent
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  // Files picked from the "@" palette since the last prompt
+  const [mentionedFiles, setMentionedFiles] = useState<FileSearchResult[]>([]);
+  // Prompts waiting for the running prompt to complete
+  const [queuedPrompts, setQueuedPrompts] = useState<QueuedPrompt[]>([]);
+  const [queuePaused, setQueuePaused] = useState(false);
+  const [pauseQueueOnError, setPauseQueueOnError] = useState(true);
+  // Read by the client handlers, which are registered once
+  const pauseQueueOnErrorRef = useRef(pauseQueueOnError);
+  // Threads opened by forking, shown as tabs above the conversation
+  const [threadTabs, setThreadTabs] = useState<ThreadTab[]>([]);
+  // Titles of threads seen in this view, used to name their forks
+  const threadTitlesRef = useRef<Map<string, string>>(new Map());
+  // Fork from an earlier message waiting for its session, then the transcripts
+  // of such forks until their first prompt
+  const pendingForkRef = useRef<ReplayedFork | null>(null);
+  const forkTranscriptsRef = useRef<Map<string, string>>(new Map());
+  // Entry picked from the thread history search, highlighted for a moment
+  const [highlightedEntryIndex, setHighlightedEntryIndex] = useState<number | null>(null);
+  // Exported thread opened from a file; shown read-only in place of the live thread
+  const [importedThread, setImportedThread] = useState<ThreadExport | null>(null);
+  const [threadFileError, setThreadFileError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Local copy of the thread being opened: shown while the agent replays it,
+  // and used as the history when the agent has nothing to replay (resume)
+  const [cachedTranscript, setCachedTranscript] = useState<CachedTranscript | null>(null);
+  const cachedTranscriptRef = useRef<CachedTranscript | null>(null);
+  // From session switching until the session is active; a half-done replay isn't cached
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  const handleSearchFiles = useCallback((query: string) => client.searchFiles(query), [client]);
+
+  const handleMentionFile = useCallback((file: FileSearchResult) => {
+    setMentionedFiles((prev) =>
+      prev.some((existing) => existing.path === file.path) ? prev : [...prev, file],
+    );
+  }, []);
 
   useEffect(() => {
     activeSessionIdRef.current = activeSessionId;
   }, [activeSessionId]);
 
+  useEffect(() => {
+    pauseQueueOnErrorRef.current = pauseQueueOnError;
+  }, [pauseQueueOnError]);
+
+  useEffect(() => {
+    const title = getThreadTitle(entries);
+    if (activeSessionId && title) {
+      threadTitlesRef.current.set(activeSessionId, title);
+    }
+  }, [activeSessionId, entries]);
+
+  // Hold the queue after a failed or cancelled prompt, if the user asked for that
+  const interruptQueue = useCallback(() => {
+    if (pauseQueueOnErrorRef.current) {
+      setQueuePaused(true);
+    }
+  }, []);
+
+  // Queued prompts were written for this thread, so they don't follow a switch
   const resetThreadState = useCallback(() => {
     setEntries([]);
     setIsLoading(false);
     setSessionReady(false);
+    setQueuedPrompts([]);
+    setQueuePaused(false);
+    setHighlightedEntryIndex(null);
+    setImportedThread(null);
+    setCachedTranscript(null);
+    cachedTranscriptRef.current = null;
   }, []);
 
   const activateSession = useCallback((sessionId: string, options?: { resetEntries?: boolean }) => {
@@ -255,13 +862,28 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
     if (shouldResetEntries) {
       setEntries([]);
       setIsLoading(false);
+      setImportedThread(null);
     }
     setActiveSessionId(sessionId);
     setSessionReady(true);
+    setIsReplaying(false);
     setSupportsImages(client.supportsImages);
     console.log("[ChatInterface] Active session:", sessionId, "supportsImages:", client.supportsImages);
   }, [client]);
 
+  const openForkTab = useCallback((sessionId: string, parentSessionId: string, cwd: string) => {
+    const parentTitle = threadTitlesRef.current.get(parentSessionId) ?? "thread";
+    const title = `Fork of ${parentTitle}`;
+    threadTitlesRef.current.set(sessionId, title);
+    setThreadTabs((prev) => {
+      const hasParent = prev.some((tab) => tab.sessionId === parentSessionId);
+      return [
+        ...(hasParent ? prev : [...prev, { sessionId: parentSessionId, cwd, title: parentTitle }]),
+        { sessionId, cwd, title, parentSessionId },
+      ];
+    });
+  }, []);
+
   // =============================================================================
   // Permission Request Handler
   // =============================================================================
@@ -286,6 +908,8 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
             type: "tool_call",
             toolCall: {
               ...entry.toolCall,
+              // The request carries the edit as it will be applied
+              content: request.toolCall.content ?? entry.toolCall.content,
               status: "waiting_for_confirmation" as const,
               permissionRequest: {
                 requestId: request.requestId,
@@ -304,6 +928,7 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
             id: request.toolCall.toolCallId,
             title: request.toolCall.title || "Permission Request",
             status: "waiting_for_confirmation",
+            content: request.toolCall.content,
             permissionRequest: {
               requestId: request.requestId,
               options: request.options,
@@ -525,15 +1150,72 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
         });
       });
     }
+    // Handle plan (each update carries the full list, so replace the turn's plan)
+    else if (update.sessionUpdate === "plan") {
+      setEntries((prev) => {
+        const planIndex = findCurrentPlanIndex(prev);
+
+        if (planIndex >= 0) {
+          return prev.map((entry, index) =>
+            index === planIndex && entry.type === "plan"
+              ? { ...entry, entries: update.entries }
+              : entry,
+          );
+        }
+
+        if (update.entries.length === 0) return prev;
+
+        const newEntry: PlanThreadEntry = {
+          type: "plan",
+          id: `plan-${Date.now()}`,
+          entries: update.entries,
+        };
+        return [...prev, newEntry];
+      });
+    }
+  }, []);
+
+  // Like Zed: iterate all entries, mark Pending/WaitingForConfirmation/InProgress tool calls as Canceled
+  const cancelUnfinishedToolCalls = useCallback(() => {
+    setEntries((prev) =>
+      prev.map((entry) => {
+        if (entry.type !== "tool_call") return entry;
+
+        // Check if status should be canceled (matches Zed's logic)
+        const shouldCancel =
+          entry.toolCall.status === "running" ||
+          entry.toolCall.status === "waiting_for_confirmation";
+
+        if (!shouldCancel) return entry;
+
+        console.log("[ChatInterface] Marking tool call as canceled:", entry.toolCall.id);
+        return {
+          type: "tool_call",
+          toolCall: {
+            ...entry.toolCall,
+            status: "canceled" as ToolCallStatus,
+            permissionRequest: undefined, // Clear any pending permission request
+          },
+        };
+      }),
+    );
   }, []);
 
   // =============================================================================
   // Setup Effect
   // =============================================================================
   useEffect(() => {
-    client.setSessionCreatedHandler((sessionId) => {
+    client.setSessionCreatedHandler((sessionId, cwd) => {
       console.log("[ChatInterface] Session created:", sessionId);
       activateSession(sessionId);
+
+      const fork = pendingForkRef.current;
+      pendingForkRef.current = null;
+      if (fork && cwd) {
+        openForkTab(sessionId, fork.parentSessionId, cwd);
+        forkTranscriptsRef.current.set(sessionId, fork.transcript);
+        setEntries(fork.entries);
+      }
     });
 
     client.setSessionLoadedHandler((sessionId) => {
@@ -545,6 +1227,13 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
       console.log("[ChatInterface] Switching to session:", sessionId);
       setActiveSessionId(sessionId);
       resetThreadState();
+      setIsReplaying(true);
+      void getCachedTranscript(client.getProxyUrl(), sessionId).then((cached) => {
+        // Another switch may have happened while reading
+        if (!cached || activeSessionIdRef.current !== sessionId) return;
+        cachedTranscriptRef.current = cached;
+        setCachedTranscript(cached);
+      });
     });
 
     client.setSessionUpdateHandler((sessionId: string, update: SessionUpdate) => {
@@ -557,6 +1246,9 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
       // This includes stopReason="cancelled" (which is the expected response after client.cancel())
       // Note: Tool calls are already marked as "canceled" in handleCancel before this fires
       setIsLoading(false);
+      if (stopReason === "cancelled") {
+        interruptQueue();
+      }
     });
 
     client.setPermissionRequestHandler(handlePermissionRequest);
@@ -571,7 +1263,104 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
       client.setPromptCompleteHandler(() => {});
       client.setPermissionRequestHandler(() => {});
     };
-  }, [activateSession, client, handlePermissionRequest, handleSessionUpdate, resetThreadState]);
+  }, [activateSession, client, handlePermissionRequest, handleSessionUpdate, interruptQueue, openForkTab, resetThreadState]);
+
+  // A failed prompt never gets prompt_complete, so stop loading here
+  useEffect(() => {
+    return client.onPromptError((message) => {
+      console.error("[ChatInterface] Prompt failed:", message);
+      cancelUnfinishedToolCalls();
+      setIsLoading(false);
+      interruptQueue();
+    });
+  }, [cancelUnfinishedToolCalls, client, interruptQueue]);
+
+  // A fork (from a message here or from the history list) opens in a new tab
+  useEffect(() => {
+    return client.onSessionForked(({ sessionId, parentSessionId, cwd }) => {
+      openForkTab(sessionId, parentSessionId, cwd);
+
+      // The fork carries the parent's history but doesn't replay it; loading does
+      if (client.supportsLoadSession) {
+        client.loadSession({ sessionId, cwd }).catch((error) => {
+          console.error("[ChatInterface] Failed to load forked session:", error);
+        });
+      }
+    });
+  }, [client, openForkTab]);
+
+  // Crash recovery: the proxy restarts the agent and re-opens the session if it can
+  useEffect(() => {
+    return client.onAgentRecovery((event) => {
+      setAgentRecovery(event);
+
+      if (event.type === "restarting") {
+        // The running prompt died with the agent
+        cancelUnfinishedToolCalls();
+        setIsLoading(false);
+        setSessionReady(false);
+        interruptQueue();
+        return;
+      }
+
+      if (event.sessionId) {
+        activateSession(event.sessionId, { resetEntries: false });
+      } else {
+        // The agent can't re-open the old session, so start over
+        client.createSession();
+      }
+    });
+  }, [activateSession, cancelUnfinishedToolCalls, client, interruptQueue]);
+
+  // Hide the "recovered" notice after a moment; keep "restarting" up until it resolves
+  useEffect(() => {
+    if (agentRecovery?.type !== "recovered") return;
+    const timer = setTimeout(() => setAgentRecovery(null), RECOVERED_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [agentRecovery]);
+
+  // Nothing was replayed (resumed session, or an agent that doesn't replay): the cache is the history
+  useEffect(() => {
+    if (isReplaying || !sessionReady || !cachedTranscript || cachedTranscript.sessionId !== activeSessionId) return;
+    setEntries((prev) => (prev.length === 0 ? cachedTranscript.entries : prev));
+  }, [activeSessionId, cachedTranscript, isReplaying, sessionReady]);
+
+  // Keep the local copy of the active thread up to date
+  useEffect(() => {
+    if (!activeSessionId || !sessionReady || isReplaying || entries.length === 0) return;
+    const timer = setTimeout(() => {
+      const snapshot = createThreadExport(entries, {
+        title: threadTitlesRef.current.get(activeSessionId) || getThreadTitle(entries) || "Untitled thread",
+        sessionId: activeSessionId,
+        getTerminal: (terminalId) =>
+          client.getTerminal(terminalId) ?? cachedTranscriptRef.current?.terminals[terminalId] ?? null,
+      });
+      void putCachedTranscript({
+        proxyUrl: client.getProxyUrl(),
+        sessionId: activeSessionId,
+        title: snapshot.title,
+        updatedAt: snapshot.exportedAt,
+        entries: snapshot.entries,
+        terminals: snapshot.terminals,
+      });
+    }, TRANSCRIPT_CACHE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeSessionId, client, entries, isReplaying, sessionReady]);
+
+  // The thread is loaded before the target is set, so its replayed entries are all here
+  useEffect(() => {
+    if (!jumpTarget || !sessionReady || activeSessionId !== jumpTarget.sessionId) return;
+    const index = findJumpTargetIndex(entries, jumpTarget);
+    if (index !== -1) setHighlightedEntryIndex(index);
+    onJumpHandled?.();
+  }, [activeSessionId, entries, jumpTarget, onJumpHandled, sessionReady]);
+
+  useEffect(() => {
+    if (highlightedEntryIndex === null) return;
+    document.querySelector(`[${JUMP_TARGET_ATTR}="true"]`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = setTimeout(() => setHighlightedEntryIndex(null), JUMP_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedEntryIndex]);
 
   // =============================================================================
   // User Actions
@@ -598,31 +1387,71 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
     client.createSession();
   }, [client, isLoading, resetThreadState]);
 
+  const handleExportThread = useCallback((format: ThreadExportFormat) => {
+    // Re-exporting an imported thread keeps its own title and terminal output
+    const thread = importedThread
+      ? { ...importedThread, exportedAt: new Date().toISOString() }
+      : createThreadExport(entries, {
+          title:
+            (activeSessionId && threadTitlesRef.current.get(activeSessionId)) ||
+            getThreadTitle(entries) ||
+            "Untitled thread",
+          sessionId: activeSessionId,
+          getTerminal: (terminalId) => client.getTerminal(terminalId),
+        });
+    downloadThreadExport(thread, format);
+  }, [activeSessionId, client, entries, importedThread]);
+
+  const handleImportFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setImportedThread(parseThreadExport(await file.text()));
+      setThreadFileError(null);
+    } catch (error) {
+      setThreadFileError(`Could not open ${file.name}: ${(error as Error).message}`);
+    }
+  }, []);
+
   // Reference: Zed's MessageEditor.contents() builds Vec<acp::ContentBlock>
   // from text and attached images. We do the same here.
-  const handleSubmit = async (message: PromptInputMessage) => {
+  const sendMessage = async (message: PromptInputMessage, mentionCandidates: FileSearchResult[]) => {
     const text = message.text.trim();
     const files = message.files || [];
 
-    // Allow sending if there's text OR images (like Zed)
-    if ((!text && files.length === 0) || isLoading || !sessionReady) return;
+    // Loading starts before the attachments are read, so the queue waits for this prompt
+    setIsLoading(true);
 
     // Build ContentBlock[] from text and files
     // Reference: Zed's contents() method builds text chunks and image chunks
     const contentBlocks: ContentBlock[] = [];
 
     // Add text content if present
+    // Slash commands need no special handling: ACP agents recognize a prompt
+    // whose first text block starts with "/name", so text stays first
     if (text) {
       contentBlocks.push({ type: "text", text });
     }
 
+    // Attach mentioned files that are still referenced in the text
+    const mentions = mentionCandidates.filter((file) => text.includes(`@${file.path}`));
+    for (const file of mentions) {
+      contentBlocks.push(await buildMentionBlock(client, file));
+    }
+
     // Convert image files to ImageContent blocks
     // Reference: Zed's MentionImage stores base64 data + format
     // Also collect images for display in the user message entry
     const userImages: UserMessageImage[] = [];
 
+    // Other files (and images the agent can't take as images) become resource/audio/text blocks
+    const userFiles: UserMessageFile[] = [];
+    const attachmentErrors: string[] = [];
+
     for (const file of files) {
-      if (file.mediaType?.startsWith("image/") && file.url) {
+      if (supportsImages && file.mediaType?.startsWith("image/") && file.url) {
         try {
           console.log("[ChatInterface] Processing image:", {
             filename: file.filename,
@@ -632,21 +1461,7 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
           });
 
           // Step 1: Get the image as a Blob/File for compression
-          let originalBlob: Blob;
-          if (file.url.startsWith("data:")) {
-            // Convert data URL to Blob without using fetch()
-            // This is critical for Chrome extensions where fetch(dataUrl) violates CSP
-            console.log("[ChatInterface] Converting data URL to Blob...");
-            originalBlob = dataUrlToBlob(file.url);
-          } else {
-            // Object URL - fetch directly
-            console.log("[ChatInterface] Fetching blob URL...");
-            const response = await fetch(file.url);
-            if (!response.ok) {
-              throw new Error(`Fetch failed: ${response.status} ${response.statusText}`);
-            }
-            originalBlob = await response.blob();
-          }
+          const originalBlob = await attachmentUrlToBlob(file.url);
 
           const originalSizeKB = Math.round(originalBlob.size / 1024);
           console.log("[ChatInterface] Original image size:", originalSizeKB, "KB");
@@ -672,16 +1487,7 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
           }
 
           // Step 3: Convert to base64
-          const base64Data = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-              const result = reader.result as string;
-              const commaIndex = result.indexOf(",");
-              resolve(commaIndex >= 0 ? result.slice(commaIndex + 1) : result);
-            };
-            reader.onerror = () => reject(new Error("FileReader error: " + reader.error?.message));
-            reader.readAsDataURL(finalBlob);
-          });
+          const base64Data = await blobToBase64(finalBlob);
           console.log("[ChatInterface] Base64 conversion complete, length:", base64Data.length);
 
           const imageContent: ImageContent = {
@@ -705,10 +1511,27 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
             error: error instanceof Error ? error.message : String(error),
           });
         }
+      } else if (file.url) {
+        const name = file.filename || "attachment";
+        try {
+          const blob = await attachmentUrlToBlob(file.url);
+          const sniffed = await sniffAttachment(blob, name);
+          contentBlocks.push(
+            await buildAttachmentBlock(blob, name, sniffed, client.getPromptCapabilities()),
+          );
+          userFiles.push({ name, mimeType: sniffed.mimeType, size: blob.size });
+        } catch (error) {
+          console.error("[ChatInterface] Failed to attach file:", name, error);
+          attachmentErrors.push(error instanceof Error ? error.message : `Could not attach ${name}`);
+        }
       }
     }
 
-    if (contentBlocks.length === 0) return;
+    setAttachmentError(attachmentErrors.length > 0 ? attachmentErrors.join("\n") : null);
+    if (contentBlocks.length === 0) {
+      setIsLoading(false);
+      return;
+    }
 
     // Add user message as new entry with images
     // Reference: Zed's UserMessage contains both content and chunks (images)
@@ -717,19 +1540,141 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
       id: `user-${Date.now()}`,
       content: text,
       images: userImages.length > 0 ? userImages : undefined,
+      files: userFiles.length > 0 ? userFiles : undefined,
     };
     setEntries((prev) => [...prev, userEntry]);
-    setIsLoading(true);
+
+    const forkTranscript = activeSessionId ? forkTranscriptsRef.current.get(activeSessionId) : undefined;
+    if (forkTranscript) {
+      contentBlocks.push({ type: "text", text: `${FORK_TRANSCRIPT_PREAMBLE}\n\n${forkTranscript}` });
+    }
 
     try {
       // Reference: Zed's AcpThread.send() forwards Vec<acp::ContentBlock>
       await client.sendPrompt(contentBlocks);
+      if (activeSessionId) forkTranscriptsRef.current.delete(activeSessionId);
     } catch (error) {
       console.error("[ChatInterface] Failed to send prompt:", error);
       setIsLoading(false);
+      interruptQueue();
+    }
+  };
+
+  // While the agent is busy, prompts are queued instead of dropped
+  const handleSubmit = async (message: PromptInputMessage) => {
+    // Allow sending if there's text OR images (like Zed)
+    if ((!message.text.trim() && (message.files || []).length === 0) || !sessionReady) return;
+
+    const mentions = mentionedFiles;
+    setMentionedFiles([]);
+
+    if (isLoading) {
+      setQueuedPrompts((prev) => [
+        ...prev,
+        { id: `queued-${Date.now()}-${prev.length}`, message, mentions },
+      ]);
+      return;
     }
+    await sendMessage(message, mentions);
   };
 
+  // Send the next queued prompt once the running one completes
+  useEffect(() => {
+    const [next, ...rest] = queuedPrompts;
+    if (isLoading || !sessionReady || queuePaused || !next) return;
+    setQueuedPrompts(rest);
+    void sendMessage(next.message, next.mentions);
+    // sendMessage is recreated every render; the state above is what decides to send
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, sessionReady, queuePaused, queuedPrompts]);
+
+  // A pause only means something while prompts are waiting
+  useEffect(() => {
+    if (queuedPrompts.length === 0) {
+      setQueuePaused(false);
+    }
+  }, [queuedPrompts.length]);
+
+  const handleEditQueuedPrompt = useCallback((id: string, text: string) => {
+    setQueuedPrompts((prev) =>
+      prev.map((prompt) =>
+        prompt.id === id ? { ...prompt, message: { ...prompt.message, text } } : prompt,
+      ),
+    );
+  }, []);
+
+  const handleMoveQueuedPrompt = useCallback((id: string, offset: -1 | 1) => {
+    setQueuedPrompts((prev) => {
+      const index = prev.findIndex((prompt) => prompt.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      next.splice(target, 0, ...next.splice(index, 1));
+      return next;
+    });
+  }, []);
+
+  const handleRemoveQueuedPrompt = useCallback((id: string) => {
+    setQueuedPrompts((prev) => prev.filter((prompt) => prompt.id !== id));
+  }, []);
+
+  // Forking from the latest message copies the session itself; from an earlier one
+  // it replays the conversation up to that message into a new session
+  const handleFork = useCallback(async (entryIndex: number, isLatest: boolean) => {
+    if (!activeSessionId) return;
+    if (isLatest && client.supportsForkSession) {
+      try {
+        await client.forkSession({ sessionId: activeSessionId });
+      } catch (error) {
+        console.error("[ChatInterface] Failed to fork session:", error);
+      }
+      return;
+    }
+
+    const forkEntries = entries.slice(0, entryIndex + 1);
+    const transcript = threadToMarkdown(
+      createThreadExport(forkEntries, {
+        title: threadTitlesRef.current.get(activeSessionId) || getThreadTitle(forkEntries) || "Untitled thread",
+        sessionId: activeSessionId,
+        getTerminal: (terminalId) =>
+          client.getTerminal(terminalId) ?? cachedTranscriptRef.current?.terminals[terminalId] ?? null,
+      }),
+    );
+    const cwd = threadTabs.find((tab) => tab.sessionId === activeSessionId)?.cwd;
+    pendingForkRef.current = { parentSessionId: activeSessionId, entries: forkEntries, transcript };
+    resetThreadState();
+    setActiveSessionId(null);
+    try {
+      await client.createSession(cwd);
+    } catch (error) {
+      pendingForkRef.current = null;
+      console.error("[ChatInterface] Failed to fork session:", error);
+    }
+  }, [activeSessionId, client, entries, resetThreadState, threadTabs]);
+
+  // Reference: ACPMain's handleSelectSession prefers load (with history) over resume
+  const handleSelectThreadTab = useCallback(async (tab: ThreadTab) => {
+    try {
+      if (client.supportsLoadSession) {
+        await client.loadSession({ sessionId: tab.sessionId, cwd: tab.cwd });
+      } else if (client.supportsResumeSession) {
+        await client.resumeSession({ sessionId: tab.sessionId, cwd: tab.cwd });
+      } else {
+        throw new Error("Loading or resuming sessions is not supported by this agent.");
+      }
+    } catch (error) {
+      console.error("[ChatInterface] Failed to switch thread:", error);
+    }
+  }, [client]);
+
+  const handleCloseThreadTab = useCallback((tab: ThreadTab) => {
+    setThreadTabs((prev) => {
+      const next = prev.filter((other) => other.sessionId !== tab.sessionId);
+      // A single tab is just the current thread
+      return next.length > 1 ? next : [];
+    });
+  }, []);
+
   // Cancel handler - matches Zed's cancel() logic in acp_thread.rs
   // 1. Mark all pending/running/waiting_for_confirmation tool calls as canceled
   // 2. Send cancel notification to agent
@@ -737,29 +1682,7 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
   const handleCancel = () => {
     console.log("[ChatInterface] Cancel requested");
 
-    // Like Zed: iterate all entries, mark Pending/WaitingForConfirmation/InProgress tool calls as Canceled
-    setEntries((prev) =>
-      prev.map((entry) => {
-        if (entry.type !== "tool_call") return entry;
-
-        // Check if status should be canceled (matches Zed's logic)
-        const shouldCancel =
-          entry.toolCall.status === "running" ||
-          entry.toolCall.status === "waiting_for_confirmation";
-
-        if (!shouldCancel) return entry;
-
-        console.log("[ChatInterface] Marking tool call as canceled:", entry.toolCall.id);
-        return {
-          type: "tool_call",
-          toolCall: {
-            ...entry.toolCall,
-            status: "canceled" as ToolCallStatus,
-            permissionRequest: undefined, // Clear any pending permission request
-          },
-        };
-      }),
-    );
+    cancelUnfinishedToolCalls();
 
     // Send cancel notification to server (which forwards to agent)
     client.cancel();
@@ -831,13 +1754,23 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
   const renderToolCall = (entry: ToolCallEntry) => {
     const tool = entry.toolCall;
     const toolOutput = formatToolOutput(tool.content, tool.rawOutput);
+    const terminalIds = getTerminalIds(tool.content);
+    const diffs = (tool.content ?? []).filter((item): item is ToolCallDiffContent => item.type === "diff");
+    const isWaitingForConfirmation = tool.status === "waiting_for_confirmation" && !!tool.permissionRequest;
     const hasOutput =
       tool.status !== "running" && tool.status !== "waiting_for_confirmation" && toolOutput !== null;
+    const renderDiffs = () =>
+      diffs.map((diff, index) => (
+        <ToolDiff key={`${index}-${diff.path}`} path={diff.path} oldText={diff.oldText} newText={diff.newText} />
+      ));
 
     return (
       <Tool
         key={tool.id}
-        defaultOpen={hasOutput || tool.status === "waiting_for_confirmation"}
+        // Terminals stream while running, so keep them open from the start
+        defaultOpen={
+          hasOutput || terminalIds.length > 0 || diffs.length > 0 || tool.status === "waiting_for_confirmation"
+        }
         className={tool.status === "rejected" ? "border-dashed border-orange-500/50" : undefined}
       >
         <ToolHeader
@@ -847,13 +1780,31 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
         />
         <ToolContent>
           {tool.rawInput && <ToolInput input={tool.rawInput} />}
+          {terminalIds.length > 0 && (
+            <div className="space-y-2 px-4 pb-4">
+              {terminalIds.map((terminalId) => (
+                <ToolCallTerminal
+                  key={terminalId}
+                  client={client}
+                  terminalId={terminalId}
+                  snapshot={terminalSnapshots?.[terminalId]}
+                />
+              ))}
+            </div>
+          )}
+          {/* A pending edit's diff sits in the confirmation, so what is approved is what is shown */}
+          {diffs.length > 0 && !isWaitingForConfirmation && (
+            <div className="space-y-2 px-4 pb-4">{renderDiffs()}</div>
+          )}
           {/* Show permission buttons when waiting for confirmation */}
-          {tool.status === "waiting_for_confirmation" && tool.permissionRequest && (
+          {isWaitingForConfirmation && tool.permissionRequest && (
             <ToolPermissionButtons
               requestId={tool.permissionRequest.requestId}
               options={tool.permissionRequest.options}
               onRespond={handlePermissionResponse}
-            />
+            >
+              {diffs.length > 0 && renderDiffs()}
+            </ToolPermissionButtons>
           )}
           {/* Show output for completed/error states */}
           {tool.status !== "waiting_for_confirmation" && tool.status !== "rejected" && (
@@ -867,17 +1818,42 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
     );
   };
 
+  // Fork action under each message; hidden until hover, and while a prompt runs
+  const canFork = sessionReady && !isLoading && !importedThread;
+  const getJumpTargetProps = (index: number) =>
+    index === highlightedEntryIndex
+      ? { [JUMP_TARGET_ATTR]: "true", className: "rounded-lg ring-2 ring-primary/50 ring-offset-2 ring-offset-background" }
+      : {};
+  const renderForkAction = (index: number) => (
+    <MessageActions className="opacity-0 transition-opacity group-hover:opacity-100 group-[.is-user]:justify-end">
+      <MessageAction tooltip="Fork from here" onClick={() => handleFork(index, index === lastMessageIndex)}>
+        <GitForkIcon className="size-3.5" />
+      </MessageAction>
+    </MessageActions>
+  );
+
+  // The cached copy stands in until the replay has caught up with it
+  const showCachedTranscript =
+    isReplaying && cachedTranscript !== null && entries.length < cachedTranscript.entries.length;
+  // An imported thread replaces the live one in the message list until it is closed
+  const visibleEntries =
+    importedThread?.entries ?? (showCachedTranscript ? cachedTranscript.entries : entries);
+  const terminalSnapshots = (importedThread ?? cachedTranscript)?.terminals;
+
   // Check if we should show thinking indicator
-  const showThinkingIndicator = isLoading && entries.length > 0 &&
+  const showThinkingIndicator = !importedThread && isLoading && entries.length > 0 &&
     entries[entries.length - 1]?.type === "user_message";
 
   const chatStatus = isLoading ? "streaming" : "ready";
 
   // Find the index of the last user message for scroll-to-last-user-message feature
   // Reference: Issue #3 - Provide a feature to locate the last human message
-  const lastUserMessageIndex = entries.reduce((lastIndex, entry, index) => {
+  const lastUserMessageIndex = visibleEntries.reduce((lastIndex, entry, index) => {
     return entry.type === "user_message" ? index : lastIndex;
   }, -1);
+  const lastMessageIndex = visibleEntries.reduce((lastIndex, entry, index) => {
+    return entry.type === "user_message" || entry.type === "assistant_message" ? index : lastIndex;
+  }, -1);
 
   // =============================================================================
   // Render
@@ -886,21 +1862,35 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
 
   return (
     <div className="flex flex-col h-full">
+      {threadTabs.length > 0 && (
+        <ThreadTabs
+          tabs={threadTabs}
+          activeSessionId={activeSessionId}
+          disabled={isLoading || !sessionReady}
+          onSelect={handleSelectThreadTab}
+          onClose={handleCloseThreadTab}
+        />
+      )}
       {/* Messages area */}
       <Conversation className="flex-1">
         <ConversationContent>
-          {!sessionReady ? (
+          {!sessionReady && !showCachedTranscript ? (
             <div className="flex items-center justify-center p-4">
               <Shimmer>Creating session...</Shimmer>
             </div>
-          ) : entries.length === 0 ? (
+          ) : visibleEntries.length === 0 ? (
             <ConversationEmptyState
               title="Start a conversation"
               description="Type a message below to chat with the ACP agent"
             />
           ) : (
             <>
-              {entries.map((entry, index) => {
+              {showCachedTranscript && (
+                <div className="flex items-center justify-center p-2">
+                  <Shimmer>Showing the saved copy while the agent loads this thread...</Shimmer>
+                </div>
+              )}
+              {visibleEntries.map((entry, index) => {
                 // Render UserMessage
                 // Reference: Zed's render_image_output() displays images in user messages
                 if (entry.type === "user_message") {
@@ -912,12 +1902,13 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
                       key={entry.id}
                       from="user"
                       {...(isLastUserMessage && { [LAST_USER_MESSAGE_ATTR]: "true" })}
+                      {...getJumpTargetProps(index)}
                     >
                       <MessageContent>
-                        {/* Show images using MessageAttachment component */}
-                        {entry.images && entry.images.length > 0 && (
+                        {/* Show images and other files using MessageAttachment component */}
+                        {(entry.images || entry.files) && (
                           <MessageAttachments>
-                            {entry.images.map((img, imgIndex) => (
+                            {entry.images?.map((img, imgIndex) => (
                               <MessageAttachment
                                 key={imgIndex}
                                 data={{
@@ -927,6 +1918,18 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
                                 }}
                               />
                             ))}
+                            {entry.files?.map((file, fileIndex) => (
+                              <MessageAttachment
+                                key={`file-${fileIndex}`}
+                                data={{
+                                  type: "file",
+                                  mediaType: file.mimeType,
+                                  filename: file.name,
+                                  url: "",
+                                }}
+                                size={file.size}
+                              />
+                            ))}
                           </MessageAttachments>
                         )}
                         {/* Show text content if present */}
@@ -934,6 +1937,7 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
                           <MessageResponse>{entry.content}</MessageResponse>
                         )}
                       </MessageContent>
+                      {canFork && renderForkAction(index)}
                     </Message>
                   );
                 }
@@ -941,7 +1945,7 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
                 // Render AssistantMessage (with chunks)
                 if (entry.type === "assistant_message") {
                   return (
-                    <Message key={entry.id} from="assistant">
+                    <Message key={entry.id} from="assistant" {...getJumpTargetProps(index)}>
                       <MessageContent>
                         {entry.chunks.map((chunk, chunkIndex) => {
                           if (chunk.type === "thought") {
@@ -964,6 +1968,7 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
                           return <MessageResponse key={chunkIndex}>{chunk.text}</MessageResponse>;
                         })}
                       </MessageContent>
+                      {canFork && renderForkAction(index)}
                     </Message>
                   );
                 }
@@ -971,7 +1976,7 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
                 // Render ToolCall (standalone entry)
                 if (entry.type === "tool_call") {
                   return (
-                    <Message key={entry.toolCall.id} from="assistant">
+                    <Message key={entry.toolCall.id} from="assistant" {...getJumpTargetProps(index)}>
                       <MessageContent>
                         {renderToolCall(entry)}
                       </MessageContent>
@@ -979,6 +1984,17 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
                   );
                 }
 
+                // Render Plan - pinned to the top while the turn it belongs to runs
+                if (entry.type === "plan") {
+                  if (entry.entries.length === 0) return null;
+                  const isPinned = isLoading && index > lastUserMessageIndex;
+                  return (
+                    <div key={entry.id} className={cn(isPinned && "sticky top-0 z-10")}>
+                      <AgentPlan entries={entry.entries} isStreaming={isPinned} />
+                    </div>
+                  );
+                }
+
                 return null;
               })}
 
@@ -999,35 +2015,57 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
 
       {/* Input area */}
       <div className="border-t p-4">
-        {/* Reference: Zed's MessageEditor conditionally shows attachment UI based on supports_images() */}
-        <PromptInput
-          onSubmit={handleSubmit}
-          accept={supportsImages ? "image/*" : undefined}
-          multiple={supportsImages}
-        >
-          {/* Show attachments header when images are supported */}
-          {supportsImages && (
-            <PromptInputHeader>
-              <PromptInputAttachments>
-                {/* children is called per-file, not with array */}
-                {(file) => <PromptInputAttachment data={file} />}
-              </PromptInputAttachments>
-            </PromptInputHeader>
-          )}
+        <AgentConsole client={client} className="mb-2" />
+        {agentRecovery && <AgentRecoveryNotice event={agentRecovery} />}
+        {attachmentError && (
+          <ErrorNotice message={attachmentError} onDismiss={() => setAttachmentError(null)} />
+        )}
+        {threadFileError && (
+          <ErrorNotice message={threadFileError} onDismiss={() => setThreadFileError(null)} />
+        )}
+        {importedThread && (
+          <ImportedThreadNotice thread={importedThread} onClose={() => setImportedThread(null)} />
+        )}
+        {/* Outside PromptInput so the picked file isn't taken as an attachment */}
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleImportFile}
+        />
+        {/* Any file can be attached; handleSubmit maps it to a block the agent accepts */}
+        <PromptInput onSubmit={handleSubmit} multiple>
+          <PromptInputHeader>
+            <PromptInputAttachments>
+              {/* children is called per-file, not with array */}
+              {(file) => <PromptInputAttachment data={file} />}
+            </PromptInputAttachments>
+          </PromptInputHeader>
+          {/* Reference: Zed's slash command completion in the message editor */}
           <PromptInputTextarea
             placeholder={sessionReady ? "Type a message..." : "Waiting for session..."}
-            disabled={!sessionReady}
+            disabled={!sessionReady || !!importedThread}
+            commands={availableCommands}
+            onSearchFiles={handleSearchFiles}
+            onMentionFile={handleMentionFile}
           />
           <PromptInputFooter>
-            {/* Left side: Model selector and image button */}
+            {/* Left side: Mode and model selectors and attach button */}
             <div className="flex items-center gap-1">
+              {/* Reference: Zed's ModeSelector sits beside the model selector */}
+              <ModeSelector client={client} />
               {/* Reference: Zed's AcpModelSelectorPopover in message editor footer */}
               <ModelSelectorPopover client={client} />
-              {/* Reference: Zed's add_images_from_picker() shows image picker button only when supported */}
-              {supportsImages && <AddImageButton />}
+              <AddAttachmentButton />
             </div>
-            {/* Right side: New thread button (when has messages) and submit */}
+            {/* Right side: export menu, New thread button (when has messages) and submit */}
             <div className="flex items-center gap-1">
+              <ThreadFileMenu
+                canExport={visibleEntries.length > 0}
+                onExport={handleExportThread}
+                onImport={() => importInputRef.current?.click()}
+              />
               {/* New Thread button - only show when there are messages */}
               {/* Reference: Zed's new_thread_menu in agent_panel.rs */}
               {hasMessages && (
@@ -1046,14 +2084,28 @@ export function ChatInterface({ client }: ChatInterfaceProps) {
                   <TooltipContent>New Thread</TooltipContent>
                 </Tooltip>
               )}
+              {/* While loading this is the stop button; keep it from submitting (and clearing) the draft */}
               <PromptInputSubmit
                 status={chatStatus}
-                disabled={!sessionReady}
+                disabled={!sessionReady || (!!importedThread && !isLoading)}
+                type={isLoading ? "button" : "submit"}
                 onClick={isLoading ? handleCancel : undefined}
               />
             </div>
           </PromptInputFooter>
         </PromptInput>
+        {queuedPrompts.length > 0 && (
+          <PromptQueue
+            prompts={queuedPrompts}
+            paused={queuePaused}
+            pauseOnError={pauseQueueOnError}
+            onPauseOnErrorChange={setPauseQueueOnError}
+            onPausedChange={setQueuePaused}
+            onEdit={handleEditQueuedPrompt}
+            onMove={handleMoveQueuedPrompt}
+            onRemove={handleRemoveQueuedPrompt}
+          />
+        )}
       </div>
     </div>
   );
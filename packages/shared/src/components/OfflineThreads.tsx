@@ -0,0 +1,130 @@
+import { useState, useEffect, useMemo } from "react";
+import { ArrowLeft, HardDrive, Trash2 } from "lucide-react";
+import {
+  deleteCachedTranscript,
+  listCachedTranscripts,
+  type CachedTranscript,
+} from "../lib/transcript-cache";
+import { THREAD_EXPORT_FORMAT, THREAD_EXPORT_VERSION, threadToHtml } from "../lib/thread-export";
+import { ScrollArea } from "./ui/scroll-area";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+
+// Same display as the connection bar: host and path without the scheme and /ws
+function formatProxyUrl(proxyUrl: string): string {
+  return proxyUrl.replace(/^wss?:\/\//, "").replace(/\/ws$/, "");
+}
+
+/**
+ * Threads saved on this device, readable without a connection to the proxy.
+ * A thread opens as the standalone HTML export, in a sandboxed frame.
+ */
+export function OfflineThreads({ className }: { className?: string }) {
+  const [transcripts, setTranscripts] = useState<CachedTranscript[] | null>(null);
+  const [openTranscript, setOpenTranscript] = useState<CachedTranscript | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listCachedTranscripts().then((result) => {
+      if (!cancelled) setTranscripts(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const groups = useMemo(() => {
+    const byProxy = new Map<string, CachedTranscript[]>();
+    for (const transcript of transcripts ?? []) {
+      const group = byProxy.get(transcript.proxyUrl) ?? [];
+      group.push(transcript);
+      byProxy.set(transcript.proxyUrl, group);
+    }
+    return Array.from(byProxy.entries());
+  }, [transcripts]);
+
+  const html = useMemo(
+    () =>
+      openTranscript &&
+      threadToHtml({
+        format: THREAD_EXPORT_FORMAT,
+        version: THREAD_EXPORT_VERSION,
+        title: openTranscript.title,
+        sessionId: openTranscript.sessionId,
+        exportedAt: openTranscript.updatedAt,
+        entries: openTranscript.entries,
+        terminals: openTranscript.terminals,
+      }),
+    [openTranscript]
+  );
+
+  const handleDelete = async (transcript: CachedTranscript) => {
+    await deleteCachedTranscript(transcript.proxyUrl, transcript.sessionId);
+    setTranscripts((prev) => prev?.filter((item) => item !== transcript) ?? null);
+  };
+
+  // Nothing saved yet: the caller's "not connected" message is enough
+  if (!transcripts || transcripts.length === 0) return null;
+
+  if (openTranscript && html) {
+    return (
+      <div className={cn("flex flex-col min-h-0", className)}>
+        <div className="flex items-center gap-2 p-2 border-b border-border">
+          <Button variant="ghost" size="sm" onClick={() => setOpenTranscript(null)} className="shrink-0">
+            <ArrowLeft className="h-4 w-4" />
+            <span className="sr-only">Back to saved threads</span>
+          </Button>
+          <span className="text-sm truncate flex-1 min-w-0">{openTranscript.title}</span>
+          <span className="text-xs text-muted-foreground shrink-0">Saved copy, read only</span>
+        </div>
+        {/* No sandbox permissions: the export has no scripts and shouldn't run any */}
+        <iframe title={openTranscript.title} srcDoc={html} sandbox="" className="flex-1 w-full bg-white" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("flex flex-col min-h-0", className)}>
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-border text-sm text-muted-foreground">
+        <HardDrive className="h-4 w-4 shrink-0" />
+        Threads saved on this device
+      </div>
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-2">
+          {groups.map(([proxyUrl, group], groupIndex) => (
+            <div key={proxyUrl}>
+              <div className={cn("px-2 pb-1", groupIndex > 0 && "pt-3")}>
+                <span className="text-xs text-muted-foreground font-medium">{formatProxyUrl(proxyUrl)}</span>
+              </div>
+              {group.map((transcript) => (
+                <div key={transcript.sessionId} className="group relative">
+                  <button
+                    onClick={() => setOpenTranscript(transcript)}
+                    className="w-full min-w-0 flex items-center gap-2 px-3 py-2 rounded-md text-left transition-colors hover:bg-accent"
+                  >
+                    <span className="text-sm truncate flex-1 min-w-0">{transcript.title}</span>
+                    <span className="text-xs text-muted-foreground shrink-0 whitespace-nowrap">
+                      {new Date(transcript.updatedAt).toLocaleDateString()}
+                    </span>
+                    {/* Placeholder for the delete button, which overlays the row */}
+                    <span className="w-6 shrink-0" />
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Remove saved copy"
+                    onClick={() => handleDelete(transcript)}
+                    className="absolute right-1 top-1/2 h-6 w-6 -translate-y-1/2 p-0 opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Remove saved copy</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
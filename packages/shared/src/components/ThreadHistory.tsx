@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { Search, Clock, RefreshCw } from "lucide-react";
+import { Search, Clock, RefreshCw, GitFork, User, Bot, Wrench } from "lucide-react";
+import type { ReactNode } from "react";
 import type { ACPClient } from "../acp/client";
-import type { AgentSessionInfo } from "../acp/types";
+import type { AgentSessionInfo, SessionSearchResult } from "../acp/types";
 import { Input } from "./ui/input";
 import { ScrollArea } from "./ui/scroll-area";
 import { Button } from "./ui/button";
@@ -77,10 +78,40 @@ function formatRelativeTime(date: Date | null): string {
   return "Just now";
 }
 
+// Wait for a pause in typing before asking the proxy to search message text
+const MESSAGE_SEARCH_DEBOUNCE_MS = 250;
+
+const MESSAGE_KIND_ICONS: Record<SessionSearchResult["kind"], typeof User> = {
+  user: User,
+  agent: Bot,
+  tool: Wrench,
+};
+
+// Mark the query terms in a search snippet (split into words like the proxy's index does)
+function highlightTerms(text: string, query: string): ReactNode {
+  const terms = query.split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(${terms.join("|")})`, "giu");
+  // split() with a capture group puts the matches at the odd indexes
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="rounded-sm bg-yellow-200/70 text-inherit dark:bg-yellow-500/30">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+}
+
 interface ThreadHistoryProps {
   client: ACPClient;
   // Returns Promise to allow loading state tracking; resolves when session is loaded
   onSelectSession: (session: AgentSessionInfo) => void | Promise<void>;
+  // Shown as a per-thread action when the agent supports forking
+  onForkSession?: (session: AgentSessionInfo) => void | Promise<void>;
+  // Enables searching message text through the proxy's transcript index
+  onSelectSearchResult?: (result: SessionSearchResult, query: string) => void | Promise<void>;
 }
 
 interface GroupedSessions {
@@ -88,7 +119,7 @@ interface GroupedSessions {
   sessions: AgentSessionInfo[];
 }
 
-export function ThreadHistory({ client, onSelectSession }: ThreadHistoryProps) {
+export function ThreadHistory({ client, onSelectSession, onForkSession, onSelectSearchResult }: ThreadHistoryProps) {
   const [sessions, setSessions] = useState<AgentSessionInfo[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   // Start with isLoading=true to prevent flash of "no threads" message
@@ -97,6 +128,11 @@ export function ThreadHistory({ client, onSelectSession }: ThreadHistoryProps) {
   const [selectedIndex, setSelectedIndex] = useState(0);
   // Track which session is currently being loaded to show loading state and prevent double-clicks
   const [loadingSessionId, setLoadingSessionId] = useState<string | null>(null);
+  // Messages matching the search, ranked by the proxy
+  const [messageResults, setMessageResults] = useState<SessionSearchResult[]>([]);
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false);
+  // False when the proxy runs without a transcript index
+  const [messageSearchEnabled, setMessageSearchEnabled] = useState(true);
 
   // Check if session history is supported
   const supportsHistory = client.supportsSessionHistory;
@@ -130,6 +166,45 @@ export function ThreadHistory({ client, onSelectSession }: ThreadHistoryProps) {
     }
   }, [supportsHistory, loadSessions]);
 
+  const searchMessages = !!onSelectSearchResult;
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || !searchMessages) {
+      setMessageResults([]);
+      setIsSearchingMessages(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearchingMessages(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await client.searchSessions(query);
+        if (cancelled) return;
+        setMessageResults(response.results);
+        setMessageSearchEnabled(response.enabled);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("[ThreadHistory] Message search failed:", err);
+        setMessageResults([]);
+      } finally {
+        if (!cancelled) setIsSearchingMessages(false);
+      }
+    }, MESSAGE_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [client, searchMessages, searchQuery]);
+
+  // Agent titles are preferred over the proxy's (the thread's first prompt)
+  const sessionTitles = useMemo(
+    () => new Map(sessions.map((session) => [session.sessionId, session.title?.trim()])),
+    [sessions]
+  );
+
   // Filter and group sessions
   // Reference: Zed's add_list_separators and filter_search_results
   const groupedSessions = useMemo((): GroupedSessions[] => {
@@ -182,6 +257,37 @@ export function ThreadHistory({ client, onSelectSession }: ThreadHistoryProps) {
     [onSelectSession, loadingSessionId]
   );
 
+  // Shares the loading state with selection, since both switch the active session
+  const handleForkSession = useCallback(
+    async (session: AgentSessionInfo) => {
+      if (loadingSessionId || !onForkSession) return;
+
+      setLoadingSessionId(session.sessionId);
+      try {
+        await onForkSession(session);
+      } finally {
+        setLoadingSessionId(null);
+      }
+    },
+    [onForkSession, loadingSessionId]
+  );
+
+  const handleSelectSearchResult = useCallback(
+    async (result: SessionSearchResult) => {
+      if (loadingSessionId || !onSelectSearchResult) return;
+
+      setLoadingSessionId(result.sessionId);
+      try {
+        await onSelectSearchResult(result, searchQuery.trim());
+      } finally {
+        setLoadingSessionId(null);
+      }
+    },
+    [onSelectSearchResult, loadingSessionId, searchQuery]
+  );
+
+  const canFork = !!onForkSession && client.supportsForkSession;
+
   if (!supportsHistory) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-4 text-center">
@@ -236,7 +342,7 @@ export function ThreadHistory({ client, onSelectSession }: ThreadHistoryProps) {
           </div>
         )}
 
-        {!error && sessions.length > 0 && groupedSessions.length === 0 && (
+        {!error && sessions.length > 0 && groupedSessions.length === 0 && messageResults.length === 0 && !isSearchingMessages && (
           <div className="flex flex-col items-center justify-center h-full p-8 text-center">
             <p className="text-muted-foreground text-sm">
               No threads match your search.
@@ -263,39 +369,105 @@ export function ThreadHistory({ client, onSelectSession }: ThreadHistoryProps) {
                 const isAnyLoading = loadingSessionId !== null;
                 const date = session.updatedAt ? new Date(session.updatedAt) : null;
 
+                return (
+                  <div key={session.sessionId} className="group relative">
+                    <button
+                      disabled={isAnyLoading}
+                      onClick={() => {
+                        setSelectedIndex(globalIdx);
+                        handleSelectSession(session);
+                      }}
+                      className={cn(
+                        // min-w-0 is required for truncate to work in flex containers
+                        "w-full min-w-0 flex items-center gap-2 px-3 py-2 rounded-md text-left transition-colors",
+                        "hover:bg-accent",
+                        isSelected && "bg-accent",
+                        isAnyLoading && !isLoadingThis && "opacity-50 cursor-not-allowed",
+                        isLoadingThis && "bg-accent"
+                      )}
+                    >
+                      {/* min-w-0 + truncate ensures long titles are clipped with ellipsis */}
+                      <span className="text-sm truncate flex-1 min-w-0">
+                        {session.title && session.title.trim() ? session.title : "New Thread"}
+                      </span>
+                      <span className="text-xs text-muted-foreground shrink-0 whitespace-nowrap">
+                        {isLoadingThis ? (
+                          <RefreshCw className="h-3 w-3 animate-spin" />
+                        ) : (
+                          formatRelativeTime(date)
+                        )}
+                      </span>
+                      {/* Placeholder for the fork button, which overlays the row */}
+                      {canFork && <span className="w-6 shrink-0" />}
+                    </button>
+                    {canFork && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Fork thread"
+                        disabled={isAnyLoading}
+                        onClick={() => handleForkSession(session)}
+                        className="absolute right-1 top-1/2 h-6 w-6 -translate-y-1/2 p-0 opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100"
+                      >
+                        <GitFork className="h-3.5 w-3.5" />
+                        <span className="sr-only">Fork thread</span>
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          {/* Message text matches from the proxy's transcript index */}
+          {searchMessages && searchQuery.trim() && (
+            <div>
+              <div className={cn("flex items-center gap-2 px-2 pb-1", groupedSessions.length > 0 && "pt-3")}>
+                <span className="text-xs text-muted-foreground font-medium">Messages</span>
+                {isSearchingMessages && <RefreshCw className="h-3 w-3 text-muted-foreground animate-spin" />}
+              </div>
+              {!messageSearchEnabled && (
+                <p className="px-3 py-2 text-xs text-muted-foreground">
+                  Message search is off: the proxy was started with --no-history-index.
+                </p>
+              )}
+              {messageResults.map((result) => {
+                const Icon = MESSAGE_KIND_ICONS[result.kind];
+                const isLoadingThis = loadingSessionId === result.sessionId;
+                const isAnyLoading = loadingSessionId !== null;
                 return (
                   <button
-                    key={session.sessionId}
+                    key={`${result.sessionId}-${result.turn}-${result.kind}-${result.toolCallId ?? result.snippet}`}
                     disabled={isAnyLoading}
-                    onClick={() => {
-                      setSelectedIndex(globalIdx);
-                      handleSelectSession(session);
-                    }}
+                    onClick={() => handleSelectSearchResult(result)}
                     className={cn(
-                      // min-w-0 is required for truncate to work in flex containers
-                      "w-full min-w-0 flex items-center gap-2 px-3 py-2 rounded-md text-left transition-colors",
+                      "w-full min-w-0 flex flex-col gap-0.5 px-3 py-2 rounded-md text-left transition-colors",
                       "hover:bg-accent",
-                      isSelected && "bg-accent",
                       isAnyLoading && !isLoadingThis && "opacity-50 cursor-not-allowed",
                       isLoadingThis && "bg-accent"
                     )}
                   >
-                    {/* min-w-0 + truncate ensures long titles are clipped with ellipsis */}
-                    <span className="text-sm truncate flex-1 min-w-0">
-                      {session.title && session.title.trim() ? session.title : "New Thread"}
+                    <span className="flex w-full min-w-0 items-center gap-2">
+                      <span className="text-sm truncate flex-1 min-w-0">
+                        {sessionTitles.get(result.sessionId) || result.title}
+                      </span>
+                      <span className="text-xs text-muted-foreground shrink-0 whitespace-nowrap">
+                        {isLoadingThis ? (
+                          <RefreshCw className="h-3 w-3 animate-spin" />
+                        ) : (
+                          formatRelativeTime(new Date(result.updatedAt))
+                        )}
+                      </span>
                     </span>
-                    <span className="text-xs text-muted-foreground shrink-0 whitespace-nowrap">
-                      {isLoadingThis ? (
-                        <RefreshCw className="h-3 w-3 animate-spin" />
-                      ) : (
-                        formatRelativeTime(date)
-                      )}
+                    <span className="flex w-full min-w-0 items-start gap-1.5 text-xs text-muted-foreground">
+                      <Icon className="mt-0.5 h-3 w-3 shrink-0" />
+                      <span className="line-clamp-2 break-words">{highlightTerms(result.snippet, searchQuery)}</span>
                     </span>
                   </button>
                 );
               })}
             </div>
-          ))}
+          )}
         </div>
       </ScrollArea>
     </div>
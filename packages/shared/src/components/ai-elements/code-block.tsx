@@ -12,7 +12,14 @@ import {
   useRef,
   useState,
 } from "react";
-import { type BundledLanguage, codeToHtml, type ShikiTransformer } from "shiki";
+import {
+  type BundledLanguage,
+  bundledLanguages,
+  codeToHtml,
+  codeToTokensBase,
+  type ShikiTransformer,
+  type ThemedToken,
+} from "shiki";
 
 type CodeBlockProps = HTMLAttributes<HTMLDivElement> & {
   code: string;
@@ -72,6 +79,26 @@ export async function highlightCode(
   ]);
 }
 
+// Tokens per line for the light and dark theme, for views that lay out lines
+// themselves (like ToolDiff) instead of taking shiki's <pre>
+export async function highlightLines(
+  code: string,
+  language: BundledLanguage
+): Promise<[ThemedToken[][], ThemedToken[][]]> {
+  return await Promise.all([
+    codeToTokensBase(code, { lang: language, theme: "one-light" }),
+    codeToTokensBase(code, { lang: language, theme: "one-dark-pro" }),
+  ]);
+}
+
+// Pick a language from a file's extension (or its name, e.g. Dockerfile);
+// null when shiki has no grammar for it
+export function getLanguageForPath(path: string): BundledLanguage | null {
+  const name = path.split(/[\\/]/).pop()?.toLowerCase() ?? "";
+  const extension = name.includes(".") ? name.slice(name.lastIndexOf(".") + 1) : name;
+  return extension in bundledLanguages ? (extension as BundledLanguage) : null;
+}
+
 export const CodeBlock = ({
   code,
   language,
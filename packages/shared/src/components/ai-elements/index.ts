@@ -2,8 +2,11 @@ export * from "./code-block";
 export * from "./conversation";
 export * from "./message";
 export * from "./permission-request";
+export * from "./plan";
 export * from "./prompt-input";
+export * from "./queue";
 export * from "./reasoning";
 export * from "./shimmer";
+export * from "./terminal";
 export * from "./tool";
 
@@ -16,6 +16,8 @@ import type { FileUIPart, UIMessage } from "ai";
 import {
   ChevronLeftIcon,
   ChevronRightIcon,
+  FileAudioIcon,
+  FileTextIcon,
   PaperclipIcon,
   XIcon,
 } from "lucide-react";
@@ -326,12 +328,34 @@ export type MessageAttachmentProps = HTMLAttributes<HTMLDivElement> & {
   data: FileUIPart;
   className?: string;
   onRemove?: () => void;
+  /** File size in bytes, shown for non-image attachments */
+  size?: number;
+};
+
+const formatAttachmentSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const getAttachmentIcon = (mediaType?: string) => {
+  if (mediaType?.startsWith("audio/")) {
+    return FileAudioIcon;
+  }
+  if (
+    mediaType?.startsWith("text/") ||
+    mediaType === "application/json" ||
+    mediaType === "application/pdf"
+  ) {
+    return FileTextIcon;
+  }
+  return PaperclipIcon;
 };
 
 export function MessageAttachment({
   data,
   className,
   onRemove,
+  size,
   ...props
 }: MessageAttachmentProps) {
   const filename = data.filename || "";
@@ -339,6 +363,7 @@ export function MessageAttachment({
     data.mediaType?.startsWith("image/") && data.url ? "image" : "file";
   const isImage = mediaType === "image";
   const attachmentLabel = filename || (isImage ? "Image" : "Attachment");
+  const FileIcon = getAttachmentIcon(data.mediaType);
 
   return (
     <div
@@ -377,12 +402,23 @@ export function MessageAttachment({
         <>
           <Tooltip>
             <TooltipTrigger asChild>
-              <div className="flex size-full shrink-0 items-center justify-center rounded-lg bg-muted text-muted-foreground">
-                <PaperclipIcon className="size-4" />
+              <div className="flex size-full shrink-0 flex-col items-center justify-center gap-1 rounded-lg bg-muted p-2 text-muted-foreground">
+                <FileIcon className="size-5 shrink-0" />
+                {filename && (
+                  <span className="w-full truncate text-center text-xs">
+                    {filename}
+                  </span>
+                )}
+                {size !== undefined && (
+                  <span className="text-[10px]">{formatAttachmentSize(size)}</span>
+                )}
               </div>
             </TooltipTrigger>
             <TooltipContent>
               <p>{attachmentLabel}</p>
+              {data.mediaType && (
+                <p className="font-mono text-xs opacity-80">{data.mediaType}</p>
+              )}
             </TooltipContent>
           </Tooltip>
           {onRemove && (
@@ -3,6 +3,7 @@
 import { cn } from "../../lib/utils";
 import { Button } from "../ui/button";
 import { ShieldAlertIcon, CheckIcon, XIcon } from "lucide-react";
+import type { ReactNode } from "react";
 import type { PermissionOption } from "../../acp/types";
 
 // Get button variant based on option kind
@@ -39,9 +40,11 @@ export interface ToolPermissionButtonsProps {
   options: PermissionOption[];
   onRespond: (requestId: string, optionId: string | null, optionKind: PermissionOption["kind"] | null) => void;
   className?: string;
+  // What the agent asks to do (e.g. the diff of an edit), shown above the options
+  children?: ReactNode;
 }
 
-export function ToolPermissionButtons({ requestId, options, onRespond, className }: ToolPermissionButtonsProps) {
+export function ToolPermissionButtons({ requestId, options, onRespond, className, children }: ToolPermissionButtonsProps) {
   const handleOptionClick = (option: PermissionOption) => {
     onRespond(requestId, option.optionId, option.kind);
   };
@@ -54,6 +57,7 @@ export function ToolPermissionButtons({ requestId, options, onRespond, className
           Permission Required
         </span>
       </div>
+      {children && <div className="mb-3 space-y-2">{children}</div>}
       <div className="flex flex-wrap gap-2">
         {options.map((option) => (
           <Button
@@ -1,6 +1,6 @@
 "use client";
 
-import { Button } from "@chrome-acp/shared/components/ui/button";
+import { Button } from "../ui/button";
 import {
   Card,
   CardAction,
@@ -9,13 +9,13 @@ import {
   CardFooter,
   CardHeader,
   CardTitle,
-} from "@chrome-acp/shared/components/ui/card";
+} from "../ui/card";
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
-} from "@chrome-acp/shared/components/ui/collapsible";
-import { cn } from "@chrome-acp/shared/lib/utils";
+} from "../ui/collapsible";
+import { cn } from "../../lib/utils";
 import { ChevronsUpDownIcon } from "lucide-react";
 import type { ComponentProps } from "react";
 import { createContext, useContext } from "react";
@@ -16,6 +16,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "../ui/dropdown-menu";
+import { Popover, PopoverAnchor, PopoverContent } from "../ui/popover";
 import {
   HoverCard,
   HoverCardContent,
@@ -35,6 +36,7 @@ import {
   SelectValue,
 } from "../ui/select";
 import { cn } from "../../lib/utils";
+import type { AvailableCommand, FileSearchResult } from "../../acp/types";
 import type { ChatStatus, FileUIPart } from "ai";
 import {
   CornerDownLeftIcon,
@@ -58,6 +60,7 @@ import {
   type FormEventHandler,
   Fragment,
   type HTMLAttributes,
+  type KeyboardEvent,
   type KeyboardEventHandler,
   type PropsWithChildren,
   type ReactNode,
@@ -860,21 +863,332 @@ export const PromptInputBody = ({
   <div className={cn("contents", className)} {...props} />
 );
 
+// The command name being typed: "/rev" -> "rev". Null once arguments start.
+const getSlashCommandQuery = (text: string): string | null => {
+  const match = /^\/(\S*)$/.exec(text);
+  return match ? (match[1] ?? "").toLowerCase() : null;
+};
+
+// Commands whose name contains the query, prefix matches first
+const filterSlashCommands = (
+  commands: AvailableCommand[],
+  query: string
+): AvailableCommand[] => {
+  const matches = commands.filter((command) =>
+    command.name.toLowerCase().includes(query)
+  );
+  return [
+    ...matches.filter((command) => command.name.toLowerCase().startsWith(query)),
+    ...matches.filter((command) => !command.name.toLowerCase().startsWith(query)),
+  ];
+};
+
+// The command whose input hint applies: "/review " with no arguments yet
+const getHintedCommand = (
+  commands: AvailableCommand[],
+  text: string
+): AvailableCommand | null => {
+  const match = /^\/(\S+)\s+$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  return (
+    commands.find((command) => command.name === match[1] && command.input) ??
+    null
+  );
+};
+
+// The "@" mention being typed right before the caret: "see @src/ma" -> "src/ma"
+const getMentionQuery = (
+  text: string,
+  caret: number
+): { query: string; start: number } | null => {
+  const match = /(^|\s)@(\S*)$/.exec(text.slice(0, caret));
+  if (!match) {
+    return null;
+  }
+  const query = match[2] ?? "";
+  return { query, start: caret - query.length - 1 };
+};
+
+// Wait for a pause in typing before searching files
+const MENTION_SEARCH_DELAY_MS = 100;
+
+// An entry in the autocomplete palette (a slash command or a file)
+export type PromptInputSuggestion = {
+  key: string;
+  label: string;
+  hint?: string;
+  description?: string;
+};
+
+export type PromptInputSuggestionsProps = Omit<
+  HTMLAttributes<HTMLDivElement>,
+  "onSelect"
+> & {
+  items: PromptInputSuggestion[];
+  highlightedIndex: number;
+  onHighlight: (index: number) => void;
+  onSelect: (index: number) => void;
+};
+
+// Autocomplete list shown above the input while a command or mention is typed
+export const PromptInputSuggestions = ({
+  items,
+  highlightedIndex,
+  onHighlight,
+  onSelect,
+  className,
+  ...props
+}: PromptInputSuggestionsProps) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the highlighted item in view while moving with the arrow keys
+  useEffect(() => {
+    const item = listRef.current?.children[highlightedIndex];
+    item?.scrollIntoView({ block: "nearest" });
+  }, [highlightedIndex]);
+
+  return (
+    <div
+      className={cn("max-h-64 overflow-y-auto", className)}
+      ref={listRef}
+      role="listbox"
+      {...props}
+    >
+      {items.map((item, index) => (
+        <div
+          aria-selected={index === highlightedIndex}
+          className={cn(
+            "flex cursor-pointer flex-col gap-0.5 rounded-sm px-2 py-1.5 text-sm",
+            index === highlightedIndex && "bg-accent text-accent-foreground"
+          )}
+          key={item.key}
+          // Keep focus in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(index)}
+          onMouseEnter={() => onHighlight(index)}
+          role="option"
+        >
+          <span className="truncate font-mono">
+            {item.label}
+            {item.hint && (
+              <span className="ml-2 text-muted-foreground">{item.hint}</span>
+            )}
+          </span>
+          {item.description && (
+            <span className="truncate text-muted-foreground text-xs">
+              {item.description}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
 export type PromptInputTextareaProps = ComponentProps<
   typeof InputGroupTextarea
->;
+> & {
+  /** Slash commands offered in a palette when the input starts with "/" */
+  commands?: AvailableCommand[];
+  /** Searches workspace files for "@" mentions */
+  onSearchFiles?: (query: string) => Promise<FileSearchResult[]>;
+  /** Called when a file is picked from the "@" palette */
+  onMentionFile?: (file: FileSearchResult) => void;
+};
 
 export const PromptInputTextarea = ({
   onChange,
+  onSelect,
   className,
   placeholder = "What would you like to know?",
+  commands = [],
+  onSearchFiles,
+  onMentionFile,
   ...props
 }: PromptInputTextareaProps) => {
   const controller = useOptionalPromptInputController();
   const attachments = usePromptInputAttachments();
   const [isComposing, setIsComposing] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Mirror of the uncontrolled value and caret, used for the palette
+  const [text, setText] = useState("");
+  const [caret, setCaret] = useState(0);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [paletteDismissed, setPaletteDismissed] = useState(false);
+  const [fileResults, setFileResults] = useState<FileSearchResult[]>([]);
+
+  const value = controller ? controller.textInput.value : text;
+  const commandQuery = getSlashCommandQuery(value);
+  const matchingCommands = useMemo(
+    () =>
+      commandQuery === null ? [] : filterSlashCommands(commands, commandQuery),
+    [commands, commandQuery]
+  );
+  const mention = onSearchFiles ? getMentionQuery(value, caret) : null;
+  const mentionQuery = mention?.query ?? null;
+
+  // Search as the mention is typed; stale responses are dropped
+  useEffect(() => {
+    if (mentionQuery === null || !onSearchFiles) {
+      setFileResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      onSearchFiles(mentionQuery)
+        .then((results) => {
+          if (!cancelled) {
+            setFileResults(results);
+            setHighlightedIndex(0);
+          }
+        })
+        .catch(() => {
+          if (!cancelled) {
+            setFileResults([]);
+          }
+        });
+    }, MENTION_SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mentionQuery, onSearchFiles]);
+
+  const paletteMode =
+    matchingCommands.length > 0
+      ? "commands"
+      : mention && fileResults.length > 0
+        ? "files"
+        : null;
+  const suggestions: PromptInputSuggestion[] =
+    paletteMode === "commands"
+      ? matchingCommands.map((command) => ({
+          key: command.name,
+          label: `/${command.name}`,
+          hint: command.input?.hint,
+          description: command.description,
+        }))
+      : paletteMode === "files"
+        ? fileResults.map((file) => ({
+            key: file.path,
+            label: file.name,
+            description: file.path,
+          }))
+        : [];
+  const paletteOpen = !paletteDismissed && suggestions.length > 0;
+  const hintedCommand = paletteDismissed ? null : getHintedCommand(commands, value);
+
+  // The form clears an uncontrolled textarea with reset(), which fires no change event
+  useEffect(() => {
+    const form = textareaRef.current?.form;
+    if (!form) {
+      return;
+    }
+    const handleReset = () => {
+      setText("");
+      setCaret(0);
+    };
+    form.addEventListener("reset", handleReset);
+    return () => form.removeEventListener("reset", handleReset);
+  }, []);
+
+  const updateText = (next: string, nextCaret = next.length) => {
+    setText(next);
+    setCaret(nextCaret);
+    setHighlightedIndex(0);
+    setPaletteDismissed(false);
+  };
+
+  // Replace the textarea value and put the caret after the inserted text
+  const replaceText = (next: string, nextCaret: number) => {
+    if (controller) {
+      controller.textInput.setInput(next);
+    } else if (textareaRef.current) {
+      textareaRef.current.value = next;
+    }
+    updateText(next, nextCaret);
+    // A controlled value lands on the next render
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  // Complete the command name; arguments (if any) follow after the space
+  const selectCommand = (command: AvailableCommand) => {
+    const next = `/${command.name} `;
+    replaceText(next, next.length);
+  };
+
+  // Replace "@query" with "@path"; the caller attaches the file itself
+  const selectFile = (file: FileSearchResult) => {
+    if (!mention) {
+      return;
+    }
+    const before = `${value.slice(0, mention.start)}@${file.path} `;
+    replaceText(before + value.slice(caret).replace(/^ /, ""), before.length);
+    onMentionFile?.(file);
+  };
+
+  const selectSuggestion = (index: number) => {
+    if (paletteMode === "commands") {
+      const command = matchingCommands[index];
+      if (command) {
+        selectCommand(command);
+      }
+    } else if (paletteMode === "files") {
+      const file = fileResults[index];
+      if (file) {
+        selectFile(file);
+      }
+    }
+  };
+
+  // Returns true when the key was handled by the palette
+  const handlePaletteKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlightedIndex(
+        (index) => (index + step + suggestions.length) % suggestions.length
+      );
+      return true;
+    }
+    if (e.key === "Escape") {
+      e.preventDefault();
+      setPaletteDismissed(true);
+      return true;
+    }
+    if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+      const index = Math.min(highlightedIndex, suggestions.length - 1);
+      const command = paletteMode === "commands" ? matchingCommands[index] : undefined;
+      // A fully typed command without input is sent as is
+      if (
+        e.key === "Enter" &&
+        command &&
+        command.name.toLowerCase() === commandQuery &&
+        !command.input
+      ) {
+        return false;
+      }
+      e.preventDefault();
+      selectSuggestion(index);
+      return true;
+    }
+    return false;
+  };
 
   const handleKeyDown: KeyboardEventHandler<HTMLTextAreaElement> = (e) => {
+    if (
+      paletteOpen &&
+      !(isComposing || e.nativeEvent.isComposing) &&
+      handlePaletteKeyDown(e)
+    ) {
+      return;
+    }
+
     if (e.key === "Enter") {
       if (isComposing || e.nativeEvent.isComposing) {
         return;
@@ -940,25 +1254,70 @@ export const PromptInputTextarea = ({
         value: controller.textInput.value,
         onChange: (e: ChangeEvent<HTMLTextAreaElement>) => {
           controller.textInput.setInput(e.currentTarget.value);
+          updateText(e.currentTarget.value, e.currentTarget.selectionStart);
           onChange?.(e);
         },
       }
     : {
-        onChange,
+        onChange: (e: ChangeEvent<HTMLTextAreaElement>) => {
+          updateText(e.currentTarget.value, e.currentTarget.selectionStart);
+          onChange?.(e);
+        },
       };
 
+  // The input group clips its content, so the palette opens in a popover
   return (
-    <InputGroupTextarea
-      className={cn("field-sizing-content max-h-48 min-h-16", className)}
-      name="message"
-      onCompositionEnd={() => setIsComposing(false)}
-      onCompositionStart={() => setIsComposing(true)}
-      onKeyDown={handleKeyDown}
-      onPaste={handlePaste}
-      placeholder={placeholder}
-      {...props}
-      {...controlledProps}
-    />
+    <Popover
+      onOpenChange={(open) => !open && setPaletteDismissed(true)}
+      open={paletteOpen || !!hintedCommand}
+    >
+      <PopoverAnchor asChild>
+        <InputGroupTextarea
+          className={cn("field-sizing-content max-h-48 min-h-16", className)}
+          name="message"
+          onCompositionEnd={() => setIsComposing(false)}
+          onCompositionStart={() => setIsComposing(true)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          // Track the caret so "@" mentions work mid-text
+          onSelect={(e) => {
+            setCaret(e.currentTarget.selectionStart);
+            onSelect?.(e);
+          }}
+          placeholder={placeholder}
+          ref={textareaRef}
+          {...props}
+          {...controlledProps}
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-[var(--radix-popover-trigger-width)] p-1"
+        // Typing continues in the textarea
+        onOpenAutoFocus={(e) => e.preventDefault()}
+        onInteractOutside={(e) => {
+          if (e.target === textareaRef.current) {
+            e.preventDefault();
+          }
+        }}
+        side="top"
+      >
+        {paletteOpen ? (
+          <PromptInputSuggestions
+            highlightedIndex={Math.min(highlightedIndex, suggestions.length - 1)}
+            items={suggestions}
+            onHighlight={setHighlightedIndex}
+            onSelect={selectSuggestion}
+          />
+        ) : (
+          hintedCommand?.input && (
+            <div className="truncate px-2 py-1 font-mono text-muted-foreground text-xs">
+              /{hintedCommand.name} {hintedCommand.input.hint}
+            </div>
+          )
+        )}
+      </PopoverContent>
+    </Popover>
   );
 };
 
@@ -1,13 +1,13 @@
 "use client";
 
-import { Button } from "@chrome-acp/shared/components/ui/button";
+import { Button } from "../ui/button";
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
-} from "@chrome-acp/shared/components/ui/collapsible";
-import { ScrollArea } from "@chrome-acp/shared/components/ui/scroll-area";
-import { cn } from "@chrome-acp/shared/lib/utils";
+} from "../ui/collapsible";
+import { ScrollArea } from "../ui/scroll-area";
+import { cn } from "../../lib/utils";
 import { ChevronDownIcon, PaperclipIcon } from "lucide-react";
 import type { ComponentProps } from "react";
 
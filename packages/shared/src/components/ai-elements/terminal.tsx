@@ -0,0 +1,98 @@
+"use client";
+
+import { Badge } from "../ui/badge";
+import { cn } from "../../lib/utils";
+import type { TerminalExitStatus } from "../../acp/types";
+import { CheckCircleIcon, ClockIcon, TerminalIcon, XCircleIcon } from "lucide-react";
+import { type ComponentProps, useEffect, useRef } from "react";
+
+// Distance from the bottom (px) within which new output keeps the view pinned
+const STICK_TO_BOTTOM_THRESHOLD = 24;
+
+export type TerminalProps = ComponentProps<"div"> & {
+  command: string;
+  output: string;
+  exitStatus: TerminalExitStatus | null;
+  truncated?: boolean;
+};
+
+const getExitBadge = (exitStatus: TerminalExitStatus | null) => {
+  if (!exitStatus) {
+    return (
+      <Badge className="gap-1.5 rounded-full text-xs" variant="secondary">
+        <ClockIcon className="size-3 animate-pulse" />
+        Running
+      </Badge>
+    );
+  }
+
+  const succeeded = exitStatus.exitCode === 0;
+  const label = exitStatus.signal
+    ? `Killed (${exitStatus.signal})`
+    : `Exit ${exitStatus.exitCode ?? "?"}`;
+
+  return (
+    <Badge className="gap-1.5 rounded-full text-xs" variant="secondary">
+      {succeeded ? (
+        <CheckCircleIcon className="size-3 text-green-600" />
+      ) : (
+        <XCircleIcon className="size-3 text-red-600" />
+      )}
+      {label}
+    </Badge>
+  );
+};
+
+// Live terminal output for ACP ToolCallTerminalContent
+// Reference: Zed's TerminalView embedded in tool call cards
+export const Terminal = ({
+  className,
+  command,
+  output,
+  exitStatus,
+  truncated = false,
+  ...props
+}: TerminalProps) => {
+  const outputRef = useRef<HTMLPreElement>(null);
+  const stickToBottom = useRef(true);
+
+  // Follow new output unless the user scrolled up to read earlier lines
+  useEffect(() => {
+    const el = outputRef.current;
+    if (el && stickToBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [output]);
+
+  const handleScroll = () => {
+    const el = outputRef.current;
+    if (!el) return;
+    stickToBottom.current =
+      el.scrollHeight - el.scrollTop - el.clientHeight < STICK_TO_BOTTOM_THRESHOLD;
+  };
+
+  return (
+    <div
+      className={cn("overflow-hidden rounded-md border bg-muted/50 text-xs", className)}
+      {...props}
+    >
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <TerminalIcon className="size-3.5 shrink-0 text-muted-foreground" />
+          <code className="truncate font-mono">{command || "Terminal"}</code>
+        </div>
+        {getExitBadge(exitStatus)}
+      </div>
+      <pre
+        ref={outputRef}
+        onScroll={handleScroll}
+        className="max-h-64 overflow-auto whitespace-pre-wrap break-all p-3 font-mono"
+      >
+        {truncated && (
+          <span className="text-muted-foreground">[... earlier output truncated]{"\n"}</span>
+        )}
+        {output || (exitStatus ? <span className="text-muted-foreground">(no output)</span> : null)}
+      </pre>
+    </div>
+  );
+};
@@ -1,24 +1,28 @@
 "use client";
 
 import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from "../ui/collapsible";
 import { cn } from "../../lib/utils";
+import { type DiffLine, diffLines, getDiffHunks } from "../../lib/line-diff";
 import type { ToolUIPart } from "ai";
 import {
   CheckCircleIcon,
   ChevronDownIcon,
   CircleIcon,
   ClockIcon,
+  FileDiffIcon,
   WrenchIcon,
   XCircleIcon,
 } from "lucide-react";
 import type { ComponentProps, ReactNode } from "react";
-import { isValidElement } from "react";
-import { CodeBlock } from "./code-block";
+import { isValidElement, useEffect, useMemo, useState } from "react";
+import type { BundledLanguage, ThemedToken } from "shiki";
+import { CodeBlock, getLanguageForPath, highlightLines } from "./code-block";
 
 export type ToolProps = ComponentProps<typeof Collapsible>;
 
@@ -169,3 +173,268 @@ export const ToolOutput = ({
   );
 };
 
+
+export type ToolDiffView = "unified" | "split";
+
+export type ToolDiffProps = ComponentProps<"div"> & {
+  path: string;
+  // Missing for a new file
+  oldText?: string | null;
+  newText: string;
+  defaultView?: ToolDiffView;
+};
+
+// Light and dark theme tokens, per line
+type LineTokens = [ThemedToken[][], ThemedToken[][]];
+
+// Bigger files are shown without highlighting
+const MAX_HIGHLIGHT_LENGTH = 200_000;
+
+// Shiki's FontStyle flags
+const FONT_STYLE_ITALIC = 1;
+const FONT_STYLE_BOLD = 2;
+const FONT_STYLE_UNDERLINE = 4;
+
+// The whole file is highlighted rather than each line, so multi-line
+// constructs (comments, template strings) keep their colors
+const useLineTokens = (code: string, language: BundledLanguage | null) => {
+  const [tokens, setTokens] = useState<LineTokens | null>(null);
+
+  useEffect(() => {
+    setTokens(null);
+    if (!code || !language || code.length > MAX_HIGHLIGHT_LENGTH) return;
+
+    let cancelled = false;
+    highlightLines(code, language)
+      .then((result) => {
+        if (!cancelled) setTokens(result);
+      })
+      .catch((error) => {
+        // Plain text is still readable
+        console.warn("[ToolDiff] Failed to highlight:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, language]);
+
+  return tokens;
+};
+
+const renderTokens = (tokens: ThemedToken[]) =>
+  tokens.map((token, index) => {
+    const fontStyle = token.fontStyle ?? 0;
+    return (
+      <span
+        key={index}
+        style={{
+          color: token.color,
+          fontStyle: fontStyle & FONT_STYLE_ITALIC ? "italic" : undefined,
+          fontWeight: fontStyle & FONT_STYLE_BOLD ? "bold" : undefined,
+          textDecoration: fontStyle & FONT_STYLE_UNDERLINE ? "underline" : undefined,
+        }}
+      >
+        {token.content}
+      </span>
+    );
+  });
+
+const DiffLineText = ({
+  text,
+  light,
+  dark,
+}: {
+  text: string;
+  light?: ThemedToken[];
+  dark?: ThemedToken[];
+}) => {
+  // A space keeps empty lines from collapsing
+  if (!light || !dark) return <>{text || " "}</>;
+  return (
+    <>
+      <span className="dark:hidden">{renderTokens(light)}</span>
+      <span className="hidden dark:inline">{renderTokens(dark)}</span>
+      {text === "" && " "}
+    </>
+  );
+};
+
+// Side-by-side rows: each run of removed lines faces the added lines that replace it
+type SplitRow = { left?: DiffLine; right?: DiffLine };
+
+const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      // Removals come before additions, so one after them starts another change
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+};
+
+const lineClassNames: Record<DiffLine["type"], string> = {
+  context: "",
+  added: "bg-green-500/10",
+  removed: "bg-red-500/10",
+};
+
+const lineSigns: Record<DiffLine["type"], string> = {
+  context: " ",
+  added: "+",
+  removed: "-",
+};
+
+const lineNumberClassName =
+  "w-10 select-none px-2 text-right align-top text-muted-foreground";
+const lineTextClassName = "whitespace-pre-wrap break-all px-2 align-top";
+
+/**
+ * A file edit (ToolCallContent "diff") as a unified or side-by-side diff.
+ */
+export const ToolDiff = ({
+  className,
+  path,
+  oldText,
+  newText,
+  defaultView = "unified",
+  ...props
+}: ToolDiffProps) => {
+  const [view, setView] = useState<ToolDiffView>(defaultView);
+  const language = useMemo(() => getLanguageForPath(path), [path]);
+  const oldTokens = useLineTokens(oldText ?? "", language);
+  const newTokens = useLineTokens(newText, language);
+
+  const lines = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+  const hunks = useMemo(() => getDiffHunks(lines), [lines]);
+  const addedCount = lines.filter((line) => line.type === "added").length;
+  const removedCount = lines.filter((line) => line.type === "removed").length;
+
+  // Removed lines come from the old file, everything else from the new one
+  const renderText = (line: DiffLine) => {
+    const tokens = line.type === "removed" ? oldTokens : newTokens;
+    const lineNumber = line.type === "removed" ? line.oldLine : line.newLine;
+    const index = (lineNumber ?? 0) - 1;
+    return (
+      <DiffLineText
+        text={line.text}
+        light={tokens?.[0][index]}
+        dark={tokens?.[1][index]}
+      />
+    );
+  };
+
+  return (
+    <div
+      className={cn("overflow-hidden rounded-md border bg-background text-xs", className)}
+      {...props}
+    >
+      <div className="flex items-center gap-2 border-b bg-muted/50 px-3 py-1.5">
+        <FileDiffIcon className="size-3.5 shrink-0 text-muted-foreground" />
+        <span className="min-w-0 flex-1 truncate font-mono" title={path}>
+          {path}
+        </span>
+        {oldText == null && (
+          <Badge className="rounded-full text-xs" variant="secondary">
+            New file
+          </Badge>
+        )}
+        <span className="shrink-0 font-mono">
+          <span className="text-green-600 dark:text-green-500">+{addedCount}</span>{" "}
+          <span className="text-red-600 dark:text-red-500">-{removedCount}</span>
+        </span>
+        <div className="flex shrink-0 gap-0.5">
+          {(["unified", "split"] as const).map((option) => (
+            <Button
+              key={option}
+              variant={view === option ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setView(option)}
+              className="h-6 px-2 text-xs capitalize"
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {hunks.length === 0 ? (
+        <div className="p-3 text-muted-foreground">No changes</div>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full table-fixed border-collapse font-mono">
+            {view === "unified" ? (
+              <colgroup>
+                <col className="w-10" />
+                <col className="w-10" />
+                <col className="w-5" />
+                <col />
+              </colgroup>
+            ) : (
+              <colgroup>
+                <col className="w-10" />
+                <col />
+                <col className="w-10" />
+                <col />
+              </colgroup>
+            )}
+            {hunks.map((hunk, hunkIndex) => (
+              <tbody key={hunkIndex}>
+                <tr className="bg-muted/50 text-muted-foreground">
+                  <td colSpan={4} className="px-2 py-0.5">
+                    @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                  </td>
+                </tr>
+                {view === "unified"
+                  ? hunk.lines.map((line, index) => (
+                      <tr key={index} className={lineClassNames[line.type]}>
+                        <td className={lineNumberClassName}>{line.oldLine}</td>
+                        <td className={lineNumberClassName}>{line.newLine}</td>
+                        <td className="select-none align-top text-muted-foreground">
+                          {lineSigns[line.type]}
+                        </td>
+                        <td className={lineTextClassName}>{renderText(line)}</td>
+                      </tr>
+                    ))
+                  : toSplitRows(hunk.lines).map(({ left, right }, index) => (
+                      <tr key={index}>
+                        <td className={cn(lineNumberClassName, left && lineClassNames[left.type])}>
+                          {left?.oldLine}
+                        </td>
+                        <td className={cn(lineTextClassName, "border-r", left ? lineClassNames[left.type] : "bg-muted/30")}>
+                          {left && renderText(left)}
+                        </td>
+                        <td className={cn(lineNumberClassName, right && lineClassNames[right.type])}>
+                          {right?.newLine}
+                        </td>
+                        <td className={cn(lineTextClassName, right ? lineClassNames[right.type] : "bg-muted/30")}>
+                          {right && renderText(right)}
+                        </td>
+                      </tr>
+                    ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
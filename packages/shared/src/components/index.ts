@@ -1,7 +1,10 @@
 export * from "./ACPConnect";
 export * from "./ACPMain";
+export * from "./AgentConsole";
 export * from "./ChatInterface";
 export * from "./ChatMessage";
 export * from "./FileExplorer";
+export * from "./OfflineThreads";
 export * from "./ThreadHistory";
 export * from "./model-selector";
+export * from "./mode-selector";
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { Button } from "../ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu";
+import type { ACPClient } from "../../acp/client";
+import { useModes } from "../../hooks/useModes";
+
+interface ModeSelectorProps {
+  /** ACPClient instance for mode state management */
+  client: ACPClient;
+  /** Callback when a mode is selected */
+  onModeSelect?: (modeId: string) => void;
+}
+
+/**
+ * Session mode selector (e.g. Claude Code's default / plan / accept edits / bypass permissions).
+ * Reference: Zed's ModeSelector in the message editor footer, next to the model selector.
+ */
+export function ModeSelector({ client, onModeSelect }: ModeSelectorProps) {
+  const [open, setOpen] = useState(false);
+  const { supportsModes, availableModes, currentMode, setMode } = useModes(client);
+
+  // Hide when the agent has no modes (matches Zed behavior)
+  if (!supportsModes) {
+    return null;
+  }
+
+  const handleSelect = async (modeId: string) => {
+    try {
+      await setMode(modeId);
+      onModeSelect?.(modeId);
+    } catch (error) {
+      console.error("[ModeSelector] Failed to set mode:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1.5 text-muted-foreground hover:text-foreground h-7 px-2"
+        >
+          <span className="max-w-32 truncate">
+            {currentMode?.name ?? "Select Mode"}
+          </span>
+          {open ? (
+            <ChevronUp className="h-3 w-3" />
+          ) : (
+            <ChevronDown className="h-3 w-3" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-64" align="start">
+        <DropdownMenuRadioGroup
+          value={currentMode?.id ?? ""}
+          onValueChange={handleSelect}
+        >
+          {availableModes.map((mode) => (
+            <DropdownMenuRadioItem key={mode.id} value={mode.id} className="items-start">
+              <div className="flex min-w-0 flex-col">
+                <span>{mode.name}</span>
+                {mode.description && (
+                  <span className="text-xs text-muted-foreground">{mode.description}</span>
+                )}
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1 @@
+export { ModeSelector } from "./ModeSelector";
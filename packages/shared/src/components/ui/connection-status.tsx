@@ -6,6 +6,7 @@ const connectionDotStyles: Record<ConnectionState, string> = {
   disconnected: "bg-gray-400",
   connecting: "bg-yellow-400 animate-pulse",
   connected: "bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.6)]",
+  reconnecting: "bg-yellow-400 animate-pulse",
   error: "bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.6)]",
 };
 
@@ -14,6 +15,7 @@ const connectionStateLabels: Record<ConnectionState, string> = {
   disconnected: "Disconnected",
   connecting: "Connecting...",
   connected: "Connected",
+  reconnecting: "Reconnecting...",
   error: "Error",
 };
 
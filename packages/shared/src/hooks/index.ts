@@ -1,3 +1,6 @@
 export { useModels, type UseModelsResult } from "./useModels";
+export { useModes, type UseModesResult } from "./useModes";
 export { useQRScanner, type QRCodeData, type UseQRScannerOptions, type UseQRScannerResult } from "./useQRScanner";
-
+export { useTerminal } from "./useTerminal";
+export { useAgentLog } from "./useAgentLog";
+export { useAvailableCommands } from "./useAvailableCommands";
@@ -0,0 +1,18 @@
+import { useState, useEffect } from "react";
+import type { ACPClient } from "../acp/client";
+import type { AgentLogEntry } from "../acp/types";
+
+/**
+ * Hook to follow the agent console (agent stderr and proxy warnings).
+ */
+export function useAgentLog(client: ACPClient): AgentLogEntry[] {
+  const [entries, setEntries] = useState<AgentLogEntry[]>(() => client.getAgentLog());
+
+  useEffect(() => {
+    // Catch up on anything that arrived between render and subscribe
+    setEntries(client.getAgentLog());
+    return client.onAgentLog(setEntries);
+  }, [client]);
+
+  return entries;
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from "react";
+import type { ACPClient } from "../acp/client";
+import type { AvailableCommand } from "../acp/types";
+
+/**
+ * Slash commands the agent announced for the active session.
+ * Updates when the agent sends available_commands_update or the session changes.
+ */
+export function useAvailableCommands(client: ACPClient): AvailableCommand[] {
+  const [commands, setCommands] = useState<AvailableCommand[]>(client.availableCommands);
+
+  useEffect(() => {
+    // Catch up on anything that arrived between render and subscribe
+    setCommands(client.availableCommands);
+    return client.onAvailableCommandsChange(setCommands);
+  }, [client]);
+
+  return commands;
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import type { ACPClient } from "../acp/client";
+import type { SessionMode, SessionModeState } from "../acp/types";
+
+export interface UseModesResult {
+  /** Whether the current session has modes */
+  supportsModes: boolean;
+  /** List of available modes */
+  availableModes: SessionMode[];
+  /** The currently active mode info */
+  currentMode: SessionMode | null;
+  /** Switch the current session to another mode */
+  setMode: (modeId: string) => Promise<void>;
+}
+
+/**
+ * Hook to manage session mode state.
+ * Reference: Zed's ModeSelector reads from state.available_modes and state.current_mode_id
+ *
+ * The mode can change from either side: the user picks one here, or the
+ * agent switches itself (e.g. leaving plan mode) with a current_mode_update.
+ */
+export function useModes(client: ACPClient): UseModesResult {
+  const [modeState, setModeState] = useState<SessionModeState | null>(client.modeState);
+
+  useEffect(() => {
+    // Catch up on anything that arrived between render and subscribe
+    setModeState(client.modeState);
+    return client.onModeStateChange(setModeState);
+  }, [client]);
+
+  const availableModes = useMemo(
+    () => modeState?.availableModes ?? [],
+    [modeState]
+  );
+
+  const currentMode = useMemo(
+    () => availableModes.find((m) => m.id === modeState?.currentModeId) ?? null,
+    [availableModes, modeState]
+  );
+
+  const setMode = useCallback(
+    async (modeId: string) => {
+      await client.setSessionMode(modeId);
+      // The mode_changed event will update the state
+    },
+    [client]
+  );
+
+  return {
+    supportsModes: availableModes.length > 0,
+    availableModes,
+    currentMode,
+    setMode,
+  };
+}
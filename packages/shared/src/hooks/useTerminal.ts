@@ -0,0 +1,29 @@
+import { useState, useEffect } from "react";
+import type { ACPClient } from "../acp/client";
+import type { TerminalState } from "../acp/types";
+
+/**
+ * Hook to follow a terminal's live output and exit status.
+ * Reference: Zed's TerminalView subscribes to the terminal entity for updates
+ *
+ * Returns null until the proxy has reported the terminal (e.g. when a
+ * session is loaded and its terminals are no longer running).
+ */
+export function useTerminal(client: ACPClient, terminalId: string): TerminalState | null {
+  const [terminal, setTerminal] = useState<TerminalState | null>(() =>
+    client.getTerminal(terminalId)
+  );
+
+  useEffect(() => {
+    // Catch up on anything that arrived between render and subscribe
+    setTerminal(client.getTerminal(terminalId));
+
+    return client.onTerminalUpdate((updated) => {
+      if (updated.terminalId === terminalId) {
+        setTerminal(updated);
+      }
+    });
+  }, [client, terminalId]);
+
+  return terminal;
+}
@@ -0,0 +1,160 @@
+import type { ContentBlock, PromptCapabilities } from "../acp/types";
+
+// Size limits for non-image attachments (images are compressed instead)
+// Text is sent inline, so keep it small enough not to swamp the agent's context
+export const MAX_TEXT_ATTACHMENT_BYTES = 1 * 1024 * 1024;
+export const MAX_BINARY_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Bytes read from the start of a file to guess its type
+const SNIFF_BYTES = 8192;
+
+export type AttachmentKind = "image" | "audio" | "text" | "binary";
+
+export interface SniffedAttachment {
+  kind: AttachmentKind;
+  mimeType: string;
+}
+
+// File signatures, checked before trusting the browser's (extension-based) type
+const MAGIC_NUMBERS: Array<{ bytes: number[]; offset?: number; mimeType: string }> = [
+  { bytes: [0x25, 0x50, 0x44, 0x46], mimeType: "application/pdf" }, // %PDF
+  { bytes: [0x89, 0x50, 0x4e, 0x47], mimeType: "image/png" },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: "image/jpeg" },
+  { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: "image/gif" }, // GIF8
+  { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, mimeType: "image/webp" }, // RIFF....WEBP
+  { bytes: [0x57, 0x41, 0x56, 0x45], offset: 8, mimeType: "audio/wav" }, // RIFF....WAVE
+  { bytes: [0x49, 0x44, 0x33], mimeType: "audio/mpeg" }, // ID3-tagged MP3
+  { bytes: [0xff, 0xfb], mimeType: "audio/mpeg" },
+  { bytes: [0x4f, 0x67, 0x67, 0x53], mimeType: "audio/ogg" }, // OggS
+  { bytes: [0x66, 0x4c, 0x61, 0x43], mimeType: "audio/flac" }, // fLaC
+  { bytes: [0x50, 0x4b, 0x03, 0x04], mimeType: "application/zip" },
+  { bytes: [0x1f, 0x8b], mimeType: "application/gzip" },
+];
+
+// Text types browsers often leave blank or report as application/octet-stream
+const TEXT_EXTENSION_TYPES: Record<string, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  md: "text/markdown",
+  json: "application/json",
+  jsonl: "application/jsonl",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  html: "text/html",
+  log: "text/plain",
+  txt: "text/plain",
+};
+
+function kindOf(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return "binary";
+}
+
+function matchesMagic(head: Uint8Array, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, index) => head[offset + index] === byte);
+}
+
+// Valid UTF-8 without NUL bytes is treated as text
+function looksLikeText(head: Uint8Array): boolean {
+  if (head.includes(0)) return false;
+  try {
+    // stream: true tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Work out what a file really is from its first bytes, falling back to the
+ * browser's type and the file extension.
+ */
+export async function sniffAttachment(file: Blob, name: string): Promise<SniffedAttachment> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+
+  for (const magic of MAGIC_NUMBERS) {
+    if (matchesMagic(head, magic.bytes, magic.offset)) {
+      return { kind: kindOf(magic.mimeType), mimeType: magic.mimeType };
+    }
+  }
+
+  // No signature: formats like m4a and webm still report a usable type
+  if (file.type.startsWith("audio/") || file.type.startsWith("image/")) {
+    return { kind: kindOf(file.type), mimeType: file.type };
+  }
+
+  if (looksLikeText(head)) {
+    const extension = name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+    const declared = file.type && file.type !== "application/octet-stream" ? file.type : null;
+    return {
+      kind: "text",
+      mimeType: declared ?? TEXT_EXTENSION_TYPES[extension] ?? "text/plain",
+    };
+  }
+
+  return { kind: "binary", mimeType: file.type || "application/octet-stream" };
+}
+
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      const commaIndex = result.indexOf(",");
+      resolve(commaIndex >= 0 ? result.slice(commaIndex + 1) : result);
+    };
+    reader.onerror = () => reject(new Error("FileReader error: " + reader.error?.message));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+/**
+ * Map a non-image attachment to a prompt content block the agent accepts:
+ * - audio: an `audio` block when the agent supports audio
+ * - text: an embedded `resource` when the agent supports embedded context,
+ *   otherwise the contents as a plain `text` block
+ * - anything else: an embedded `resource` blob (requires embedded context)
+ * Throws an Error with a user-facing message when the file can't be sent.
+ */
+export async function buildAttachmentBlock(
+  file: Blob,
+  name: string,
+  sniffed: SniffedAttachment,
+  capabilities: PromptCapabilities | null,
+): Promise<ContentBlock> {
+  // Attachments have no path the agent could read, so they get a name-only URI
+  const uri = `attachment:///${encodeURIComponent(name)}`;
+
+  if (sniffed.kind === "text") {
+    if (file.size > MAX_TEXT_ATTACHMENT_BYTES) {
+      throw new Error(`${name} is too large (${formatSize(file.size)}, max ${formatSize(MAX_TEXT_ATTACHMENT_BYTES)} for text)`);
+    }
+    const text = await file.text();
+    if (capabilities?.embeddedContext) {
+      return { type: "resource", resource: { uri, text, mimeType: sniffed.mimeType } };
+    }
+    // Every agent accepts text, so fall back to inlining the contents
+    return { type: "text", text: `Attached file ${name}:\n\n${text}` };
+  }
+
+  if (file.size > MAX_BINARY_ATTACHMENT_BYTES) {
+    throw new Error(`${name} is too large (${formatSize(file.size)}, max ${formatSize(MAX_BINARY_ATTACHMENT_BYTES)})`);
+  }
+
+  if (sniffed.kind === "audio" && capabilities?.audio) {
+    return { type: "audio", mimeType: sniffed.mimeType, data: await blobToBase64(file) };
+  }
+
+  if (!capabilities?.embeddedContext) {
+    throw new Error(`The agent doesn't accept ${sniffed.mimeType} attachments (${name})`);
+  }
+  return { type: "resource", resource: { uri, blob: await blobToBase64(file), mimeType: sniffed.mimeType } };
+}
@@ -1,3 +1,8 @@
 export * from "./utils";
 export * from "./theme";
 
+export * from "./attachments";
+export * from "./line-diff";
+export * from "./thread-entries";
+export * from "./thread-export";
+export * from "./transcript-cache";
@@ -0,0 +1,162 @@
+// Line diff for the file edits agents report as ToolCallContent "diff" (old/new text)
+
+export type DiffLineType = "context" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers; removed lines have no new line and added lines no old line
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+// Above this many cells the LCS table gets too big, and the changed middle
+// is shown as removed-then-added instead
+const MAX_LCS_CELLS = 4_000_000;
+const DEFAULT_CONTEXT_LINES = 3;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  // A trailing newline doesn't start another line
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Diff two texts line by line. A missing old text (a new file) shows every line as added.
+ */
+export function diffLines(oldText: string | null | undefined, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText ?? "");
+  const newLines = splitLines(newText);
+
+  // Edits usually touch a small part of a file, so only the middle goes through LCS
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (type: DiffLineType, text: string) => {
+    result.push({
+      type,
+      text,
+      oldLine: type === "added" ? undefined : oldLine++,
+      newLine: type === "removed" ? undefined : newLine++,
+    });
+  };
+
+  for (const line of oldLines.slice(0, prefix)) push("context", line);
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    for (const line of oldMiddle) push("removed", line);
+    for (const line of newMiddle) push("added", line);
+  } else {
+    // lengths[i][j] = LCS length of oldMiddle[i:] and newMiddle[j:]
+    const width = newMiddle.length + 1;
+    const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lengths[(i + 1) * width + j + 1]! + 1
+            : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        push("context", oldMiddle[i++]!);
+        j++;
+      } else if (
+        i < oldMiddle.length &&
+        (j === newMiddle.length || lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!)
+      ) {
+        // Removals go first, like git
+        push("removed", oldMiddle[i++]!);
+      } else {
+        push("added", newMiddle[j++]!);
+      }
+    }
+  }
+
+  for (const line of oldLines.slice(oldLines.length - suffix)) push("context", line);
+  return result;
+}
+
+/**
+ * Group a diff into hunks of changes with some unchanged lines around each.
+ */
+export function getDiffHunks(lines: DiffLine[], contextLines = DEFAULT_CONTEXT_LINES): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] = [];
+  let trailingContext = 0;
+
+  const flush = () => {
+    // Drop the unchanged lines past the context after the last change
+    const lines = current.slice(0, current.length - Math.max(0, trailingContext - contextLines));
+    current = [];
+    trailingContext = 0;
+    if (!lines.some((line) => line.type !== "context")) return;
+    const first = lines[0]!;
+    hunks.push({
+      oldStart: first.oldLine ?? lines.find((line) => line.oldLine)?.oldLine ?? 0,
+      oldLines: lines.filter((line) => line.type !== "added").length,
+      newStart: first.newLine ?? lines.find((line) => line.newLine)?.newLine ?? 0,
+      newLines: lines.filter((line) => line.type !== "removed").length,
+      lines,
+    });
+  };
+
+  for (const [index, line] of lines.entries()) {
+    if (line.type === "context") {
+      if (current.length === 0) continue;
+      trailingContext++;
+      current.push(line);
+      // A long enough unchanged run ends the hunk
+      if (trailingContext > contextLines * 2) flush();
+      continue;
+    }
+    if (current.length === 0) {
+      current = lines.slice(Math.max(0, index - contextLines), index);
+    }
+    trailingContext = 0;
+    current.push(line);
+  }
+  flush();
+  return hunks;
+}
+
+/**
+ * Render a file edit as a unified diff (the format `git diff` prints).
+ */
+export function formatUnifiedDiff(path: string, oldText: string | null | undefined, newText: string): string {
+  const header = [`--- ${oldText == null ? "/dev/null" : path}`, `+++ ${path}`];
+  const body = getDiffHunks(diffLines(oldText, newText)).flatMap((hunk) => [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines.map((line) => `${line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}${line.text}`),
+  ]);
+  return [...header, ...body].join("\n");
+}
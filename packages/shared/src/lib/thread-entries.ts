@@ -0,0 +1,85 @@
+import type { PermissionOption, PlanEntry, ToolCallContent } from "../acp/types";
+
+// Thread model rendered by ChatInterface: a flat list of entries (matching Zed's architecture)
+
+// Tool call status (matches Zed's ToolCallStatus enum)
+export type ToolCallStatus = "running" | "complete" | "error" | "waiting_for_confirmation" | "rejected" | "canceled";
+
+// Tool call data
+export interface ToolCallData {
+  id: string;
+  title: string;
+  status: ToolCallStatus;
+  content?: ToolCallContent[];
+  rawInput?: Record<string, unknown>;
+  rawOutput?: Record<string, unknown>;
+  // Permission request data (only when status is "waiting_for_confirmation")
+  permissionRequest?: {
+    requestId: string;
+    options: PermissionOption[];
+  };
+  // True if this is a standalone permission request (not attached to a real tool call)
+  isStandalonePermission?: boolean;
+}
+
+// Assistant message chunk - can be regular message or thought
+export type AssistantChunk =
+  | { type: "message"; text: string }
+  | { type: "thought"; text: string };
+
+// Image data for display in user messages
+// Reference: Zed's ContentBlock::Image stores decoded image for rendering
+export interface UserMessageImage {
+  mimeType: string;
+  data: string;  // base64 encoded
+}
+
+// Non-image attachment shown in user messages (contents went to the agent only)
+export interface UserMessageFile {
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+// User message entry
+// Reference: Zed's UserMessage { content: ContentBlock, chunks: Vec<acp::ContentBlock> }
+export interface UserMessageEntry {
+  type: "user_message";
+  id: string;
+  content: string;
+  images?: UserMessageImage[];  // Images attached to this message
+  files?: UserMessageFile[];  // Other files attached to this message
+}
+
+// Assistant message entry - contains chunks (text + thoughts)
+export interface AssistantMessageEntry {
+  type: "assistant_message";
+  id: string;
+  chunks: AssistantChunk[];
+}
+
+// Tool call entry - standalone, not nested in messages
+export interface ToolCallEntry {
+  type: "tool_call";
+  toolCall: ToolCallData;
+}
+
+// Plan entry - the agent's task list for the current turn
+// Reference: Zed's AcpThread keeps a single Plan that each update replaces
+export interface PlanThreadEntry {
+  type: "plan";
+  id: string;
+  entries: PlanEntry[];
+}
+
+// Thread entry - flat list of all entries
+export type ThreadEntry = UserMessageEntry | AssistantMessageEntry | ToolCallEntry | PlanThreadEntry;
+
+// Collect unique terminal IDs referenced by a tool call's content
+export function getTerminalIds(content?: ToolCallContent[]): string[] {
+  const ids = new Set<string>();
+  for (const item of content ?? []) {
+    if (item.type === "terminal") ids.add(item.terminalId);
+  }
+  return Array.from(ids);
+}
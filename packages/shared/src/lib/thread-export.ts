@@ -0,0 +1,491 @@
+import type { TerminalState } from "../acp/types";
+import { formatUnifiedDiff } from "./line-diff";
+import { getTerminalIds, type ThreadEntry, type ToolCallData } from "./thread-entries";
+
+// Saving a thread for code reviews and incident writeups. JSON keeps the
+// whole ThreadEntry model and can be opened again; Markdown and HTML are for reading.
+
+export const THREAD_EXPORT_FORMAT = "acp-thread";
+export const THREAD_EXPORT_VERSION = 1;
+
+export type ThreadExportFormat = "markdown" | "json" | "html";
+
+export interface ThreadExport {
+  format: typeof THREAD_EXPORT_FORMAT;
+  version: typeof THREAD_EXPORT_VERSION;
+  title: string;
+  sessionId: string | null;
+  exportedAt: string; // ISO 8601
+  entries: ThreadEntry[];
+  // Terminal output as it was at export time, keyed by terminal ID
+  terminals: Record<string, TerminalState>;
+}
+
+const FILE_EXTENSIONS: Record<ThreadExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+};
+
+const MIME_TYPES: Record<ThreadExportFormat, string> = {
+  markdown: "text/markdown",
+  json: "application/json",
+  html: "text/html",
+};
+
+const TOOL_STATUS_LABELS: Record<ToolCallData["status"], string> = {
+  running: "running",
+  complete: "completed",
+  error: "failed",
+  waiting_for_confirmation: "waiting for confirmation",
+  rejected: "rejected",
+  canceled: "canceled",
+};
+
+/**
+ * Snapshot a thread for export. Pending permission prompts can't be answered
+ * from a file, so they are saved as canceled.
+ */
+export function createThreadExport(
+  entries: ThreadEntry[],
+  options: { title: string; sessionId: string | null; getTerminal: (terminalId: string) => TerminalState | null },
+): ThreadExport {
+  const terminals: Record<string, TerminalState> = {};
+  const exportedEntries = entries.map((entry): ThreadEntry => {
+    if (entry.type !== "tool_call") return entry;
+    for (const terminalId of getTerminalIds(entry.toolCall.content)) {
+      const terminal = options.getTerminal(terminalId);
+      if (terminal) terminals[terminalId] = terminal;
+    }
+    const { permissionRequest: _permissionRequest, ...toolCall } = entry.toolCall;
+    return {
+      ...entry,
+      toolCall: {
+        ...toolCall,
+        status: toolCall.status === "waiting_for_confirmation" ? "canceled" : toolCall.status,
+      },
+    };
+  });
+
+  return {
+    format: THREAD_EXPORT_FORMAT,
+    version: THREAD_EXPORT_VERSION,
+    title: options.title,
+    sessionId: options.sessionId,
+    exportedAt: new Date().toISOString(),
+    entries: exportedEntries,
+    terminals,
+  };
+}
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+// A fence longer than any backtick run in the text, so code can't close it early
+function fence(text: string, language = ""): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longestRun + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function formatExitStatus(terminal: TerminalState): string {
+  if (!terminal.exitStatus) return "still running at export";
+  if (terminal.exitStatus.signal) return `killed by ${terminal.exitStatus.signal}`;
+  return `exit code ${terminal.exitStatus.exitCode ?? "unknown"}`;
+}
+
+function toolCallToMarkdown(toolCall: ToolCallData, terminals: Record<string, TerminalState>): string[] {
+  const parts = [`### Tool: ${toolCall.title} (${TOOL_STATUS_LABELS[toolCall.status]})`];
+  if (toolCall.rawInput && Object.keys(toolCall.rawInput).length > 0) {
+    parts.push("Input:", fence(JSON.stringify(toolCall.rawInput, null, 2), "json"));
+  }
+
+  let hasContentOutput = false;
+  for (const item of toolCall.content ?? []) {
+    if (item.type === "diff") {
+      parts.push(fence(formatUnifiedDiff(item.path, item.oldText, item.newText), "diff"));
+    } else if (item.type === "terminal") {
+      const terminal = terminals[item.terminalId];
+      if (!terminal) {
+        parts.push(`Terminal ${item.terminalId} (output not available)`);
+        continue;
+      }
+      const command = [terminal.command, ...terminal.args].join(" ");
+      parts.push(
+        `Terminal: \`${command}\` (${formatExitStatus(terminal)})`,
+        fence(`${terminal.truncated ? "[earlier output truncated]\n" : ""}${terminal.output.replace(/\n$/, "")}`),
+      );
+    } else if (item.content.type === "text" && item.content.text) {
+      hasContentOutput = true;
+      parts.push(fence(item.content.text));
+    }
+  }
+  if (!hasContentOutput && toolCall.rawOutput && Object.keys(toolCall.rawOutput).length > 0) {
+    parts.push("Output:", fence(JSON.stringify(toolCall.rawOutput, null, 2), "json"));
+  }
+  return parts;
+}
+
+export function threadToMarkdown(thread: ThreadExport): string {
+  const parts = [
+    `# ${thread.title}`,
+    [
+      ...(thread.sessionId ? [`- Session: \`${thread.sessionId}\``] : []),
+      `- Exported: ${new Date(thread.exportedAt).toLocaleString()}`,
+    ].join("\n"),
+  ];
+
+  for (const entry of thread.entries) {
+    switch (entry.type) {
+      case "user_message":
+        parts.push("## User");
+        if (entry.content) parts.push(entry.content);
+        for (const [index, image] of (entry.images ?? []).entries()) {
+          parts.push(`![Image ${index + 1}](data:${image.mimeType};base64,${image.data})`);
+        }
+        for (const file of entry.files ?? []) {
+          parts.push(`Attached: ${file.name} (${file.mimeType}, ${formatSize(file.size)})`);
+        }
+        break;
+      case "assistant_message":
+        parts.push("## Assistant");
+        for (const chunk of entry.chunks) {
+          parts.push(
+            chunk.type === "thought"
+              ? `<details>\n<summary>Thinking</summary>\n\n${chunk.text}\n\n</details>`
+              : chunk.text,
+          );
+        }
+        break;
+      case "tool_call":
+        parts.push(...toolCallToMarkdown(entry.toolCall, thread.terminals));
+        break;
+      case "plan":
+        if (entry.entries.length === 0) break;
+        parts.push(
+          "### Plan",
+          entry.entries.map((item) => `- [${item.status === "completed" ? "x" : " "}] ${item.content}`).join("\n"),
+        );
+        break;
+    }
+  }
+  return `${parts.join("\n\n")}\n`;
+}
+
+// =============================================================================
+// HTML
+// =============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLES = `
+body { font: 14px/1.5 system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+.meta { color: #656d76; font-size: 0.85rem; margin-bottom: 2rem; }
+.entry { margin: 1rem 0; }
+.role { font-weight: 600; font-size: 0.8rem; text-transform: uppercase; color: #656d76; margin-bottom: 0.25rem; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; }
+.user .text { background: #f6f8fa; border-radius: 8px; padding: 0.5rem 0.75rem; }
+.user img { max-width: 320px; border-radius: 6px; margin-top: 0.5rem; display: block; }
+details { color: #656d76; margin: 0.25rem 0; }
+.tool { border: 1px solid #d0d7de; border-radius: 8px; padding: 0.5rem 0.75rem; }
+.tool .status { color: #656d76; font-weight: normal; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 0.5rem; overflow-x: auto; font-size: 12px; }
+.diff .added { background: #dafbe1; display: block; }
+.diff .removed { background: #ffebe9; display: block; }
+.diff .hunk { color: #8250df; display: block; }
+.plan li.completed { text-decoration: line-through; color: #656d76; }
+`;
+
+function diffToHtml(path: string, oldText: string | null | undefined, newText: string): string {
+  const lines = formatUnifiedDiff(path, oldText, newText).split("\n").map((line) => {
+    const className = line.startsWith("@@")
+      ? "hunk"
+      : line.startsWith("+") && !line.startsWith("+++")
+        ? "added"
+        : line.startsWith("-") && !line.startsWith("---")
+          ? "removed"
+          : "";
+    return className ? `<span class="${className}">${escapeHtml(line)}</span>` : escapeHtml(line);
+  });
+  return `<pre class="diff">${lines.join("\n")}</pre>`;
+}
+
+function toolCallToHtml(toolCall: ToolCallData, terminals: Record<string, TerminalState>): string {
+  const parts = [
+    `<div class="role">Tool: ${escapeHtml(toolCall.title)} <span class="status">(${TOOL_STATUS_LABELS[toolCall.status]})</span></div>`,
+  ];
+  if (toolCall.rawInput && Object.keys(toolCall.rawInput).length > 0) {
+    parts.push(`<pre>${escapeHtml(JSON.stringify(toolCall.rawInput, null, 2))}</pre>`);
+  }
+
+  let hasContentOutput = false;
+  for (const item of toolCall.content ?? []) {
+    if (item.type === "diff") {
+      parts.push(diffToHtml(item.path, item.oldText, item.newText));
+    } else if (item.type === "terminal") {
+      const terminal = terminals[item.terminalId];
+      if (!terminal) {
+        parts.push(`<p>Terminal ${escapeHtml(item.terminalId)} (output not available)</p>`);
+        continue;
+      }
+      const command = [terminal.command, ...terminal.args].join(" ");
+      parts.push(
+        `<p><code>$ ${escapeHtml(command)}</code> (${escapeHtml(formatExitStatus(terminal))})</p>`,
+        `<pre>${terminal.truncated ? "[earlier output truncated]\n" : ""}${escapeHtml(terminal.output)}</pre>`,
+      );
+    } else if (item.content.type === "text" && item.content.text) {
+      hasContentOutput = true;
+      parts.push(`<pre>${escapeHtml(item.content.text)}</pre>`);
+    }
+  }
+  if (!hasContentOutput && toolCall.rawOutput && Object.keys(toolCall.rawOutput).length > 0) {
+    parts.push(`<pre>${escapeHtml(JSON.stringify(toolCall.rawOutput, null, 2))}</pre>`);
+  }
+  return `<div class="entry tool">${parts.join("\n")}</div>`;
+}
+
+/**
+ * A single HTML file with inline styles and images, viewable without the app.
+ */
+export function threadToHtml(thread: ThreadExport): string {
+  const body: string[] = [];
+  for (const entry of thread.entries) {
+    switch (entry.type) {
+      case "user_message": {
+        const images = (entry.images ?? []).map(
+          (image) => `<img src="data:${escapeHtml(image.mimeType)};base64,${escapeHtml(image.data)}" alt="">`,
+        );
+        const files = (entry.files ?? []).map(
+          (file) => `<p>Attached: ${escapeHtml(file.name)} (${escapeHtml(file.mimeType)}, ${formatSize(file.size)})</p>`,
+        );
+        body.push(
+          `<div class="entry user"><div class="role">User</div>` +
+            `${entry.content ? `<div class="text">${escapeHtml(entry.content)}</div>` : ""}` +
+            `${images.join("")}${files.join("")}</div>`,
+        );
+        break;
+      }
+      case "assistant_message": {
+        const chunks = entry.chunks.map((chunk) =>
+          chunk.type === "thought"
+            ? `<details><summary>Thinking</summary><div class="text">${escapeHtml(chunk.text)}</div></details>`
+            : `<div class="text">${escapeHtml(chunk.text)}</div>`,
+        );
+        body.push(`<div class="entry assistant"><div class="role">Assistant</div>${chunks.join("")}</div>`);
+        break;
+      }
+      case "tool_call":
+        body.push(toolCallToHtml(entry.toolCall, thread.terminals));
+        break;
+      case "plan":
+        if (entry.entries.length === 0) break;
+        body.push(
+          `<div class="entry plan"><div class="role">Plan</div><ul>${entry.entries
+            .map((item) => `<li class="${escapeHtml(item.status)}">${escapeHtml(item.content)}</li>`)
+            .join("")}</ul></div>`,
+        );
+        break;
+    }
+  }
+
+  const meta = [
+    ...(thread.sessionId ? [`Session ${escapeHtml(thread.sessionId)}`] : []),
+    `Exported ${escapeHtml(new Date(thread.exportedAt).toLocaleString())}`,
+  ].join(" · ");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(thread.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(thread.title)}</h1>
+<div class="meta">${meta}</div>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+// =============================================================================
+// JSON
+// =============================================================================
+
+export function threadToJson(thread: ThreadExport): string {
+  return JSON.stringify(thread, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isArrayOf(value: unknown, check: (item: unknown) => boolean): boolean {
+  return Array.isArray(value) && value.every(check);
+}
+
+function isToolCallContent(item: unknown): boolean {
+  if (!isRecord(item)) return false;
+  switch (item.type) {
+    case "diff":
+      return typeof item.path === "string" && typeof item.newText === "string";
+    case "terminal":
+      return typeof item.terminalId === "string";
+    case "content":
+      return isRecord(item.content) && typeof item.content.type === "string";
+    default:
+      return false;
+  }
+}
+
+/**
+ * What is wrong with an imported entry, or null if ChatInterface can render it.
+ */
+function getEntryProblem(entry: unknown): string | null {
+  if (!isRecord(entry)) return "not an object";
+  switch (entry.type) {
+    case "user_message":
+      if (typeof entry.id !== "string" || typeof entry.content !== "string") return "user message without content";
+      if (
+        (entry.images !== undefined &&
+          !isArrayOf(entry.images, (image) => isRecord(image) && typeof image.mimeType === "string" && typeof image.data === "string")) ||
+        (entry.files !== undefined &&
+          !isArrayOf(entry.files, (file) => isRecord(file) && typeof file.name === "string" && typeof file.size === "number"))
+      ) {
+        return "user message with invalid attachments";
+      }
+      return null;
+    case "assistant_message":
+      if (
+        typeof entry.id !== "string" ||
+        !isArrayOf(
+          entry.chunks,
+          (chunk) => isRecord(chunk) && (chunk.type === "message" || chunk.type === "thought") && typeof chunk.text === "string",
+        )
+      ) {
+        return "assistant message without chunks";
+      }
+      return null;
+    case "tool_call": {
+      const toolCall = entry.toolCall;
+      if (
+        !isRecord(toolCall) ||
+        typeof toolCall.id !== "string" ||
+        typeof toolCall.title !== "string" ||
+        !(typeof toolCall.status === "string" && toolCall.status in TOOL_STATUS_LABELS)
+      ) {
+        return "tool call without id, title or status";
+      }
+      if (toolCall.content !== undefined && !isArrayOf(toolCall.content, isToolCallContent)) {
+        return "tool call with invalid content";
+      }
+      if ((toolCall.rawInput !== undefined && !isRecord(toolCall.rawInput)) || (toolCall.rawOutput !== undefined && !isRecord(toolCall.rawOutput))) {
+        return "tool call with invalid input or output";
+      }
+      return null;
+    }
+    case "plan":
+      if (
+        typeof entry.id !== "string" ||
+        !isArrayOf(entry.entries, (item) => isRecord(item) && typeof item.content === "string" && typeof item.status === "string")
+      ) {
+        return "plan without entries";
+      }
+      return null;
+    default:
+      return `unknown entry type ${JSON.stringify(entry.type)}`;
+  }
+}
+
+function isTerminalState(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.command === "string" &&
+    isArrayOf(value.args, (arg) => typeof arg === "string") &&
+    typeof value.output === "string" &&
+    (value.exitStatus === null || isRecord(value.exitStatus))
+  );
+}
+
+/**
+ * Read a thread saved with threadToJson.
+ * Throws an Error with a user-facing message when the file isn't one.
+ */
+export function parseThreadExport(text: string): ThreadExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (!isRecord(data) || data.format !== THREAD_EXPORT_FORMAT) {
+    throw new Error("The file is not an exported thread");
+  }
+  if (data.version !== THREAD_EXPORT_VERSION) {
+    throw new Error(`Unsupported thread export version: ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.entries)) {
+    throw new Error("The exported thread has no entries");
+  }
+  for (const [index, entry] of data.entries.entries()) {
+    const problem = getEntryProblem(entry);
+    if (problem) {
+      throw new Error(`The exported thread has an invalid entry (#${index + 1}: ${problem})`);
+    }
+  }
+  if (isRecord(data.terminals) && !Object.values(data.terminals).every(isTerminalState)) {
+    throw new Error("The exported thread has invalid terminal output");
+  }
+  return {
+    format: THREAD_EXPORT_FORMAT,
+    version: THREAD_EXPORT_VERSION,
+    title: typeof data.title === "string" ? data.title : "Imported thread",
+    sessionId: typeof data.sessionId === "string" ? data.sessionId : null,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : new Date(0).toISOString(),
+    entries: data.entries as ThreadEntry[],
+    terminals: isRecord(data.terminals) ? (data.terminals as Record<string, TerminalState>) : {},
+  };
+}
+
+// =============================================================================
+// Download
+// =============================================================================
+
+function getExportFileName(thread: ThreadExport, format: ThreadExportFormat): string {
+  const slug = thread.title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  const date = thread.exportedAt.slice(0, 10);
+  return `${slug || "thread"}-${date}.${FILE_EXTENSIONS[format]}`;
+}
+
+/**
+ * Save the thread through the browser's download prompt.
+ */
+export function downloadThreadExport(thread: ThreadExport, format: ThreadExportFormat): void {
+  const content =
+    format === "markdown" ? threadToMarkdown(thread) : format === "html" ? threadToHtml(thread) : threadToJson(thread);
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getExportFileName(thread, format);
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
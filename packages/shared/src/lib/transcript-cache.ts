@@ -0,0 +1,119 @@
+import type { TerminalState } from "../acp/types";
+import type { ThreadEntry } from "./thread-entries";
+
+// Threads are kept in IndexedDB so switching to one shows it right away,
+// before (or instead of) the agent replaying it, and so they can be read
+// without a connection. Entries from different proxies never mix.
+
+const DB_NAME = "acp-transcripts";
+const DB_VERSION = 1;
+const STORE_NAME = "transcripts";
+const PROXY_URL_INDEX = "proxyUrl";
+// Oldest threads beyond this are dropped, per proxy
+const MAX_TRANSCRIPTS_PER_PROXY = 200;
+
+export interface CachedTranscript {
+  proxyUrl: string;
+  sessionId: string;
+  title: string;
+  updatedAt: string; // ISO 8601
+  entries: ThreadEntry[];
+  // Terminal output as last seen, keyed by terminal ID (the proxy forgets finished terminals)
+  terminals: Record<string, TerminalState>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: ["proxyUrl", "sessionId"] });
+        store.createIndex(PROXY_URL_INDEX, "proxyUrl");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open transcript cache"));
+    });
+    // Let a later call retry (e.g. after the user freed up storage)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Transcript cache request failed"));
+  });
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+// The cache is an optimization: failures are logged and treated as a miss
+function logCacheError(action: string, error: unknown): void {
+  console.warn(`[TranscriptCache] Failed to ${action}:`, error);
+}
+
+export async function getCachedTranscript(proxyUrl: string, sessionId: string): Promise<CachedTranscript | null> {
+  try {
+    const store = await getStore("readonly");
+    return (await requestToPromise(store.get([proxyUrl, sessionId]))) ?? null;
+  } catch (error) {
+    logCacheError("read transcript", error);
+    return null;
+  }
+}
+
+/**
+ * Cached threads, most recently updated first. Without a proxy URL, threads of every proxy.
+ */
+export async function listCachedTranscripts(proxyUrl?: string): Promise<CachedTranscript[]> {
+  try {
+    const store = await getStore("readonly");
+    const request = proxyUrl ? store.index(PROXY_URL_INDEX).getAll(proxyUrl) : store.getAll();
+    const transcripts = (await requestToPromise(request)) as CachedTranscript[];
+    return transcripts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    logCacheError("list transcripts", error);
+    return [];
+  }
+}
+
+export async function putCachedTranscript(transcript: CachedTranscript): Promise<void> {
+  try {
+    const store = await getStore("readwrite");
+    await requestToPromise(store.put(transcript));
+
+    const keys = (await requestToPromise(
+      store.index(PROXY_URL_INDEX).getAllKeys(transcript.proxyUrl),
+    )) as IDBValidKey[];
+    if (keys.length > MAX_TRANSCRIPTS_PER_PROXY) {
+      const transcripts = await listCachedTranscripts(transcript.proxyUrl);
+      const pruneStore = await getStore("readwrite");
+      for (const stale of transcripts.slice(MAX_TRANSCRIPTS_PER_PROXY)) {
+        pruneStore.delete([stale.proxyUrl, stale.sessionId]);
+      }
+    }
+  } catch (error) {
+    logCacheError("save transcript", error);
+  }
+}
+
+export async function deleteCachedTranscript(proxyUrl: string, sessionId: string): Promise<void> {
+  try {
+    const store = await getStore("readwrite");
+    await requestToPromise(store.delete([proxyUrl, sessionId]));
+  } catch (error) {
+    logCacheError("delete transcript", error);
+  }
+}